@@ -1,6 +1,7 @@
 import EventForm from "@/components/forms/EventForm"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { getEvent } from "@/server/actions/events"
+import { getSchedules } from "@/server/actions/schedule"
 import { auth } from "@clerk/nextjs/server"
 
 // The default exported async function for the EditEventPage
@@ -15,7 +16,10 @@ export default async function EditEventPage({
 
   const { eventId } = await params
     // Fetch the event from the database using the eventId and the logged-in user's ID
-  const event = await getEvent(userId, eventId)
+  const [event, schedules] = await Promise.all([
+    getEvent(userId, eventId),
+    getSchedules(userId), // The user's schedules, so the event can be assigned to one of them
+  ])
   if(!event) return <h1>Event not found</h1>
 
     // Render the page with a card layout, displaying the "Edit Event" form
@@ -27,7 +31,18 @@ export default async function EditEventPage({
       <CardContent>
         {/* Render the EventForm with the event details, passing the event data as props */}
         <EventForm
-          event={{ ...event, description: event.description || undefined }} // If description is null, pass undefined
+          event={{
+            ...event,
+            description: event.description || undefined, // If description is null, pass undefined
+            locationValue: event.locationValue ?? '', // Ensure controlled input
+            bookingWindowStartDate: event.bookingWindowStartDate ?? '', // Date inputs need a string
+            bookingWindowEndDate: event.bookingWindowEndDate ?? '',
+            maxBookingsPerDay: event.maxBookingsPerDay ?? undefined, // NULL limits mean "no limit"
+            maxBookingsPerWeek: event.maxBookingsPerWeek ?? undefined,
+            maxBookingsPerMonth: event.maxBookingsPerMonth ?? undefined,
+            maxBookedMinutesPerDay: event.maxBookedMinutesPerDay ?? undefined,
+          }}
+          schedules={schedules}
         />
       </CardContent>
     </Card>
@@ -2,8 +2,17 @@
 
 import EventForm from "@/components/forms/EventForm";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getSchedules } from "@/server/actions/schedule";
+import { auth } from "@clerk/nextjs/server";
+
+export default async function NewEventPage(){
+    // Get the current authenticated user and handle the redirect if the user is not logged in
+    const { userId, redirectToSignIn } = await auth()
+    if (!userId) return redirectToSignIn()
+
+    // The user's schedules, so the event can be assigned to one of them
+    const schedules = await getSchedules(userId)
 
-export default function NewEventPage(){
     return (
         // Container Card component centered on the page with a max width
         <Card className="max-w-md mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
@@ -14,7 +23,7 @@ export default function NewEventPage(){
     
           {/* Content section of the card containing the event form */}
           <CardContent>
-            <EventForm />
+            <EventForm schedules={schedules} />
           </CardContent>
         </Card>
       )
@@ -2,6 +2,7 @@
 import EventCard from "@/components/cards/EventCard";
 import { Button } from "@/components/ui/button";
 import { getEvents } from "@/server/actions/events";
+import { getUserSettings } from "@/server/settings";
 import { auth } from "@clerk/nextjs/server";
 import { CalendarPlus, CalendarRange } from "lucide-react";
 import Link from "next/link";
@@ -12,7 +13,7 @@ export default async function EventsPage() {
         // Redirect to sign-in page if user is not authenticated
         if (!userId) return redirectToSignIn()
 
-        const events = await getEvents(userId)
+        const [events, settings] = await Promise.all([getEvents(userId), getUserSettings(userId)])
 
     return (
         <section className="flex flex-col items-center gap-16 animate-fade-in">
@@ -42,7 +43,7 @@ export default async function EventsPage() {
             {events.length > 0 ? (
               <div className="grid gap-4 grid-cols-1 md:grid-cols-2 lg:grid-cols-4 p-10">
                 {events.map(event => (
-                  <EventCard key={event.id} {...event} />
+                  <EventCard key={event.id} {...event} username={settings?.username ?? null} />
                 ))}
               </div>
             ) : (
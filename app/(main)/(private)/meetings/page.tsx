@@ -0,0 +1,138 @@
+// This code defines the host-facing `MeetingsPage`, which lists every meeting booked through Calendify. The filters (tab, event type, date range and page) live in the URL search params, so the whole listing is rendered on the server and every filtered view can be bookmarked or shared. Meetings are split into upcoming, requests (bookings waiting for the host to accept or reject them), past and cancelled tabs and paginated so hosts with a lot of bookings can still browse them comfortably.
+
+import MeetingCard from "@/components/cards/MeetingCard"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { MEETING_TABS, MEETINGS_PER_PAGE } from "@/constants"
+import { cn } from "@/lib/utils"
+import { meetingFiltersSchema } from "@/schema/meetings"
+import { getEvents } from "@/server/actions/events"
+import { getMeetings } from "@/server/actions/meetings"
+import { getSchedule } from "@/server/actions/schedule"
+import { auth } from "@clerk/nextjs/server"
+import { CalendarX } from "lucide-react"
+import Link from "next/link"
+import { z } from "zod"
+
+export default async function MeetingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+    // Get the authenticated user's ID
+    const { userId, redirectToSignIn } = await auth()
+    // Redirect to sign-in page if user is not authenticated
+    if (!userId) return redirectToSignIn()
+
+    // Parse the filters from the URL, falling back to defaults for anything missing or invalid
+    const filters = meetingFiltersSchema.parse(await searchParams)
+
+    // Use the host's schedule timezone to interpret the date range (or UTC if no schedule yet)
+    const schedule = await getSchedule(userId)
+    const timezone = schedule?.timezone ?? "UTC"
+
+    // Fetch the host's event types (for the filter dropdown) and the current page of meetings
+    const [events, { meetings, total }] = await Promise.all([
+      getEvents(userId),
+      getMeetings(userId, filters, timezone),
+    ])
+
+    const pageCount = Math.max(1, Math.ceil(total / MEETINGS_PER_PAGE))
+
+    // Build a link to this page with some of the filters changed, keeping the others as they are
+    const buildHref = (overrides: Partial<z.infer<typeof meetingFiltersSchema>>) => {
+      const params = new URLSearchParams()
+      Object.entries({ ...filters, ...overrides }).forEach(([key, value]) => {
+        if (value != null && value !== "") params.set(key, String(value))
+      })
+      return `/meetings?${params.toString()}`
+    }
+
+    return (
+        <section className="flex flex-col items-center gap-10 animate-fade-in px-10 pb-10">
+            {/* Page title */}
+            <h1 className="text-4xl xl:text-5xl font-black">
+                Meetings
+            </h1>
+
+            {/* Tabs: switching tab resets the page number but keeps the other filters */}
+            <div className="flex gap-2">
+              {MEETING_TABS.map(tab => (
+                <Button
+                  key={tab}
+                  variant="outline"
+                  className={cn("capitalize rounded-2xl", filters.tab === tab && "bg-blue-100 font-bold")}
+                  asChild
+                >
+                  <Link href={buildHref({ tab, page: 1 })}>{tab}</Link>
+                </Button>
+              ))}
+            </div>
+
+            {/* Filters: a plain GET form, so it works without any client-side JavaScript */}
+            <form method="get" action="/meetings" className="flex flex-wrap items-end gap-4">
+              <input type="hidden" name="tab" value={filters.tab} />
+
+              <label className="flex flex-col gap-1 text-sm font-semibold">
+                Event
+                <select
+                  name="eventId"
+                  defaultValue={filters.eventId ?? ""}
+                  className="border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs"
+                >
+                  <option value="">All events</option>
+                  {events.map(event => (
+                    <option key={event.id} value={event.id}>{event.name}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex flex-col gap-1 text-sm font-semibold">
+                From
+                <Input type="date" name="from" defaultValue={filters.from} />
+              </label>
+
+              <label className="flex flex-col gap-1 text-sm font-semibold">
+                To
+                <Input type="date" name="to" defaultValue={filters.to} />
+              </label>
+
+              <Button type="submit" className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600">
+                Filter
+              </Button>
+              <Button variant="outline" asChild>
+                <Link href={`/meetings?tab=${filters.tab}`}>Reset</Link>
+              </Button>
+            </form>
+
+            {/* Show meeting cards if any exist, otherwise show empty state */}
+            {meetings.length > 0 ? (
+              <div className="grid gap-4 grid-cols-1 md:grid-cols-2 lg:grid-cols-3 w-full max-w-6xl">
+                {meetings.map(meeting => (
+                  <MeetingCard key={meeting.id} {...meeting} />
+                ))}
+              </div>
+            ) : (
+              <div className="flex flex-col items-center gap-4">
+                <CalendarX className="size-16 mx-auto text-black" />
+                No {filters.tab === "requests" ? "booking requests" : `${filters.tab} meetings`} match these filters.
+              </div>
+            )}
+
+            {/* Pagination controls */}
+            {pageCount > 1 && (
+              <div className="flex items-center gap-4">
+                <Button variant="outline" disabled={filters.page <= 1} asChild={filters.page > 1}>
+                  {filters.page > 1 ? <Link href={buildHref({ page: filters.page - 1 })}>Previous</Link> : "Previous"}
+                </Button>
+                <span className="text-sm">
+                  Page {filters.page} of {pageCount} ({total} meetings)
+                </span>
+                <Button variant="outline" disabled={filters.page >= pageCount} asChild={filters.page < pageCount}>
+                  {filters.page < pageCount ? <Link href={buildHref({ page: filters.page + 1 })}>Next</Link> : "Next"}
+                </Button>
+              </div>
+            )}
+        </section>
+    )
+}
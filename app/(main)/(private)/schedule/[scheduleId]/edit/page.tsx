@@ -0,0 +1,32 @@
+import { ScheduleForm } from "@/components/forms/ScheduleForm"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { getScheduleById } from "@/server/actions/schedule"
+import { auth } from "@clerk/nextjs/server"
+
+// Page for editing one of the user's availability schedules
+export default async function EditSchedulePage({
+  params, // Extracting the scheduleId from the URL params
+}: {
+  params: Promise<{ scheduleId: string }>
+}) {
+    // Get the current authenticated user and handle the redirect if the user is not logged in
+    const { userId, redirectToSignIn } = await auth()
+    if (!userId) return redirectToSignIn()
+
+    const { scheduleId } = await params
+    // Fetch the schedule, making sure it belongs to the logged-in user
+    const schedule = await getScheduleById(userId, scheduleId)
+    if (!schedule) return <h1>Schedule not found</h1>
+
+    return (
+        <Card className="max-w-md mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
+            <CardHeader>
+                <CardTitle>Edit Schedule</CardTitle>
+            </CardHeader>
+            <CardContent>
+                {/* Render the ScheduleForm with the schedule's availabilities and date overrides */}
+                <ScheduleForm schedule={schedule} />
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,16 @@
+import { ScheduleForm } from "@/components/forms/ScheduleForm"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+
+// Page for creating a new availability schedule
+export default function NewSchedulePage() {
+    return (
+        <Card className="max-w-md mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
+            <CardHeader>
+                <CardTitle>New Schedule</CardTitle>
+            </CardHeader>
+            <CardContent>
+                <ScheduleForm />
+            </CardContent>
+        </Card>
+    )
+}
@@ -1,10 +1,11 @@
-// This code defines a `SchedulePage` component that is responsible for rendering a user's schedule page. It first checks if the user is authenticated using Clerk's authentication system; if not, the user is redirected to the sign-in page. Then, it queries the database for the user's schedule, including any availability information associated with it. Once the schedule data is retrieved, it renders the page within a card layout, displaying a title and a `ScheduleForm` component populated with the user's schedule. This allows the user to view and possibly manage their schedule on the page.
+// This code defines a `SchedulePage` component that lists the user's availability schedules. It first checks if the user is authenticated using Clerk's authentication system; if not, the user is redirected to the sign-in page. Then it fetches all of the user's schedules (the default one first) and shows them as cards, each linking to its edit page, together with a button to create a new schedule. Events pick one of these schedules, or use the default one.
 
-import { ScheduleForm } from "@/components/forms/ScheduleForm"
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { getSchedule } from "@/server/actions/schedule"
+import ScheduleCard from "@/components/cards/ScheduleCard"
+import { Button } from "@/components/ui/button"
+import { getSchedules } from "@/server/actions/schedule"
 import { auth } from "@clerk/nextjs/server"
-import { revalidatePath } from "next/cache"
+import { CalendarClock, CalendarPlus } from "lucide-react"
+import Link from "next/link"
 
 
 // Default export function for the SchedulePage component
@@ -13,20 +14,38 @@ export default async function SchedulePage() {
     const { userId, redirectToSignIn } = await auth()
     if (!userId) return redirectToSignIn() // Redirect to sign-in page if user is not authenticated
 
-  // Query the database to fetch the user's schedule based on the authenticated user
-  const schedule = await getSchedule(userId)
+  // Query the database to fetch all of the authenticated user's schedules
+  const schedules = await getSchedules(userId)
 
     return (
-            <Card className="max-w-md mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
-                <CardHeader>
-                    <CardTitle>Schedule</CardTitle> {/* Display title for the page */}
-                </CardHeader>
-                <CardContent>
-                    <ScheduleForm schedule={schedule} /> 
-                    {/* Render the ScheduleForm component with the fetched schedule */}
-                </CardContent>
-            </Card>
-    )
-
+        <section className="flex flex-col items-center gap-16 animate-fade-in">
+            {/* Page title and "New Schedule" button */}
+            <div className="flex gap-4 items-baseline">
+                <h1 className="text-4xl xl:text-5xl font-black mb-6">
+                    Schedules
+                </h1>
+                <Button
+                className="bg-blue-500 hover:bg-blue-400 text-white py-6 hover:scale-110 duration-500 border-b-4 border-blue-700 hover:border-blue-500 rounded-2xl shadow-accent-foreground text-2xl font-black"
+                asChild>
+                    <Link href="/schedule/new">
+                    <CalendarPlus className="mr-4 size-7" /> New Schedule
+                    </Link>
+                </Button>
+            </div>
 
-}
\ No newline at end of file
+            {/* Show schedule cards if any exist, otherwise show empty state */}
+            {schedules.length > 0 ? (
+              <div className="grid gap-4 grid-cols-1 md:grid-cols-2 lg:grid-cols-4 p-10">
+                {schedules.map(schedule => (
+                  <ScheduleCard key={schedule.id} {...schedule} />
+                ))}
+              </div>
+            ) : (
+              <div className="flex flex-col items-center gap-4">
+                <CalendarClock className="size-16 mx-auto text-black" />
+                You do not have a schedule yet. Create one so guests can book your events!
+              </div>
+            )}
+        </section>
+    )
+}
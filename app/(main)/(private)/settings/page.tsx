@@ -0,0 +1,123 @@
+// This code defines the `SettingsPage` component, where a host manages settings that apply to their whole account rather than to a single event. It checks that the user is signed in, loads their saved settings and renders each group of settings in its own card.
+
+import { CalendarFeedSettings } from "@/components/CalendarFeedSettings"
+import { BookingLimitsForm } from "@/components/forms/BookingLimitsForm"
+import { CalendarProviderForm } from "@/components/forms/CalendarProviderForm"
+import { GoogleCalendarsForm } from "@/components/forms/GoogleCalendarsForm"
+import { UsernameForm } from "@/components/forms/UsernameForm"
+import { WebhookForm } from "@/components/forms/WebhookForm"
+import { WebhookList } from "@/components/WebhookList"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { absoluteUrl } from "@/lib/utils"
+import { getUserSettings } from "@/server/settings"
+import { getWebhooks } from "@/server/actions/webhooks"
+import { listCalendars } from "@/server/google/googleCalendar"
+import { auth } from "@clerk/nextjs/server"
+
+// Default export function for the SettingsPage component
+export default async function SettingsPage() {
+    // Check if the user is authenticated (using Clerk authentication)
+    const { userId, redirectToSignIn } = await auth()
+    if (!userId) return redirectToSignIn() // Redirect to sign-in page if user is not authenticated
+
+    // Fetch the user's saved settings (undefined if they never saved any) and their webhooks
+    const [settings, webhooks] = await Promise.all([
+        getUserSettings(userId),
+        getWebhooks(userId),
+    ])
+
+    // The host's Google calendars, only needed when bookings go to Google (null if Google isn't connected)
+    const googleCalendars = (settings?.calendarProvider ?? "google") === "google"
+        ? await listCalendars(userId).catch(() => null)
+        : undefined
+    const primaryCalendarId = googleCalendars?.find(calendar => calendar.primary)?.id ?? "primary"
+
+    return (
+        <div className="flex flex-col gap-10 pb-10">
+            <Card className="w-full max-w-md mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
+                <CardHeader>
+                    <CardTitle>Public Link</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <UsernameForm username={settings?.username ?? undefined} />
+                </CardContent>
+            </Card>
+
+            <Card className="w-full max-w-md mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
+                <CardHeader>
+                    <CardTitle>Booking Limits</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <BookingLimitsForm
+                      limits={{
+                        maxBookingsPerDay: settings?.maxBookingsPerDay ?? undefined, // NULL limits mean "no limit"
+                        maxBookingsPerWeek: settings?.maxBookingsPerWeek ?? undefined,
+                        maxBookingsPerMonth: settings?.maxBookingsPerMonth ?? undefined,
+                        maxBookedMinutesPerDay: settings?.maxBookedMinutesPerDay ?? undefined,
+                      }}
+                    />
+                </CardContent>
+            </Card>
+
+            <Card className="w-full max-w-md mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
+                <CardHeader>
+                    <CardTitle>Calendar</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <CalendarProviderForm
+                      settings={{
+                        calendarProvider: settings?.calendarProvider ?? "google",
+                        caldavUrl: settings?.caldavUrl ?? undefined,
+                        caldavUsername: settings?.caldavUsername ?? undefined,
+                      }}
+                      hasPassword={settings?.hasCaldavPassword ?? false} // The saved password itself never leaves the server
+                    />
+                </CardContent>
+            </Card>
+
+            {googleCalendars !== undefined && (
+            <Card className="w-full max-w-md mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
+                <CardHeader>
+                    <CardTitle>Google Calendars</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {googleCalendars ? (
+                    <GoogleCalendarsForm
+                      calendars={googleCalendars}
+                      selection={{
+                        busyCalendarIds: settings?.googleBusyCalendarIds ?? [primaryCalendarId], // Primary only until changed
+                        bookingCalendarId: settings?.googleBookingCalendarId ?? primaryCalendarId,
+                      }}
+                    />
+                    ) : (
+                    <p className="text-sm text-muted-foreground">
+                        Your Google calendars couldn&apos;t be loaded. Sign in with Google to choose which calendars to use.
+                    </p>
+                    )}
+                </CardContent>
+            </Card>
+            )}
+
+            <Card className="w-full max-w-md mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
+                <CardHeader>
+                    <CardTitle>Calendar Feed</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <CalendarFeedSettings
+                      feedUrl={settings?.calendarFeedToken ? absoluteUrl(`/api/calendar-feed/${settings.calendarFeedToken}.ics`) : undefined}
+                    />
+                </CardContent>
+            </Card>
+
+            <Card className="w-full max-w-md mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
+                <CardHeader>
+                    <CardTitle>Webhooks</CardTitle>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-8">
+                    <WebhookList webhooks={webhooks} />
+                    <WebhookForm />
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
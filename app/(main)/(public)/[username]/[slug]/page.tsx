@@ -0,0 +1,26 @@
+import { getEventBySlug } from "@/server/actions/events";
+import { getUserSettingsByUsername } from "@/server/settings";
+import EventBooking from "@/components/EventBooking";
+import EventNotFound from "@/components/EventNotFound";
+import { notFound } from "next/navigation";
+
+// Booking page at the event's readable URL (/username/slug)
+export default async function UsernameBookingPage({
+    params
+  }: {
+    params: Promise<{ username: string; slug: string }>
+  }) {
+
+    const { username, slug } = await params
+
+    // Find the host who picked this username
+    const settings = await getUserSettingsByUsername(username)
+    if (!settings?.username) notFound()
+
+    // Fetch the host's event with this slug
+    const event = await getEventBySlug(settings.clerkUserId, slug)
+    // If event doesn't exist, show a 404 page
+    if(!event) return <EventNotFound />
+
+    return <EventBooking event={event} username={settings.username} />
+  }
@@ -0,0 +1,28 @@
+import BookingSuccess from "@/components/BookingSuccess";
+import EventNotFound from "@/components/EventNotFound";
+import { getEventBySlug } from "@/server/actions/events";
+import { getUserSettingsByUsername } from "@/server/settings";
+import { notFound } from "next/navigation";
+
+// Success page at the event's readable URL (/username/slug/success)
+export default async function UsernameSuccessPage({
+    params,
+    searchParams,
+  }: {
+    params: Promise<{ username: string; slug: string }>
+    searchParams: Promise<{ startTime: string; token?: string }>
+  }) {
+    const { username, slug } = await params
+    const { startTime, token } = await searchParams
+
+    // Find the host who picked this username
+    const settings = await getUserSettingsByUsername(username)
+    if (!settings?.username) notFound()
+
+    // Fetch the host's event with this slug
+    const event = await getEventBySlug(settings.clerkUserId, slug)
+    // If event doesn't exist, show a 404 page
+    if(!event) return <EventNotFound />
+
+    return <BookingSuccess event={event} startTime={startTime} token={token} />
+  }
@@ -0,0 +1,25 @@
+import PublicProfile from "@/components/PublicProfile"
+import { getUserSettingsByUsername } from "@/server/settings"
+import { clerkClient } from "@clerk/nextjs/server"
+import { notFound } from "next/navigation"
+
+
+// Public profile at the host's readable URL (/username)
+export default async function UsernameProfilePage({
+  params,
+}: {
+  params: Promise<{ username: string }>
+}) {
+  const { username } = await params
+
+  // Find the host who picked this username
+  const settings = await getUserSettingsByUsername(username)
+  if (!settings?.username) notFound()
+
+  const client = await clerkClient()
+  const user = await client.users.getUser(settings.clerkUserId)
+  const { fullName } = user // Extract the user's full name
+
+  // Render PublicProfile component
+  return <PublicProfile userId={settings.clerkUserId} fullName={fullName} username={settings.username} />
+}
@@ -1,10 +1,11 @@
-// This code defines a **Next.js server component** that displays a success page after a user books an event. It takes in URL parameters (`clerkUserId` and `eventId`) and a query parameter (`startTime`), then queries the database for a matching active event. If no event is found, it shows a 404 page. Otherwise, it fetches the user's details from Clerk, formats the provided `startTime` into a readable format, and displays a confirmation message indicating the event name, the user's full name, and the scheduled time. It also informs the user that an email confirmation will be sent, signaling that the booking was successful.
+// This code defines a **Next.js server component** that displays a success page after a user books an event. It takes in URL parameters (`clerkUserId` and `eventId`) and query parameters (`startTime` and `token`), then queries the database for a matching event. If no event is found, it shows a 404 page. If the host has picked a username, it redirects to the success page under their readable URL. Otherwise it renders the shared `BookingSuccess` confirmation.
 
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { formatDateTime } from "@/lib/formatters";
+import BookingSuccess from "@/components/BookingSuccess";
+import EventNotFound from "@/components/EventNotFound";
+import { getEventPath } from "@/lib/utils";
 import { getEvent } from "@/server/actions/events";
-import { clerkClient } from "@clerk/nextjs/server";
-import { AlertTriangle } from "lucide-react";
+import { getUserSettings } from "@/server/settings";
+import { redirect } from "next/navigation";
 
  // The default async function to render the success page
  export default async function SuccessPage({
@@ -13,43 +14,21 @@ import { AlertTriangle } from "lucide-react";
   }: {
     // Define expected route parameters and search parameters
     params: Promise<{ clerkUserId: string; eventId: string }>
-    searchParams: Promise<{ startTime: string }>
+    searchParams: Promise<{ startTime: string; token?: string }>
   }) {
     const { clerkUserId, eventId } = await params
-    const { startTime } = await searchParams
-    // Query the database to find the specific active event that matches the user and event ID
+    const { startTime, token } = await searchParams
+    // Query the database to find the specific event that matches the user and event ID
     const event = await getEvent(clerkUserId, eventId)
     // If event doesn't exist, show a 404 page
-    if(!event)  return (
-        <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-md flex items-center gap-2 text-sm max-w-md mx-auto mt-6">
-          <AlertTriangle className="w-5 h-5" />
-          <span>This event doesn't exist anymore.</span>
-        </div>
-      )
+    if(!event) return <EventNotFound />
 
-        // Fetch the user details from Clerk based on the user ID
-        const client = await clerkClient()
-        const calendarUser = await client.users.getUser(clerkUserId)
-    
-        // Convert the received start time string to a JavaScript Date object
-        const startTimeDate = new Date(startTime)
+    // Hosts with a username have their events at /username/slug, keep the query when sending old links there
+    const username = (await getUserSettings(clerkUserId))?.username
+    if (username) {
+      const query = new URLSearchParams({ startTime, ...(token && { token }) })
+      redirect(`${getEventPath({ clerkUserId, username }, event)}/success?${query}`)
+    }
 
-         // Render the success message with event and user details
-    return (
-        <Card className="max-w-xl mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
-          <CardHeader>
-            <CardTitle>
-              ✅Successfully Booked {event.name} with {calendarUser.fullName}
-            </CardTitle>
-            {/* Format and display the booking date/time */}
-            <CardDescription>{formatDateTime(startTimeDate)}</CardDescription>
-          </CardHeader>
-          <CardContent>
-            {/* Inform the user that a confirmation email is on its way */}
-            You should receive an email confirmation shortly. You can safely close
-            this page now.
-          </CardContent>
-        </Card>
-      )
-
-  }
\ No newline at end of file
+    return <BookingSuccess event={event} startTime={startTime} token={token} />
+  }
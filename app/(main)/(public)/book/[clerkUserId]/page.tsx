@@ -1,5 +1,8 @@
 import PublicProfile from "@/components/PublicProfile"
+import { getProfilePath } from "@/lib/utils"
+import { getUserSettings } from "@/server/settings"
 import { clerkClient } from "@clerk/nextjs/server"
+import { redirect } from "next/navigation"
 
 
 export default async function PublicProfilePage({
@@ -8,10 +11,16 @@ export default async function PublicProfilePage({
   params: Promise<{ clerkUserId: string }>
 }) {
   const { clerkUserId } = await params
+
+  // Hosts with a username have their profile at /username, old links are sent there.
+  // Not permanently: browsers would keep the redirect after the host changes or drops their username.
+  const username = (await getUserSettings(clerkUserId))?.username
+  if (username) redirect(getProfilePath({ clerkUserId, username }))
+
   const client = await clerkClient()
   const user = await client.users.getUser(clerkUserId)
   const { fullName } = user // Extract the user's full name
 
   // Render PublicProfile component
   return <PublicProfile userId={clerkUserId} fullName={fullName} />
-}
\ No newline at end of file
+}
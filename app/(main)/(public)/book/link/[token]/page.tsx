@@ -0,0 +1,35 @@
+import EventBooking from "@/components/EventBooking";
+import { getBookingLink } from "@/server/actions/events";
+import { getUserSettings } from "@/server/settings";
+import { AlertTriangle } from "lucide-react";
+
+// Booking page opened through a single-use link: it works for one booking, hidden events included
+export default async function BookingLinkPage({
+    params
+  }: {
+    params: Promise<{ token: string }>
+  }) {
+
+    const { token } = await params
+
+    // Look the link up by the secret token from its URL
+    const link = await getBookingLink(token)
+
+    // Unknown links and links of inactive events can't book anything, used ones can't book anything else
+    if (!link || !link.event.isActive) return <LinkError message="This booking link is not valid." />
+    if (link.meeting) return <LinkError message="This booking link has already been used." />
+
+    const username = (await getUserSettings(link.clerkUserId))?.username ?? null
+
+    return <EventBooking event={link.event} username={username} bookingLinkToken={token} />
+  }
+
+// Error shown instead of the booking form
+function LinkError({ message }: { message: string }) {
+  return (
+    <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-md flex items-center gap-2 text-sm max-w-md mx-auto mt-6">
+      <AlertTriangle className="w-5 h-5" />
+      <span>{message}</span>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+// This code defines the public **manage booking** page a guest reaches through the secret link in their invite or on the success page. It looks the meeting up by its unguessable token, shows the current booking details and, as long as the meeting is still upcoming and not cancelled, lets the guest either pick a new free slot (loaded month by month, just like the booking page) or cancel with a reason.
+
+import CancelMeetingForm from "@/components/forms/CancelMeetingForm";
+import MeetingLocation from "@/components/MeetingLocation";
+import RescheduleForm from "@/components/forms/RescheduleForm";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatDateTime } from "@/lib/formatters";
+import { getMeetingByToken } from "@/server/actions/meetings";
+import { getFirstAvailableTime } from "@/server/actions/schedule";
+import { clerkClient } from "@clerk/nextjs/server";
+import { isPast } from "date-fns"
+import { AlertTriangle } from "lucide-react";
+
+export default async function ManageMeetingPage({
+    params
+  }: {
+    params: Promise<{ token: string }>
+  }) {
+
+    const { token } = await params
+
+    // Look the meeting up by the secret token from the guest's link
+    const meeting = await getMeetingByToken(token)
+    // If the token doesn't match any meeting, show an error
+    if(!meeting)  return (
+      <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-md flex items-center gap-2 text-sm max-w-md mx-auto mt-6">
+        <AlertTriangle className="w-5 h-5" />
+        <span>This booking link is not valid.</span>
+      </div>
+    )
+
+    // Get the host's details from Clerk
+    const client = await clerkClient()
+    const calendarUser = await client.users.getUser(meeting.clerkUserId)
+
+    const isCancelled = meeting.status === "cancelled"
+    const isOver = isPast(meeting.startTime)
+    // Booking requests the host rejected or didn't answer in time never became meetings
+    const isRejected = meeting.status === "rejected"
+    const isExpired = meeting.status === "expired" || (meeting.expiresAt != null && isPast(meeting.expiresAt))
+    const isRequest = meeting.status === "pending"
+
+    // Only look for new slots if the guest is actually allowed to reschedule
+    let firstAvailableTime: Date | undefined
+    if (!isCancelled && !isRejected && !isExpired && !isOver) {
+      // Same rules as the booking page: minimum notice, booking window and the host's schedule.
+      // The meeting itself doesn't block any time, so it can also move by a few minutes or within a full day.
+      // The form loads the times month by month, the page only needs the first one to open the calendar on.
+      firstAvailableTime = await getFirstAvailableTime(meeting.event, meeting)
+    }
+
+  return (
+    <Card className="max-w-4xl mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
+      <CardHeader>
+        <CardTitle>
+          {meeting.event.name} with {calendarUser.fullName}
+        </CardTitle>
+        {/* Current booking time */}
+        <CardDescription className={isCancelled || isRejected || isExpired ? "line-through" : undefined}>
+          {formatDateTime(meeting.startTime)}
+        </CardDescription>
+        {/* Where the meeting takes place */}
+        <CardDescription>
+          <MeetingLocation
+            locationType={meeting.event.locationType}
+            location={meeting.location}
+            conferenceUrl={meeting.conferenceUrl}
+          />
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-10">
+        {isCancelled ? (
+          // Cancelled meetings can't be changed any more
+          <p>
+            This meeting has been cancelled.
+            {meeting.cancellationReason && ` Reason: ${meeting.cancellationReason}`}
+          </p>
+        ) : isRejected ? (
+          <p>
+            {calendarUser.fullName} couldn&apos;t accept this booking request.
+            {meeting.cancellationReason && ` Message: ${meeting.cancellationReason}`}
+          </p>
+        ) : isExpired ? (
+          <p>{calendarUser.fullName} didn&apos;t answer this booking request in time, so it has expired.</p>
+        ) : isOver ? (
+          // Neither can meetings that have already started
+          <p>This meeting has already taken place and can no longer be changed.</p>
+        ) : (
+          <>
+            {/* Requests are only confirmed once the host accepts them */}
+            {isRequest && meeting.expiresAt && (
+              <p>
+                This booking request is waiting for {calendarUser.fullName} to accept it
+                (until {formatDateTime(meeting.expiresAt)}). You&apos;ll get a calendar invite once it&apos;s accepted.
+              </p>
+            )}
+
+            {/* Reschedule section */}
+            <div className="flex flex-col gap-4">
+              <h2 className="text-xl font-bold">Reschedule</h2>
+              {firstAvailableTime != null ? (
+                <RescheduleForm
+                  firstAvailableTime={firstAvailableTime}
+                  token={token}
+                  timezone={meeting.timezone}
+                />
+              ) : (
+                <p>{calendarUser.fullName} has no other free times at the moment.</p>
+              )}
+            </div>
+
+            {/* Cancel section */}
+            <div className="flex flex-col gap-4">
+              <h2 className="text-xl font-bold">Cancel</h2>
+              <CancelMeetingForm token={token} />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+
+  }
@@ -0,0 +1,19 @@
+import { getCalendarFeed } from "@/server/calendar/feed"
+
+// A host's Calendify bookings as an iCal feed that calendar apps can subscribe to.
+// The URL ends in "<token>.ics", since some calendar apps only accept feed URLs that look like files.
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const feed = await getCalendarFeed(token.replace(/\.ics$/, ""))
+
+  if (feed == null) {
+    return new Response("Calendar feed not found", { status: 404 })
+  }
+
+  return new Response(feed, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Cache-Control": "no-store", // Bookings change at any time
+    },
+  })
+}
@@ -0,0 +1,19 @@
+import { runDueJobs } from "@/server/jobs/runner"
+
+// Runs the queued background jobs that are due (emails, reminders, expiring booking requests).
+// Call it every minute or so from a scheduler (e.g. a Vercel cron job), with the header
+// "Authorization: Bearer <CRON_SECRET>". `npm run worker` does the same from a long-running process.
+export async function GET(request: Request) {
+  // Without a secret anyone could trigger the route, so it stays closed until one is configured
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return new Response("Unauthorized", { status: 401 })
+  }
+
+  try {
+    return Response.json(await runDueJobs())
+  } catch (error: any) {
+    console.error(`Error running jobs: ${error.message || error}`)
+    return Response.json({ error: "Failed to run jobs." }, { status: 500 })
+  }
+}
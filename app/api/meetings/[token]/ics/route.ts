@@ -0,0 +1,24 @@
+import { getOrganizer } from "@/server/calendar"
+import { getMeetingICalendar, getMeetingICalFilename } from "@/server/calendar/ics"
+import { getMeetingByToken } from "@/server/actions/meetings"
+
+// Downloads a meeting as an .ics file, for guests who don't use Google Calendar.
+// The guest's manage token identifies the meeting, so only people with the guest's links can get it.
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const meeting = await getMeetingByToken(token)
+
+  if (!meeting) {
+    return new Response("Meeting not found", { status: 404 })
+  }
+
+  const host = await getOrganizer(meeting.clerkUserId)
+
+  return new Response(getMeetingICalendar(meeting, host), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${getMeetingICalFilename(meeting)}"`,
+      "Cache-Control": "no-store", // The meeting can still be moved or cancelled
+    },
+  })
+}
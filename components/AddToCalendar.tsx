@@ -0,0 +1,39 @@
+import { CalendarLinkEvent, getGoogleCalendarUrl, getOutlookCalendarUrl, getYahooCalendarUrl } from "@/lib/calendarLinks"
+import { CalendarPlus } from "lucide-react"
+import { Button } from "./ui/button"
+
+// "Add to calendar" links for guests: Google, Outlook and Yahoo, plus an .ics file for any other calendar app
+export default function AddToCalendar({
+    event,
+    icsUrl,
+  }: {
+    event: CalendarLinkEvent // The meeting as it should appear in the guest's calendar
+    icsUrl?: string // Download of the meeting's .ics file, when the meeting is known
+  }) {
+    const links = [
+      { label: "Google", href: getGoogleCalendarUrl(event) },
+      { label: "Outlook", href: getOutlookCalendarUrl(event) },
+      { label: "Yahoo", href: getYahooCalendarUrl(event) },
+    ]
+
+    return (
+      <div className="flex flex-col gap-2">
+        <p className="flex gap-2 items-center font-semibold">
+          <CalendarPlus className="size-4" />
+          Add to your calendar
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {links.map(({ label, href }) => (
+            <Button key={label} asChild variant="outline" size="sm">
+              <a href={href} target="_blank" rel="noreferrer">{label}</a>
+            </Button>
+          ))}
+          {icsUrl && (
+            <Button asChild variant="outline" size="sm">
+              <a href={icsUrl} download>Apple / other (.ics)</a>
+            </Button>
+          )}
+        </div>
+      </div>
+    )
+  }
@@ -0,0 +1,59 @@
+"use client"
+
+import { VariantProps } from "class-variance-authority"
+import { Button, buttonVariants } from "./ui/button"
+import { cn } from "@/lib/utils"
+import { Link2Icon } from "lucide-react"
+import { useState } from "react"
+import { toast } from "sonner"
+import { createBookingLink } from "@/server/actions/events"
+
+// Define the props for the BookingLinkButton component
+interface BookingLinkButtonProps
+  extends Omit<React.ComponentProps<"button">, "children" | "onClick">, // Inherit all native button props except children & onClick
+    VariantProps<typeof buttonVariants> { // Allow variant and size props from button styling
+  eventId: string // Required: event the single-use link books
+}
+
+// Button that creates a new single-use booking link for an event and copies it to the clipboard
+export function BookingLinkButton({
+    eventId,
+    className,
+    variant,
+    size,
+    ...props // Any other button props like disabled, type, etc.
+  } : BookingLinkButtonProps) {
+
+    const [isPending, setIsPending] = useState(false) // Disable the button while the link is created
+
+    const handleCreate = async () => {
+        setIsPending(true)
+        try {
+          const token = await createBookingLink(eventId)
+          await navigator.clipboard.writeText(`${location.origin}/book/link/${token}`) // Copy the new link
+          toast("Single-use link copied. It stops working after one booking.", {
+            duration: 3000
+          })
+        } catch {
+          toast("The link couldn't be created.", {
+            duration: 3000
+          })
+        } finally {
+          setIsPending(false)
+        }
+      }
+
+    return (
+        <Button
+          onClick={handleCreate}
+          className={cn(buttonVariants({ variant, size }), 'cursor-pointer', className)} // Apply variant/size classes + any custom classes
+          variant={variant}
+          size={size}
+          disabled={isPending}
+          {...props}
+        >
+          <Link2Icon className="size-4 mr-2" />
+          Single-use Link
+        </Button>
+      )
+}
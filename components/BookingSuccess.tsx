@@ -0,0 +1,100 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getMeetingByToken } from "@/server/actions/meetings";
+import MeetingLocation from "@/components/MeetingLocation";
+import AddToCalendar from "@/components/AddToCalendar";
+import { formatCalendarEventDescription, formatDateTime } from "@/lib/formatters";
+import { absoluteUrl } from "@/lib/utils";
+import { addMinutes } from "date-fns";
+import { clerkClient } from "@clerk/nextjs/server";
+import Link from "next/link";
+
+// Confirmation shown after a guest books an event, shared by the readable and the ID-based success URLs
+export default async function BookingSuccess({
+    event,
+    startTime,
+    token,
+  }: {
+    event: { name: string; clerkUserId: string; durationInMinutes: number } // The booked event
+    startTime: string // Start time of the booked meeting (ISO string from the URL)
+    token?: string // The guest's manage token
+  }) {
+
+        // Fetch the user details from Clerk based on the user ID
+        const client = await clerkClient()
+        const calendarUser = await client.users.getUser(event.clerkUserId)
+    
+        // Convert the received start time string to a JavaScript Date object
+        const startTimeDate = new Date(startTime)
+
+        // The booked meeting itself, to show where it takes place
+        const meeting = token ? await getMeetingByToken(token) : undefined
+
+        // The meeting as the guest would add it to their calendar (with the manage link, when it is known)
+        const manageUrl = token ? absoluteUrl(`/book/manage/${token}`) : undefined
+        const calendarEvent = {
+          title: `${event.name} with ${calendarUser.fullName}`,
+          start: meeting?.startTime ?? startTimeDate,
+          end: meeting?.endTime ?? addMinutes(startTimeDate, event.durationInMinutes),
+          description: formatCalendarEventDescription({ guestNotes: meeting?.guestNotes, answers: meeting?.answers, manageUrl }),
+          location: meeting ? meeting.location ?? meeting.conferenceUrl : null,
+        }
+
+         // Render the success message with event and user details
+    return (
+        <Card className="max-w-xl mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
+          <CardHeader>
+            <CardTitle>
+              {meeting?.status === "pending"
+                ? `✅Requested ${event.name} with ${calendarUser.fullName}`
+                : `✅Successfully Booked ${event.name} with ${calendarUser.fullName}`}
+            </CardTitle>
+            {/* Format and display the booking date/time */}
+            <CardDescription>{formatDateTime(startTimeDate)}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* Requests still need the host's approval, other bookings are confirmed right away */}
+            {meeting?.status === "pending" ? (
+              <>
+                {calendarUser.fullName} has to accept this request before it is confirmed.
+                You&apos;ll receive an email and a calendar invite once they do. The time is held for you until then.
+              </>
+            ) : (
+              <>
+                {/* Inform the user that a confirmation email is on its way */}
+                You should receive an email confirmation shortly. You can safely close
+                this page now.
+              </>
+            )}
+            {/* Meet link, video link, phone number or address */}
+            {meeting && (
+              <div className="mt-4">
+                <MeetingLocation
+                  locationType={meeting.event.locationType}
+                  location={meeting.location}
+                  conferenceUrl={meeting.conferenceUrl}
+                />
+              </div>
+            )}
+            {/* Links for adding the meeting to any calendar (requests only once they are accepted) */}
+            {meeting?.status !== "pending" && (
+              <div className="mt-4">
+                <AddToCalendar
+                  event={calendarEvent}
+                  icsUrl={meeting ? `/api/meetings/${meeting.manageToken}/ics` : undefined}
+                />
+              </div>
+            )}
+            {/* Link to the self-service page where the guest can cancel or reschedule */}
+            {token && (
+              <p className="mt-4">
+                Need to make a change?{" "}
+                <Link href={`/book/manage/${token}`} className="text-blue-600 hover:underline">
+                  Cancel or reschedule this meeting
+                </Link>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )
+
+  }
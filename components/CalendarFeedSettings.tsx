@@ -0,0 +1,106 @@
+"use client"
+
+import { disableCalendarFeed, regenerateCalendarFeedToken } from "@/server/actions/settings"
+import { CopyIcon } from "lucide-react"
+import { useState, useTransition } from "react"
+import { toast } from "sonner"
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "./ui/alert-dialog"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+
+// Lets a host turn on their secret iCal feed URL, copy it, give it a new URL or turn it off
+export function CalendarFeedSettings({
+    feedUrl,
+  }: {
+    feedUrl?: string // Current feed URL (undefined while the feed is off)
+  }) {
+
+    const [isPending, startTransition] = useTransition()
+    const [error, setError] = useState<string>()
+
+    // Runs one of the feed actions, showing its error (if any) below the buttons
+    function run(action: () => Promise<void>) {
+        setError(undefined)
+        startTransition(async () => {
+            try {
+                await action()
+            } catch (error: any) {
+                setError(error.message)
+            }
+        })
+    }
+
+    function handleCopy() {
+        navigator.clipboard
+          .writeText(feedUrl!)
+          .then(() => toast("Feed URL copied successfully.", { duration: 3000 }))
+          .catch(() => toast("The feed URL couldn't be copied.", { duration: 3000 }))
+    }
+
+    if (!feedUrl) {
+        return (
+            <div className="flex flex-col gap-4">
+                <p className="text-sm text-muted-foreground">
+                    Subscribe to your bookings from Apple Calendar, Outlook or any other calendar app with a private feed URL.
+                </p>
+                {error && <div className="text-destructive text-sm">{error}</div>}
+                <div className="flex gap-2 justify-start">
+                    <Button
+                    className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
+                    disabled={isPending}
+                    onClick={() => run(regenerateCalendarFeedToken)}>
+                        Create feed URL
+                    </Button>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex gap-2">
+                <Input readOnly value={feedUrl} onFocus={e => e.target.select()} />
+                <Button variant="outline" className="cursor-pointer" onClick={handleCopy}>
+                    <CopyIcon className="size-4" />
+                </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+                Anyone with this URL can see your bookings, so keep it private. Calendar apps check it for changes about every half hour.
+            </p>
+            {error && <div className="text-destructive text-sm">{error}</div>}
+            <div className="flex gap-2 justify-start">
+                {/* A new URL breaks every existing subscription, so ask first */}
+                <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                        <Button variant="outline" className="cursor-pointer" disabled={isPending}>
+                            New URL
+                        </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>Replace the feed URL?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                                The current URL stops working right away. Calendars subscribed to it have to subscribe to the new one.
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                            className="cursor-pointer bg-blue-400 hover:bg-blue-600"
+                            onClick={() => run(regenerateCalendarFeedToken)}>
+                                Replace
+                            </AlertDialogAction>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
+                <Button
+                variant="destructive"
+                className="cursor-pointer hover:bg-red-700"
+                disabled={isPending}
+                onClick={() => run(disableCalendarFeed)}>
+                    Turn off
+                </Button>
+            </div>
+        </div>
+    )
+  }
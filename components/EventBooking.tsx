@@ -0,0 +1,77 @@
+import { getFirstAvailableTime } from "@/server/actions/schedule";
+import NoTimeSlots from "@/components/NoTimeSlots";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { clerkClient } from "@clerk/nextjs/server";
+import MeetingForm from "@/components/forms/MeetingForm";
+import { formatEventLocation } from "@/lib/formatters";
+import { getEventPath, getProfilePath } from "@/lib/utils";
+import { EventTable } from "@/drizzle/schema";
+import { MapPin } from "lucide-react";
+
+// Booking page of an event, shared by its readable URL (/username/slug), its ID-based URL (/book/clerkUserId/eventId)
+// and single-use links (/book/link/token)
+export default async function EventBooking({
+    event,
+    username,
+    bookingLinkToken,
+  }: {
+    event: typeof EventTable.$inferSelect // The event being booked
+    username: string | null // The host's username, if they picked one
+    bookingLinkToken?: string // Token of the single-use link the page was opened with, if any
+  }) {
+
+    const host = { clerkUserId: event.clerkUserId, username }
+
+      // Get the full user object from Clerk
+      const client = await clerkClient()
+      const calendarUser = await client.users.getUser(event.clerkUserId)
+
+     // Find the first available time slot for the event using the custom scheduler logic
+     // (limited to the event's minimum notice and booking window). The form loads the actual times month by month.
+  const firstAvailableTime = await getFirstAvailableTime(event)
+
+   // If no valid time slots are available, show a message and an option to pick another event
+   if (firstAvailableTime == null) {
+    return <NoTimeSlots event={event} calendarUser={calendarUser} profilePath={getProfilePath(host)} />
+  }
+
+
+  // Render the booking form, opening its calendar on the month of the first available time
+  return (
+    <Card className="max-w-4xl mx-auto border-8 border-blue-200 shadow-2xl shadow-accent-foreground">
+      <CardHeader>
+        <CardTitle>
+          Book {event.name} with {calendarUser.fullName}
+        </CardTitle>
+        {event.description && (
+          <CardDescription>{event.description}</CardDescription>
+        )}
+        {/* Bookings of this event are requests the host has to accept */}
+        {event.requiresConfirmation && (
+          <CardDescription>
+            {calendarUser.fullName} confirms each booking personally. Your time is held until they answer.
+          </CardDescription>
+        )}
+        {/* Where the meeting will take place */}
+        {formatEventLocation(event) && (
+          <CardDescription className="flex gap-2 items-center">
+            <MapPin className="size-4" /> {formatEventLocation(event)}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        <MeetingForm
+          firstAvailableTime={firstAvailableTime}
+          eventId={event.id}
+          clerkUserId={event.clerkUserId}
+          questions={event.questions}
+          locationType={event.locationType}
+          eventPath={getEventPath(host, event)}
+          profilePath={getProfilePath(host)}
+          bookingLinkToken={bookingLinkToken}
+        />
+      </CardContent>
+    </Card>
+  )   
+
+  }
@@ -0,0 +1,11 @@
+import { AlertTriangle } from "lucide-react";
+
+// Message shown on a booking page whose event doesn't exist (anymore)
+export default function EventNotFound() {
+  return (
+    <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-md flex items-center gap-2 text-sm max-w-md mx-auto mt-6">
+      <AlertTriangle className="w-5 h-5" />
+      <span>This event doesn't exist anymore.</span>
+    </div>
+  )
+}
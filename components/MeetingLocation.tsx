@@ -0,0 +1,34 @@
+import { MapPin } from "lucide-react"
+
+// Shows where a booked meeting takes place: a clickable Meet or video link, a phone number or an address
+export default function MeetingLocation({
+    locationType,
+    location,
+    conferenceUrl,
+  }: {
+    locationType: string // The event's location type when rendering
+    location: string | null // Link, address or the guest's phone number stored with the meeting
+    conferenceUrl: string | null // Google Meet link, if one was created
+  }) {
+    // Nothing to show when the event has no location
+    if (conferenceUrl == null && location == null) return null
+
+    return (
+      <p className="flex gap-2 items-start">
+        <MapPin className="size-4 shrink-0 mt-0.5" />
+        {conferenceUrl != null ? (
+          <a href={conferenceUrl} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+            Join with Google Meet
+          </a>
+        ) : locationType === "url" ? (
+          <a href={location!} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline break-all">
+            {location}
+          </a>
+        ) : locationType === "phone" ? (
+          <span>Phone call: {location}</span>
+        ) : (
+          <span className="whitespace-pre-wrap">{location}</span>
+        )}
+      </p>
+    )
+  }
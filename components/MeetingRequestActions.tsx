@@ -0,0 +1,63 @@
+'use client'
+
+import { answerMeetingRequest } from "@/server/actions/meetings"
+import { useState, useTransition } from "react"
+import { toast } from "sonner"
+import { Button } from "./ui/button"
+import { Textarea } from "./ui/textarea"
+
+// Accept and reject buttons for a pending booking request on the host's dashboard
+export default function MeetingRequestActions({
+    meetingId, // The pending meeting to answer
+  }: {
+    meetingId: string
+  }) {
+
+    const [isPending, startTransition] = useTransition()
+    const [reason, setReason] = useState("") // Optional message for the guest when rejecting
+    const [error, setError] = useState<string | null>(null)
+
+    // Send the host's answer; the dashboard refreshes and the request moves to another tab
+    const answer = (accept: boolean) => {
+      setError(null)
+      startTransition(async () => {
+        try {
+          await answerMeetingRequest({ meetingId, accept, reason })
+          toast(accept ? "Request accepted, the meeting was added to your calendar." : "Request rejected.", {
+            duration: 3000,
+          })
+        } catch (error: any) {
+          setError(`There was an error answering this request ${error.message}`)
+        }
+      })
+    }
+
+    return (
+      <div className="flex flex-col gap-2">
+        {error && <div className="text-destructive text-sm">{error}</div>}
+        <Textarea
+          className="resize-none h-16 text-sm"
+          placeholder="Message for the guest if you reject (optional)"
+          value={reason}
+          onChange={e => setReason(e.target.value)}
+        />
+        <div className="flex gap-2 justify-end">
+          <Button
+            className="cursor-pointer hover:scale-105 hover:bg-red-700"
+            variant="destructive"
+            disabled={isPending}
+            onClick={() => answer(false)}
+          >
+            Reject
+          </Button>
+          <Button
+            className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
+            disabled={isPending}
+            onClick={() => answer(true)}
+          >
+            Accept
+          </Button>
+        </div>
+      </div>
+    )
+  }
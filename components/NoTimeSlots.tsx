@@ -6,9 +6,11 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 export default function NoTimeSlots({
     event,
     calendarUser,
+    profilePath,
   }: {
     event: { name: string; description: string | null }
     calendarUser: { id: string; fullName: string | null }
+    profilePath: string // Public path of the host's profile, listing their other events
   }) {
     return (
       <Card className="max-w-md mx-auto border-4 border-blue-500/10 shadow-2xl transition delay-150 duration-500 ease-in-out hover:-translate-y-1 hover:scale-125">
@@ -28,7 +30,7 @@ export default function NoTimeSlots({
           <Button 
           className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
           asChild>
-            <Link href={`/book/${calendarUser.id}`}>Choose Another Event</Link>
+            <Link href={profilePath}>Choose Another Event</Link>
           </Button>
         </CardFooter>
       </Card>
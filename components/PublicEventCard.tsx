@@ -5,20 +5,18 @@ import { Button } from "./ui/button"
 
 // Type definition for event card props
 type PublicEventCardProps = {
-    id: string
     name: string
-    clerkUserId: string
     description: string | null
     durationInMinutes: number
+    href: string // Path of the event's booking page
   }
 
 // Component to display a single event card
 export default  function PublicEventCard({
-    id,
     name,
     description,
-    clerkUserId,
     durationInMinutes,
+    href,
     }: PublicEventCardProps) {
         return (
             <Card className="flex flex-col border-4 border-blue-500/10 shadow-2xl transition delay-150 duration-300 ease-in-out hover:-translate-y-1 hover:scale-110">
@@ -36,7 +34,7 @@ export default  function PublicEventCard({
                 <Button
                   className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
                  asChild>
-                  <Link href={`/book/${clerkUserId}/${id}`}>Select</Link>
+                  <Link href={href}>Select</Link>
                 </Button>
               </CardFooter>
             </Card>
@@ -8,15 +8,17 @@ import { useUser } from "@clerk/nextjs"
 import { Button } from "./ui/button"
 import { toast } from "sonner"
 import PublicEventCard from "./PublicEventCard"
+import { getEventPath, getProfilePath } from "@/lib/utils"
 
 // Define types for the props that PublicProfile component will receive
 type PublicProfileProps = {
     userId: string // The user ID for the profile
     fullName: string | null // User's full name
+    username?: string | null // The user's username, used in their readable URLs
   }
 
 
-  export default function PublicProfile({ userId, fullName }: PublicProfileProps) {
+  export default function PublicProfile({ userId, fullName, username }: PublicProfileProps) {
 
     // State to store events and loading state
     const [events, setEvents] = useState<PublicEvent[] | null>(null)
@@ -25,7 +27,7 @@ type PublicProfileProps = {
 
   const copyProfileUrl = async () => {
     try {
-      await navigator.clipboard.writeText(`${window.location.origin}/book/${userId}`)
+      await navigator.clipboard.writeText(`${window.location.origin}${getProfilePath({ clerkUserId: userId, username })}`)
       toast("Profile URL copied to clipboard!")
     } catch (error) {
       console.error("Failed to copy URL:", error)
@@ -106,7 +108,7 @@ type PublicProfileProps = {
                 <div className="grid gap-4 grid-cols-[repeat(auto-fill,minmax(300px,1fr))]">
                 {events.map((event) => (
                     // Render a card for each event
-                    <PublicEventCard key={event.id} {...event} />
+                    <PublicEventCard key={event.id} {...event} href={getEventPath({ clerkUserId: userId, username }, event)} />
                 ))}
                 </div>
             )}
@@ -0,0 +1,126 @@
+'use client'
+
+import { WEBHOOK_DELIVERY_STATUSES, WEBHOOK_TRIGGERS } from "@/constants"
+import { formatDateTime } from "@/lib/formatters"
+import { cn } from "@/lib/utils"
+import { deleteWebhook } from "@/server/actions/webhooks"
+import { useState, useTransition } from "react"
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "./ui/alert-dialog"
+import { Button } from "./ui/button"
+
+type WebhookTrigger = (typeof WEBHOOK_TRIGGERS)[number]["type"]
+
+// Color of each delivery status in the log
+const STATUS_CLASSES: Record<(typeof WEBHOOK_DELIVERY_STATUSES)[number], string> = {
+  pending: "text-muted-foreground",
+  succeeded: "text-green-600",
+  retrying: "text-amber-600",
+  failed: "text-destructive",
+}
+
+// A host's webhooks, each with its latest deliveries and a button to delete it
+export function WebhookList({
+    webhooks,
+  }: {
+    webhooks: {
+      id: string
+      url: string
+      triggers: WebhookTrigger[]
+      deliveries: {
+        id: string
+        trigger: WebhookTrigger
+        status: (typeof WEBHOOK_DELIVERY_STATUSES)[number]
+        attempts: number
+        responseStatus: number | null // HTTP status of the last attempt (null = no response)
+        error: string | null
+        createdAt: Date
+      }[]
+    }[]
+  }) {
+
+    const [isDeletePending, startDeleteTransition] = useTransition()
+    const [error, setError] = useState<string>()
+
+    if (webhooks.length === 0) {
+        return <p className="text-sm text-muted-foreground">No webhooks yet.</p>
+    }
+
+    return (
+        <div className="flex flex-col gap-6">
+            {error && <div className="text-destructive text-sm">{error}</div>}
+            {webhooks.map(webhook => (
+                <div key={webhook.id} className="flex flex-col gap-2 border-b pb-4 last:border-b-0">
+                    <div className="flex gap-2 items-start justify-between">
+                        <div className="min-w-0">
+                            <p className="font-semibold break-all">{webhook.url}</p>
+                            <p className="text-sm text-muted-foreground">
+                                {WEBHOOK_TRIGGERS.filter(({ type }) => webhook.triggers.includes(type)).map(({ label }) => label).join(", ")}
+                            </p>
+                        </div>
+                        <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                                <Button
+                                className="cursor-pointer hover:scale-105 hover:bg-red-700"
+                                variant="destructive"
+                                size="sm"
+                                disabled={isDeletePending}
+                                >
+                                    Delete
+                                </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                                <AlertDialogHeader>
+                                    <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                        This action cannot be undone. Booking changes stop being sent to this URL
+                                        and its delivery log is deleted.
+                                    </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                    className="bg-red-500 hover:bg-red-700 cursor-pointer"
+                                    disabled={isDeletePending}
+                                    onClick={() => {
+                                        setError(undefined)
+                                        startDeleteTransition(async () => {
+                                            try {
+                                                await deleteWebhook(webhook.id)
+                                            } catch (error: any) {
+                                                setError(`There was an error deleting your webhook ${error.message}`)
+                                            }
+                                        })
+                                    }}>
+                                        Delete
+                                    </AlertDialogAction>
+                                </AlertDialogFooter>
+                            </AlertDialogContent>
+                        </AlertDialog>
+                    </div>
+
+                    {/* Delivery log: latest calls first, with the receiver's response code */}
+                    {webhook.deliveries.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Nothing sent yet.</p>
+                    ) : (
+                        <ul className="flex flex-col gap-1 text-sm">
+                            {webhook.deliveries.map(delivery => (
+                                <li key={delivery.id} className="flex flex-wrap gap-x-2" title={delivery.error ?? undefined}>
+                                    <span className={cn("font-semibold", STATUS_CLASSES[delivery.status])}>
+                                        {delivery.responseStatus ?? delivery.status}
+                                    </span>
+                                    <span>{delivery.trigger}</span>
+                                    <span className="text-muted-foreground">
+                                        {formatDateTime(delivery.createdAt)}
+                                        {delivery.attempts > 1 && ` (${delivery.attempts} attempts)`}
+                                        {delivery.status === "retrying" && ", retrying"}
+                                        {delivery.status === "failed" && ", gave up"}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            ))}
+        </div>
+    )
+  }
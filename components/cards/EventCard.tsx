@@ -1,28 +1,36 @@
-import { cn } from "@/lib/utils"
+import { cn, getEventPath } from "@/lib/utils"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "../ui/card"
 import { formatEventDescription } from "@/lib/formatters"
 import { Button } from "../ui/button"
 import Link from "next/link"
 import { CopyEventButton } from "../CopyEventButton"
+import { BookingLinkButton } from "../BookingLinkButton"
+import { EyeOff } from "lucide-react"
 
   // Type definition for event card props
 type EventCardProps = {
     id: string
     isActive: boolean
+    isHidden: boolean
     name: string
     description: string | null
     durationInMinutes: number
     clerkUserId: string
+    slug: string
+    username: string | null // The host's username, for the readable booking link
   }
   
   // Component to display a single event card
   export default function EventCard ({
     id,
     isActive,
+    isHidden,
     name,
     description,
     durationInMinutes,
     clerkUserId,
+    slug,
+    username,
   }: EventCardProps) {
 
     return (
@@ -33,6 +41,12 @@ type EventCardProps = {
             <CardDescription>
               {formatEventDescription(durationInMinutes)}
             </CardDescription>
+            {/* Hidden events are only bookable through their link */}
+            {isHidden && (
+              <CardDescription className="flex gap-1 items-center">
+                <EyeOff className="size-4" /> Hidden from your profile
+              </CardDescription>
+            )}
           </CardHeader>
     
           {/* Show event description if available */}
@@ -43,14 +57,16 @@ type EventCardProps = {
           )}
     
           {/* Card footer with copy and edit buttons */}
-          <CardFooter className="flex justify-end gap-2 mt-auto">
-            {/* Show copy button only if event is active */}
+          <CardFooter className="flex flex-wrap justify-end gap-2 mt-auto">
+            {/* Show copy and single-use link buttons only if event is active */}
             {isActive && (
+              <>
               <CopyEventButton
                 variant="outline"
-                eventId={id}
-                clerkUserId={clerkUserId}
+                path={getEventPath({ clerkUserId, username }, { id, slug })}
               />
+              <BookingLinkButton variant="outline" eventId={id} />
+              </>
             )}
             {/* Edit event button */}
             <Button 
@@ -0,0 +1,103 @@
+import { cn } from "@/lib/utils"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card"
+import { formatBookingAnswer, formatDateTime, formatEventDescription } from "@/lib/formatters"
+import { BookingAnswer } from "@/schema/meetings"
+import MeetingLocation from "../MeetingLocation"
+import MeetingRequestActions from "../MeetingRequestActions"
+import { Mail, StickyNote } from "lucide-react"
+
+  // Type definition for meeting card props
+type MeetingCardProps = {
+    id: string
+    startTime: Date
+    timezone: string
+    status: string
+    guestName: string
+    guestEmail: string
+    guestNotes: string | null
+    answers: BookingAnswer[]
+    location: string | null
+    conferenceUrl: string | null
+    cancellationReason: string | null
+    expiresAt: Date | null
+    event: { name: string; durationInMinutes: number; locationType: string }
+  }
+
+  // Component to display a single booked meeting on the host's dashboard
+  export default function MeetingCard({
+    id,
+    startTime,
+    timezone,
+    status,
+    guestName,
+    guestEmail,
+    guestNotes,
+    answers,
+    location,
+    conferenceUrl,
+    cancellationReason,
+    expiresAt,
+    event,
+  }: MeetingCardProps) {
+    // Rejected and expired requests are shown like cancelled meetings
+    const isCancelled = status === "cancelled" || status === "rejected" || status === "expired"
+
+    return (
+        <Card className={cn("flex flex-col border-4 border-blue-500/10 shadow-2xl", isCancelled && "bg-accent border-accent")}>
+          {/* Card header with event name, date/time and duration */}
+          <CardHeader className={cn(isCancelled && "opacity-50")}>
+            <CardTitle className={cn(isCancelled && "line-through")}>{event.name}</CardTitle>
+            <CardDescription>
+              {formatDateTime(startTime)} · {formatEventDescription(event.durationInMinutes)}
+            </CardDescription>
+            {/* Requests show when they expire, answered ones why they didn't happen */}
+            {status === "pending" && expiresAt && (
+              <CardDescription className="font-semibold">Waiting for your answer until {formatDateTime(expiresAt)}</CardDescription>
+            )}
+            {status === "rejected" && <CardDescription className="font-semibold">Rejected by you</CardDescription>}
+            {status === "expired" && <CardDescription className="font-semibold">Expired without an answer</CardDescription>}
+          </CardHeader>
+
+          {/* Guest details */}
+          <CardContent className={cn("flex flex-col gap-2 text-sm", isCancelled && "opacity-50")}>
+            <p className="font-semibold">{guestName}</p>
+            <a href={`mailto:${guestEmail}`} className="flex items-center gap-2 text-blue-600 hover:underline">
+              <Mail className="size-4" /> {guestEmail}
+            </a>
+            {/* Show the guest's timezone so the host knows what time it is for them */}
+            <p className="text-muted-foreground">Guest timezone: {timezone}</p>
+            {/* Where the meeting takes place */}
+            <MeetingLocation locationType={event.locationType} location={location} conferenceUrl={conferenceUrl} />
+            {/* Show notes only if the guest left some */}
+            {guestNotes && (
+              <p className="flex gap-2 whitespace-pre-wrap">
+                <StickyNote className="size-4 shrink-0 mt-0.5" /> {guestNotes}
+              </p>
+            )}
+            {/* Answers to the event's custom questions */}
+            {answers.length > 0 && (
+              <ul className="flex flex-col gap-1">
+                {answers.map(answer => (
+                  <li key={answer.questionId}>{formatBookingAnswer(answer)}</li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+
+          {/* Tell the host why the guest cancelled (or what they told the guest when rejecting) */}
+          {isCancelled && cancellationReason && (
+            <CardContent className="text-sm">
+              <span className="font-semibold">{status === "rejected" ? "Rejection reason:" : "Cancellation reason:"}</span> {cancellationReason}
+            </CardContent>
+          )}
+
+          {/* Let the host answer a booking request */}
+          {status === "pending" && (
+            <CardContent className="mt-auto">
+              <MeetingRequestActions meetingId={id} />
+            </CardContent>
+          )}
+        </Card>
+      )
+
+  }
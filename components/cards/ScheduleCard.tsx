@@ -0,0 +1,47 @@
+import { cn } from "@/lib/utils"
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "../ui/card"
+import { formatTimezoneOffset } from "@/lib/formatters"
+import { Button } from "../ui/button"
+import Link from "next/link"
+
+  // Type definition for schedule card props
+type ScheduleCardProps = {
+    id: string
+    name: string
+    timezone: string
+    isDefault: boolean
+  }
+
+  // Component to display a single availability schedule
+  export default function ScheduleCard ({
+    id,
+    name,
+    timezone,
+    isDefault,
+  }: ScheduleCardProps) {
+
+    return (
+        <Card className={cn("flex flex-col border-4 border-blue-500/10 shadow-2xl", isDefault && "border-blue-300")}>
+          {/* Card header with name and timezone */}
+          <CardHeader>
+            <CardTitle>
+              {name}
+              {isDefault && <span className="ml-2 text-sm font-normal text-blue-600">Default</span>}
+            </CardTitle>
+            <CardDescription>
+              {timezone} ({formatTimezoneOffset(timezone)})
+            </CardDescription>
+          </CardHeader>
+
+          {/* Card footer with edit button */}
+          <CardFooter className="flex justify-end gap-2 mt-auto">
+            <Button
+            className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
+            asChild>
+              <Link href={`/schedule/${id}/edit`}>Edit</Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      )
+
+  }
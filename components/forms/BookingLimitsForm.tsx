@@ -0,0 +1,97 @@
+'use client'
+
+import { BOOKING_LIMIT_FIELDS } from "@/constants"
+import { bookingLimitsSchema } from "@/schema/settings"
+import { saveBookingLimits } from "@/server/actions/settings"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import { z } from "zod"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "../ui/form"
+import { Input } from "../ui/input"
+import { Button } from "../ui/button"
+import { toast } from "sonner"
+
+// Form for the booking limits that apply to all of a host's events together
+export function BookingLimitsForm({
+    limits,
+  }: {
+    limits?: z.infer<typeof bookingLimitsSchema> // Current limits (undefined = no limit)
+  }) {
+
+    const form = useForm<z.infer<typeof bookingLimitsSchema>>({
+        resolver: zodResolver(bookingLimitsSchema), // Validate with Zod schema
+        defaultValues: limits,
+    })
+
+    // Submit handler to save the limits
+    async function onSubmit(values: z.infer<typeof bookingLimitsSchema>) {
+        try {
+        await saveBookingLimits(values)
+        toast("Booking limits saved successfully.", {
+            duration: 5000,
+            className: '!rounded-3xl !py-8 !px-5 !justify-center !text-green-400 !font-black',
+        })
+        } catch (error: any) {
+        // Handle any unexpected errors that occur while saving
+        form.setError("root", {
+            message: `There was an error saving your booking limits ${error.message}`,
+        })
+        }
+    }
+
+    return (
+        <Form {...form}>
+            <form
+            className="flex gap-6 flex-col"
+            onSubmit={form.handleSubmit(onSubmit)}
+            >
+                {/* Show form-level error if any */}
+                {form.formState.errors.root && (
+                <div className="text-destructive text-sm">
+                    {form.formState.errors.root.message}
+                </div>
+                )}
+
+                <p className="text-sm text-muted-foreground">
+                    These limits count meetings across all of your events. Leave a field empty for no limit.
+                </p>
+
+                {/* One number input per limit */}
+                <div className="grid grid-cols-2 gap-4">
+                {BOOKING_LIMIT_FIELDS.map(limit => (
+                    <FormField
+                    key={limit.name}
+                    control={form.control}
+                    name={limit.name}
+                    render={({ field }) => (
+                        <FormItem>
+                        <FormLabel>{limit.label}</FormLabel>
+                        <FormControl>
+                            <Input
+                            type="number"
+                            min={0}
+                            placeholder="No limit"
+                            {...field}
+                            value={field.value || ""} // Show "no limit" (0 or empty) as an empty input
+                            />
+                        </FormControl>
+                        <FormMessage />
+                        </FormItem>
+                    )}
+                    />
+                ))}
+                </div>
+
+                {/* Save button */}
+                <div className="flex gap-2 justify-start">
+                    <Button
+                    className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
+                    disabled={form.formState.isSubmitting}
+                    type="submit">
+                        Save
+                    </Button>
+                </div>
+            </form>
+        </Form>
+    )
+  }
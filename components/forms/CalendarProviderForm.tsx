@@ -0,0 +1,155 @@
+'use client'
+
+import { calendarProviderSchema } from "@/schema/settings"
+import { saveCalendarProvider } from "@/server/actions/settings"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import { z } from "zod"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../ui/form"
+import { Input } from "../ui/input"
+import { Button } from "../ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select"
+import { toast } from "sonner"
+
+// Form for choosing the calendar busy times are read from and meetings are written to
+export function CalendarProviderForm({
+    settings,
+    hasPassword,
+  }: {
+    settings?: z.infer<typeof calendarProviderSchema> // Current settings, without the password
+    hasPassword: boolean // Whether a CalDAV password is already saved
+  }) {
+
+    const form = useForm<z.infer<typeof calendarProviderSchema>>({
+        resolver: zodResolver(calendarProviderSchema), // Validate with Zod schema
+        defaultValues: settings ?? { calendarProvider: "google" },
+    })
+
+    // Only CalDAV needs a URL and credentials
+    const calendarProvider = form.watch("calendarProvider")
+
+    // Submit handler to save the calendar settings
+    async function onSubmit(values: z.infer<typeof calendarProviderSchema>) {
+        try {
+        await saveCalendarProvider(values)
+        form.resetField("caldavPassword", { defaultValue: "" }) // Never keep the password around in the form
+        toast("Calendar settings saved successfully.", {
+            duration: 5000,
+            className: '!rounded-3xl !py-8 !px-5 !justify-center !text-green-400 !font-black',
+        })
+        } catch (error: any) {
+        // Handle any unexpected errors that occur while saving (including an unreachable CalDAV server)
+        form.setError("root", {
+            message: `There was an error saving your calendar settings ${error.message}`,
+        })
+        }
+    }
+
+    return (
+        <Form {...form}>
+            <form
+            className="flex gap-6 flex-col"
+            onSubmit={form.handleSubmit(onSubmit)}
+            >
+                {/* Show form-level error if any */}
+                {form.formState.errors.root && (
+                <div className="text-destructive text-sm">
+                    {form.formState.errors.root.message}
+                </div>
+                )}
+
+                {/* Calendar provider */}
+                <FormField
+                control={form.control}
+                name="calendarProvider"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Calendar</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                        <SelectItem value="google">Google Calendar</SelectItem>
+                        <SelectItem value="caldav">CalDAV (Fastmail, Nextcloud, iCloud...)</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <FormDescription>
+                        Busy times are read from this calendar and new meetings are added to it
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* CalDAV connection details */}
+                {calendarProvider === "caldav" && (
+                <>
+                <FormField
+                control={form.control}
+                name="caldavUrl"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Calendar URL</FormLabel>
+                    <FormControl>
+                        <Input placeholder="https://caldav.example.com/calendars/me/default/" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                <FormField
+                control={form.control}
+                name="caldavUsername"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                        <Input autoComplete="off" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                <FormField
+                control={form.control}
+                name="caldavPassword"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                        <Input
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder={hasPassword ? "Unchanged" : undefined}
+                        {...field}
+                        value={field.value ?? ""}
+                        />
+                    </FormControl>
+                    <FormDescription>
+                        Use an app password if your provider offers them
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+                </>
+                )}
+
+                {/* Save button */}
+                <div className="flex gap-2 justify-start">
+                    <Button
+                    className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
+                    disabled={form.formState.isSubmitting}
+                    type="submit">
+                        Save
+                    </Button>
+                </div>
+            </form>
+        </Form>
+    )
+  }
@@ -0,0 +1,83 @@
+'use client'
+
+import { cancelMeetingFormSchema } from "@/schema/meetings"
+import { cancelMeeting } from "@/server/actions/meetings"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import { z } from "zod"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../ui/form"
+import { Textarea } from "../ui/textarea"
+import { Button } from "../ui/button"
+
+// Form that lets a guest cancel their own meeting, telling the host why
+export default function CancelMeetingForm({
+    token, // Secret token from the guest's manage link
+  }: {
+    token: string
+  }) {
+
+    const form = useForm<z.infer<typeof cancelMeetingFormSchema>>({
+        resolver: zodResolver(cancelMeetingFormSchema), // Validate with Zod schema
+        defaultValues: {
+          reason: '', // Ensure controlled input: default to empty string
+        },
+    })
+
+    // Handle form submission
+    async function onSubmit(values: z.infer<typeof cancelMeetingFormSchema>) {
+        try {
+            await cancelMeeting({ ...values, token })
+        } catch (error: any) {
+            // Handle any error that occurs during the cancellation
+          form.setError("root", {
+            message: `There was an error cancelling your meeting ${error.message}`,
+          })
+        }
+    }
+
+    return (
+        <Form {...form}>
+            <form
+                onSubmit={form.handleSubmit(onSubmit)}
+                className="flex gap-6 flex-col"
+            >
+                {/* Show root error if any */}
+                {form.formState.errors.root && (
+                <div className="text-destructive text-sm">
+                    {form.formState.errors.root.message}
+                </div>
+                )}
+
+                {/* Cancellation reason */}
+                <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Reason for cancelling</FormLabel>
+                    <FormControl>
+                        <Textarea className="resize-none h-24" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                        This will be shared with the host
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Cancel button - submits the form */}
+                <div className="flex gap-2 justify-end">
+                <Button
+                    className="cursor-pointer hover:scale-105 hover:bg-red-700"
+                    variant="destructive"
+                    disabled={form.formState.isSubmitting}
+                    type="submit"
+                >
+                    Cancel Meeting
+                </Button>
+                </div>
+            </form>
+        </Form>
+    )
+}
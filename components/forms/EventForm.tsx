@@ -1,7 +1,7 @@
 'use client'
-import { eventFormSchema } from "@/schema/events"
+import { eventFormSchema, slugSchema } from "@/schema/events"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { useForm } from "react-hook-form"
+import { useFieldArray, useForm } from "react-hook-form"
 import { z } from "zod"
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../ui/form"
 import { Input } from "../ui/input"
@@ -9,10 +9,15 @@ import { Textarea } from "../ui/textarea"
 import { Switch } from "../ui/switch"
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "../ui/alert-dialog"
 import { Button } from "../ui/button"
-import { useTransition } from "react"
+import { useEffect, useState, useTransition } from "react"
 import Link from "next/link"
-import { createEvent, deleteEvent, updateEvent } from "@/server/actions/events"
+import { createEvent, deleteEvent, isEventSlugAvailable, updateEvent } from "@/server/actions/events"
+import { slugify } from "@/lib/utils"
 import { useRouter } from "next/navigation"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select"
+import { BOOKING_LIMIT_FIELDS, BOOKING_REQUEST_EXPIRY_IN_HOURS, BOOKING_QUESTION_TYPES, BOOKING_WINDOW_TYPES, LOCATION_TYPES, MAX_BOOKING_QUESTIONS, MINIMUM_NOTICE_OPTIONS, REMINDER_OPTIONS, SLOT_ALIGNMENTS, SLOT_INTERVAL_OPTIONS } from "@/constants"
+import { BookingQuestion } from "@/schema/events"
+import { Plus, X } from "lucide-react"
 
   // Marks this as a Client Component in Next.js
 
@@ -20,15 +25,38 @@ import { useRouter } from "next/navigation"
 // Component to handle creating/editing/deleting an event
 export default function EventForm({
     event, // Destructure the `event` object from the props
+    schedules, // The user's availability schedules to pick from
   }: {
     // Define the shape (TypeScript type) of the expected props
     event?: { // Optional `event` object (might be undefined if creating a new event)
       id: string // Unique identifier for the event
       name: string // Name of the event
+      slug: string // Last part of the event's booking URL
       description?: string // Optional description of the event
       durationInMinutes: number // Duration of the event in minutes
+      bufferBeforeInMinutes: number // Free time kept before each meeting
+      bufferAfterInMinutes: number // Free time kept after each meeting
+      minimumNoticeInMinutes: number // How long in advance guests have to book
+      slotIntervalInMinutes: number // How far apart offered start times are (0 = the duration)
+      slotAlignment: (typeof SLOT_ALIGNMENTS)[number]["type"] // Only offer start times on the hour or half hour
+      bookingWindowType: (typeof BOOKING_WINDOW_TYPES)[number] // Rolling number of days or fixed date range
+      bookingWindowInDays: number // Rolling window: how many days ahead can be booked
+      bookingWindowStartDate?: string // Fixed window: first bookable day
+      bookingWindowEndDate?: string // Fixed window: last bookable day
+      maxBookingsPerDay?: number // Optional booking limits (undefined = no limit)
+      maxBookingsPerWeek?: number
+      maxBookingsPerMonth?: number
+      maxBookedMinutesPerDay?: number
+      scheduleId: string | null // Availability schedule used for this event (null = default schedule)
+      questions: BookingQuestion[] // Custom questions guests answer when booking
+      locationType: (typeof LOCATION_TYPES)[number]["type"] // Where meetings take place
+      locationValue?: string // Video call link or address
       isActive: boolean // Indicates whether the event is currently active
+      isHidden: boolean // Hidden events aren't listed on the public profile
+      requiresConfirmation: boolean // Bookings wait for the host to accept them
+      reminderOffsetsInMinutes: number[] // Reminder emails sent this many minutes before each meeting
     }
+    schedules: { id: string; name: string; isDefault: boolean }[]
   }) {
 
     
@@ -51,13 +79,69 @@ export default function EventForm({
           : {
             // If `event` is not provided (create mode), use these fallback defaults
             isActive: true,             // New events are active by default
+            isHidden: false,            // ...and listed on the public profile
+            requiresConfirmation: false, // Bookings are confirmed right away by default
+            reminderOffsetsInMinutes: [24 * 60, 60], // Remind guest and host a day and an hour before
             durationInMinutes: 30,      // Default duration is 30 minutes
+            bufferBeforeInMinutes: 0,   // No buffer before meetings by default
+            bufferAfterInMinutes: 0,    // No buffer after meetings by default
+            minimumNoticeInMinutes: 0,  // Guests can book right up to the meeting by default
+            slotIntervalInMinutes: 15,  // Offer a start time every 15 minutes by default
+            slotAlignment: "none",      // ...at any time of the hour
+            bookingWindowType: "rolling", // Default to a rolling booking window...
+            bookingWindowInDays: 365,   // ...of one year ahead
+            bookingWindowStartDate: '', // Ensure controlled input: default to empty string
+            bookingWindowEndDate: '',   // Ensure controlled input: default to empty string
+            scheduleId: null,           // Use the default schedule unless another one is picked
+            questions: [],              // Only name, email and notes are asked by default
+            locationType: "none",       // No location until the host picks one
+            locationValue: '',          // Ensure controlled input: default to empty string
             description: '',            // Ensure controlled input: default to empty string
             name: '',                   // Ensure controlled input: default to empty string
+            slug: '',                   // Filled in from the name until the host edits it
           },
 
     })
 
+    // Watch the booking window type to show the matching fields
+    const bookingWindowType = form.watch("bookingWindowType")
+
+    // Watch the location type to show the link or address field when needed
+    const locationType = form.watch("locationType")
+
+    // Whether the slug being typed is free among the host's events (null while unknown)
+    const slug = form.watch("slug")
+    const [slugAvailable, setSlugAvailable] = useState<boolean | null>(null)
+
+    // Check the slug shortly after the host stops typing
+    useEffect(() => {
+        setSlugAvailable(null)
+        if (slug === event?.slug || !slugSchema.safeParse(slug).success) return
+
+        let current = true
+        const timeout = setTimeout(() => {
+            isEventSlugAvailable(slug, event?.id).then(result => {
+                if (current) setSlugAvailable(result)
+            })
+        }, 400)
+
+        return () => {
+            current = false
+            clearTimeout(timeout)
+        }
+    }, [slug, event?.slug, event?.id])
+
+    // Manage the dynamic list of custom booking questions
+    const {
+      append: addQuestion, // Add a new question
+      remove: removeQuestion, // Remove a question
+      fields: questionFields, // Current question fields
+    } = useFieldArray({
+      name: "questions",
+      control: form.control,
+      keyName: "key", // Questions have their own `id`, so React keys go elsewhere
+    })
+
     // Handle form submission
     async function onSubmit(values: z.infer<typeof eventFormSchema>) {
         const action =  event == null ? createEvent : updateEvent.bind(null, event.id)
@@ -95,7 +179,16 @@ export default function EventForm({
                     <FormItem>
                     <FormLabel>Event Name</FormLabel>
                     <FormControl>
-                        <Input {...field} />
+                        <Input
+                        {...field}
+                        onChange={e => {
+                            field.onChange(e)
+                            // New events get a slug from their name until the host types one themselves
+                            if (event == null && !form.getFieldState("slug").isDirty) {
+                                form.setValue("slug", slugify(e.target.value))
+                            }
+                        }}
+                        />
                     </FormControl>
                     <FormDescription>
                         The name users will see when booking
@@ -105,6 +198,26 @@ export default function EventForm({
                 )}
                 />
 
+                {/* Slug Field: last part of the booking URL */}
+                <FormField
+                control={form.control}
+                name="slug"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>URL</FormLabel>
+                    <FormControl>
+                        <Input {...field} />
+                    </FormControl>
+                    {slugAvailable === true && <p className="text-sm text-green-600">Available</p>}
+                    {slugAvailable === false && <p className="text-sm text-destructive">Already used by another of your events</p>}
+                    <FormDescription>
+                        Used in the event&apos;s booking link, e.g. /your-username/{field.value || "intro-call"}
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
                 {/* Duration Field */}
                 <FormField
                 control={form.control}
@@ -121,6 +234,431 @@ export default function EventForm({
                 )}
                 />
 
+                {/* Buffer Fields: free time kept around each meeting */}
+                <div className="flex gap-4">
+                <FormField
+                control={form.control}
+                name="bufferBeforeInMinutes"
+                render={({ field }) => (
+                    <FormItem className="flex-1">
+                    <FormLabel>Buffer Before</FormLabel>
+                    <FormControl>
+                        <Input type="number" min={0} {...field} />
+                    </FormControl>
+                    <FormDescription>Minutes kept free before</FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+                <FormField
+                control={form.control}
+                name="bufferAfterInMinutes"
+                render={({ field }) => (
+                    <FormItem className="flex-1">
+                    <FormLabel>Buffer After</FormLabel>
+                    <FormControl>
+                        <Input type="number" min={0} {...field} />
+                    </FormControl>
+                    <FormDescription>Minutes kept free after</FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+                </div>
+
+                {/* Location Field: where meetings take place */}
+                <FormField
+                control={form.control}
+                name="locationType"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Location</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                        {LOCATION_TYPES.map(({ type, label }) => (
+                            <SelectItem key={type} value={type}>{label}</SelectItem>
+                        ))}
+                        </SelectContent>
+                    </Select>
+                    <FormDescription>
+                        Google Meet links are created automatically for each booking
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Link or address, only for the location types that need one */}
+                {(locationType === "url" || locationType === "inPerson") && (
+                <FormField
+                control={form.control}
+                name="locationValue"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>{locationType === "url" ? "Video Call Link" : "Address"}</FormLabel>
+                    <FormControl>
+                        <Input
+                        type={locationType === "url" ? "url" : "text"}
+                        placeholder={locationType === "url" ? "https://zoom.us/j/..." : undefined}
+                        {...field}
+                        />
+                    </FormControl>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+                )}
+
+                {/* Schedule Field: which availability guests can book against */}
+                <FormField
+                control={form.control}
+                name="scheduleId"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Schedule</FormLabel>
+                    <Select
+                        // Radix Select items can't have an empty value, so "default" stands for null
+                        onValueChange={value => field.onChange(value === "default" ? null : value)}
+                        defaultValue={field.value ?? "default"}
+                    >
+                        <FormControl>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                        <SelectItem value="default">Default schedule</SelectItem>
+                        {schedules.map(schedule => (
+                            <SelectItem key={schedule.id} value={schedule.id}>
+                            {schedule.name}{schedule.isDefault && " (default)"}
+                            </SelectItem>
+                        ))}
+                        </SelectContent>
+                    </Select>
+                    <FormDescription>
+                        The availability guests can book this event in
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Minimum Notice Field */}
+                <FormField
+                control={form.control}
+                name="minimumNoticeInMinutes"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Minimum Notice</FormLabel>
+                    <Select
+                        onValueChange={value => field.onChange(Number(value))}
+                        defaultValue={String(field.value)}
+                    >
+                        <FormControl>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                        {MINIMUM_NOTICE_OPTIONS.map(option => (
+                            <SelectItem key={option.minutes} value={String(option.minutes)}>
+                            {option.label}
+                            </SelectItem>
+                        ))}
+                        </SelectContent>
+                    </Select>
+                    <FormDescription>
+                        How long in advance guests have to book
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Slot Interval Field */}
+                <FormField
+                control={form.control}
+                name="slotIntervalInMinutes"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Start Time Interval</FormLabel>
+                    <Select
+                        onValueChange={value => field.onChange(Number(value))}
+                        defaultValue={String(field.value)}
+                    >
+                        <FormControl>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                        {SLOT_INTERVAL_OPTIONS.map(option => (
+                            <SelectItem key={option.minutes} value={String(option.minutes)}>
+                            {option.label}
+                            </SelectItem>
+                        ))}
+                        </SelectContent>
+                    </Select>
+                    <FormDescription>
+                        How far apart the start times offered to guests are
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Slot Alignment Field */}
+                <FormField
+                control={form.control}
+                name="slotAlignment"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Start Times</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                        {SLOT_ALIGNMENTS.map(({ type, label }) => (
+                            <SelectItem key={type} value={type}>{label}</SelectItem>
+                        ))}
+                        </SelectContent>
+                    </Select>
+                    <FormDescription>
+                        Times are counted in your schedule&apos;s timezone
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Booking Window Type Field */}
+                <FormField
+                control={form.control}
+                name="bookingWindowType"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Booking Window</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                        <SelectItem value="rolling">Rolling number of days</SelectItem>
+                        <SelectItem value="fixed">Fixed date range</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <FormDescription>
+                        How far in advance guests can book
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Rolling window: number of days ahead */}
+                {bookingWindowType === "rolling" && (
+                <FormField
+                control={form.control}
+                name="bookingWindowInDays"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Days Into the Future</FormLabel>
+                    <FormControl>
+                        <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+                )}
+
+                {/* Fixed window: first and last bookable day */}
+                {bookingWindowType === "fixed" && (
+                <div className="flex gap-4">
+                <FormField
+                control={form.control}
+                name="bookingWindowStartDate"
+                render={({ field }) => (
+                    <FormItem className="flex-1">
+                    <FormLabel>From</FormLabel>
+                    <FormControl>
+                        <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+                <FormField
+                control={form.control}
+                name="bookingWindowEndDate"
+                render={({ field }) => (
+                    <FormItem className="flex-1">
+                    <FormLabel>To</FormLabel>
+                    <FormControl>
+                        <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+                </div>
+                )}
+
+                {/* Booking Limit Fields: caps on how many meetings of this event can be booked */}
+                <div className="grid grid-cols-2 gap-4">
+                {BOOKING_LIMIT_FIELDS.map(limit => (
+                    <FormField
+                    key={limit.name}
+                    control={form.control}
+                    name={limit.name}
+                    render={({ field }) => (
+                        <FormItem>
+                        <FormLabel>{limit.label}</FormLabel>
+                        <FormControl>
+                            <Input
+                            type="number"
+                            min={0}
+                            placeholder="No limit"
+                            {...field}
+                            value={field.value || ""} // Show "no limit" (0 or empty) as an empty input
+                            />
+                        </FormControl>
+                        <FormMessage />
+                        </FormItem>
+                    )}
+                    />
+                ))}
+                </div>
+
+                {/* Booking Questions: extra questions guests answer when booking */}
+                <div className="flex flex-col gap-4">
+                    <div className="flex items-center justify-between">
+                        <div className="text-sm font-semibold">Booking Questions</div>
+                        <Button
+                            type="button"
+                            className="size-6 p-1 cursor-pointer hover:scale-200"
+                            variant="outline"
+                            disabled={questionFields.length >= MAX_BOOKING_QUESTIONS}
+                            onClick={() => {
+                            addQuestion({
+                                id: crypto.randomUUID(),
+                                label: "",
+                                type: "text",
+                                required: false,
+                                options: [],
+                            })
+                            }}
+                        >
+                            <Plus color="red" />
+                        </Button>
+                    </div>
+                    <FormDescription>
+                        Asked on top of the guest&apos;s name, email and notes
+                    </FormDescription>
+
+                    {questionFields.map((question, index) => (
+                    <div className="flex flex-col gap-2 border rounded-md p-3" key={question.key}>
+                        <div className="flex gap-2 items-start">
+                        {/* Question label */}
+                        <FormField
+                        control={form.control}
+                        name={`questions.${index}.label`}
+                        render={({ field }) => (
+                            <FormItem className="flex-1">
+                            <FormControl>
+                                <Input placeholder="Question" aria-label={`Question ${index + 1}`} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                            </FormItem>
+                        )}
+                        />
+
+                        {/* Remove question */}
+                        <Button
+                            type="button"
+                            className="size-6 p-1 mt-1.5 cursor-pointer hover:bg-red-900"
+                            variant="destructive"
+                            onClick={() => removeQuestion(index)}
+                        >
+                            <X />
+                        </Button>
+                        </div>
+
+                        <div className="flex gap-4 items-center">
+                        {/* Question type */}
+                        <FormField
+                        control={form.control}
+                        name={`questions.${index}.type`}
+                        render={({ field }) => (
+                            <FormItem className="flex-1">
+                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                <FormControl>
+                                <SelectTrigger aria-label={`Question ${index + 1} Type`}>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                {BOOKING_QUESTION_TYPES.map(({ type, label }) => (
+                                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                                ))}
+                                </SelectContent>
+                            </Select>
+                            </FormItem>
+                        )}
+                        />
+
+                        {/* Required toggle */}
+                        <FormField
+                        control={form.control}
+                        name={`questions.${index}.required`}
+                        render={({ field }) => (
+                            <FormItem>
+                            <div className="flex items-center gap-2">
+                                <FormControl>
+                                <Switch checked={field.value} onCheckedChange={field.onChange} />
+                                </FormControl>
+                                <FormLabel>Required</FormLabel>
+                            </div>
+                            </FormItem>
+                        )}
+                        />
+                        </div>
+
+                        {/* Options, only for dropdown and multiple choice questions */}
+                        {["select", "radio"].includes(form.watch(`questions.${index}.type`)) && (
+                        <FormField
+                        control={form.control}
+                        name={`questions.${index}.options`}
+                        render={({ field }) => (
+                            <FormItem>
+                            <FormControl>
+                                <Textarea
+                                className="resize-none"
+                                placeholder="One option per line"
+                                aria-label={`Question ${index + 1} Options`}
+                                value={field.value.join("\n")}
+                                onChange={e => field.onChange(e.target.value.split("\n"))}
+                                />
+                            </FormControl>
+                            <FormMessage />
+                            </FormItem>
+                        )}
+                        />
+                        )}
+                    </div>
+                    ))}
+                </div>
+
                 {/* Optional Description Field */}
                 <FormField
                 control={form.control}
@@ -161,6 +699,82 @@ export default function EventForm({
                 )}
                 />
 
+                {/* Toggle for Hidden Status */}
+                <FormField
+                control={form.control}
+                name="isHidden"
+                render={({ field }) => (
+                    <FormItem>
+                    <div className="flex items-center gap-2">
+                        <FormControl>
+                        <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                        />
+                        </FormControl>
+                        <FormLabel>Hidden</FormLabel>
+                    </div>
+                    <FormDescription>
+                        Hidden events are not listed on your public profile, only people with the link can book them
+                    </FormDescription>
+                    </FormItem>
+                )}
+                />
+
+                {/* Toggle for Requiring Confirmation */}
+                <FormField
+                control={form.control}
+                name="requiresConfirmation"
+                render={({ field }) => (
+                    <FormItem>
+                    <div className="flex items-center gap-2">
+                        <FormControl>
+                        <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                        />
+                        </FormControl>
+                        <FormLabel>Requires confirmation</FormLabel>
+                    </div>
+                    <FormDescription>
+                        Bookings hold their time as requests until you accept them under Meetings. Requests you don&apos;t answer within {BOOKING_REQUEST_EXPIRY_IN_HOURS} hours expire
+                    </FormDescription>
+                    </FormItem>
+                )}
+                />
+
+                {/* Reminder emails */}
+                <FormField
+                control={form.control}
+                name="reminderOffsetsInMinutes"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Reminders</FormLabel>
+                    <div className="flex flex-col gap-2">
+                    {REMINDER_OPTIONS.map(option => (
+                        <label key={option.minutes} className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            className="size-4 accent-blue-500"
+                            checked={field.value.includes(option.minutes)}
+                            onChange={e => field.onChange(
+                            e.target.checked
+                                ? [...field.value, option.minutes].sort((a, b) => b - a)
+                                : field.value.filter(minutes => minutes !== option.minutes)
+                            )}
+                        />
+                        {option.label}
+                        </label>
+                    ))}
+                    </div>
+                    <FormDescription>
+                        You and your guest get a reminder email at each of these times before a confirmed meeting
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
                 {/* Buttons section: Delete, Cancel, Save */}
                 <div className="flex gap-2 justify-end">
                 {/* Delete Button (only shows if editing existing event) */}
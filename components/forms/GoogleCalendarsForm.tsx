@@ -0,0 +1,126 @@
+'use client'
+
+import { googleCalendarsSchema } from "@/schema/settings"
+import { saveGoogleCalendars } from "@/server/actions/settings"
+import type { GoogleCalendar } from "@/server/google/googleCalendar"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import { z } from "zod"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../ui/form"
+import { Button } from "../ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select"
+import { toast } from "sonner"
+
+// Form for picking which Google calendars block bookings and which one new bookings are added to
+export function GoogleCalendarsForm({
+    calendars,
+    selection,
+  }: {
+    calendars: GoogleCalendar[] // Every calendar in the host's Google calendar list
+    selection: z.infer<typeof googleCalendarsSchema> // Current choices
+  }) {
+
+    const form = useForm<z.infer<typeof googleCalendarsSchema>>({
+        resolver: zodResolver(googleCalendarsSchema), // Validate with Zod schema
+        defaultValues: selection,
+    })
+
+    // Submit handler to save the selection
+    async function onSubmit(values: z.infer<typeof googleCalendarsSchema>) {
+        try {
+        await saveGoogleCalendars(values)
+        toast("Calendars saved successfully.", {
+            duration: 5000,
+            className: '!rounded-3xl !py-8 !px-5 !justify-center !text-green-400 !font-black',
+        })
+        } catch (error: any) {
+        // Handle any unexpected errors that occur while saving
+        form.setError("root", {
+            message: `There was an error saving your calendars ${error.message}`,
+        })
+        }
+    }
+
+    return (
+        <Form {...form}>
+            <form
+            className="flex gap-6 flex-col"
+            onSubmit={form.handleSubmit(onSubmit)}
+            >
+                {/* Show form-level error if any */}
+                {form.formState.errors.root && (
+                <div className="text-destructive text-sm">
+                    {form.formState.errors.root.message}
+                </div>
+                )}
+
+                {/* Calendars checked for conflicts */}
+                <FormField
+                control={form.control}
+                name="busyCalendarIds"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Check for conflicts</FormLabel>
+                    <div className="flex flex-col gap-2">
+                    {calendars.map(calendar => (
+                        <label key={calendar.id} className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            className="size-4 accent-blue-500"
+                            checked={field.value.includes(calendar.id)}
+                            onChange={e => field.onChange(
+                            e.target.checked
+                                ? [...field.value, calendar.id]
+                                : field.value.filter(id => id !== calendar.id)
+                            )}
+                        />
+                        {calendar.name}{calendar.primary && " (primary)"}
+                        </label>
+                    ))}
+                    </div>
+                    <FormDescription>
+                        Guests can't book over events in any of these calendars
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Calendar new bookings are added to */}
+                <FormField
+                control={form.control}
+                name="bookingCalendarId"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Add new bookings to</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                        {/* Only calendars the host can edit can hold new events */}
+                        {calendars.filter(calendar => calendar.writable).map(calendar => (
+                            <SelectItem key={calendar.id} value={calendar.id}>{calendar.name}</SelectItem>
+                        ))}
+                        </SelectContent>
+                    </Select>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Save button */}
+                <div className="flex gap-2 justify-start">
+                    <Button
+                    className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
+                    disabled={form.formState.isSubmitting}
+                    type="submit">
+                        Save
+                    </Button>
+                </div>
+            </form>
+        </Form>
+    )
+  }
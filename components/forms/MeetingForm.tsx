@@ -1,12 +1,14 @@
-// This React component, `MeetingForm`, is a client-side form built with `react-hook-form` and `zod` validation, allowing users to schedule a meeting by selecting a timezone, date, and time, and providing their name, email, and optional notes. It uses various custom UI components (like `Select`, `Calendar`, and `Popover`) for a smooth user experience. The form filters available meeting times (`validTimes`) based on the user's selected timezone and date, ensuring only valid options are shown. Upon submission, it sends the form data along with the `eventId` and `clerkUserId` to a backend function (`createMeeting`) to create the meeting, and handles any server-side errors by displaying them in the UI.
+// This React component, `MeetingForm`, is a client-side form built with `react-hook-form` and `zod` validation, allowing users to schedule a meeting by selecting a timezone, date, and time, and providing their name, email, optional notes and answers to the event's custom questions (rendered from the `questions` prop and validated with `buildAnswersSchema`). It uses various custom UI components (like `Select`, `Calendar`, and `Popover`) for a smooth user experience. Available times are loaded one month at a time (with `getMonthAvailability`) for the selected timezone as the user navigates the calendar, so days without free time are disabled and only valid options are shown. Upon submission, it sends the form data along with the `eventId` and `clerkUserId` to a backend function (`createMeeting`) to create the meeting, and handles any server-side errors by displaying them in the UI.
 
 "use client"
-import { meetingFormSchema } from "@/schema/meetings"
+import { buildAnswersSchema, buildGuestLocationSchema, meetingFormSchema } from "@/schema/meetings"
+import { BookingQuestion } from "@/schema/events"
 import { createMeeting } from "@/server/actions/meetings"
+import { getMonthAvailability, type MonthAvailability } from "@/server/actions/schedule"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { toZonedTime } from "date-fns-tz"
 import { useRouter } from "next/navigation"
-import { useMemo } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { useForm } from "react-hook-form"
 import { z } from "zod"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "../ui/form"
@@ -17,31 +19,51 @@ import { Button } from "../ui/button"
 import { cn } from "@/lib/utils"
 import { CalendarIcon } from "lucide-react"
 import { Calendar } from "../ui/calendar"
-import { isSameDay } from "date-fns"
+import { format, startOfMonth } from "date-fns"
 import { Input } from "../ui/input"
 import { Textarea } from "../ui/textarea"
 import Link from "next/link"
 import Booking from "../Booking"
+import { LOCATION_TYPES } from "@/constants"
 
  // Enables client-side rendering for this component
 
 export default function MeetingForm({
-    validTimes,
+    firstAvailableTime,
     eventId,
     clerkUserId,
+    questions,
+    locationType,
+    eventPath,
+    profilePath,
+    bookingLinkToken,
   }: {
-    validTimes: Date[] // Predefined list of available times
+    firstAvailableTime: Date // Earliest time that can be booked, the calendar opens on its month
     eventId: string     // ID of the event to associate with the meeting
     clerkUserId: string // User ID from authentication system
+    questions: BookingQuestion[] // The event's custom questions
+    locationType: (typeof LOCATION_TYPES)[number]["type"] // Where the event's meetings take place
+    eventPath: string // Public path of this booking page, the success page lives under it
+    profilePath: string // Public path of the host's profile, where Cancel goes back to
+    bookingLinkToken?: string // Token of the single-use link the guest came through, if any
   }) {
 
     const router = useRouter()
 
         // Initialize form using React Hook Form and Zod schema
    // Create a form using React Hook Form with Zod for validation
+    // Validate the answers against this event's custom questions and location (the server checks them again)
+    const schema = useMemo(
+      () => meetingFormSchema.extend({
+        answers: buildAnswersSchema(questions),
+        guestLocation: buildGuestLocationSchema(locationType),
+      }),
+      [questions, locationType]
+    )
+
     const form = useForm<z.infer<typeof meetingFormSchema>>({
         // Use zodResolver to connect Zod schema to React Hook Form
-        resolver: zodResolver(meetingFormSchema),
+        resolver: zodResolver(schema),
     
         // Set initial default values for the form fields
         defaultValues: {
@@ -52,6 +74,12 @@ export default function MeetingForm({
         guestName: "",
         guestEmail: "",
         guestNotes: "",
+        guestLocation: "",
+
+        // Start with every custom question unanswered (checkboxes unticked)
+        answers: Object.fromEntries(
+          questions.map(question => [question.id, question.type === "checkbox" ? false : ""])
+        ),
         },
     })
 
@@ -59,10 +87,34 @@ export default function MeetingForm({
     const timezone = form.watch("timezone")
     const date = form.watch("date")
 
-        // Convert valid times to the selected timezone
-    const validTimesInTimezone = useMemo(() => {
-        return validTimes.map(date => toZonedTime(date, timezone))
-    }, [validTimes, timezone])
+    // Month shown in the calendar, and the available times of every month loaded so far (per timezone)
+    const [month, setMonth] = useState(() => startOfMonth(firstAvailableTime))
+    const [availability, setAvailability] = useState<Partial<Record<string, MonthAvailability>>>({})
+    const monthAvailability = availability[`${timezone}|${format(month, "yyyy-MM")}`]
+
+    // Load the shown month's available times when the guest navigates or changes timezone
+    useEffect(() => {
+        if (monthAvailability != null) return
+
+        const monthKey = format(month, "yyyy-MM")
+        getMonthAvailability({ clerkUserId, eventId, month: monthKey, timezone })
+            .then(days => setAvailability(current => ({ ...current, [`${timezone}|${monthKey}`]: days })))
+            .catch(error => form.setError("root", {
+                message: `There was an error loading the available times ${error.message}`,
+            }))
+    }, [clerkUserId, eventId, month, timezone, monthAvailability, form])
+
+    // Available times of a calendar day (undefined while its month is loading)
+    function getDayTimes(day: Date): Date[] | undefined {
+        return availability[`${timezone}|${format(day, "yyyy-MM")}`]?.[format(day, "yyyy-MM-dd")]
+    }
+
+    // Times of the selected day, shifted to the selected timezone for display
+    const timesOfDay = useMemo(() => {
+        if (date == null) return []
+        return (availability[`${timezone}|${format(date, "yyyy-MM")}`]?.[format(date, "yyyy-MM-dd")] ?? [])
+            .map(time => toZonedTime(time, timezone))
+    }, [availability, date, timezone])
 
     // Handle form submission
     async function onSubmit(values: z.infer<typeof meetingFormSchema>) {
@@ -72,10 +124,30 @@ export default function MeetingForm({
             ...values,
             eventId,
             clerkUserId,
+            bookingLinkToken,
         })
 
+            // The single-use link was used up in the meantime: nothing else can be booked with it
+            if (!meetingData.success && meetingData.reason === "linkUsed") {
+              form.setError("root", {
+                message: "This booking link has already been used.",
+              })
+              return
+            }
+
+            // Another guest booked this slot a moment ago: reload the available times and ask for a new one
+            if (!meetingData.success) {
+              form.resetField("startTime")
+              form.setError("startTime", {
+                message: "This time was just taken by someone else. Please pick another time.",
+              })
+              // Forget the loaded times of that month so they are fetched again, without the taken slot
+              setAvailability(current => ({ ...current, [`${values.timezone}|${format(values.date, "yyyy-MM")}`]: undefined }))
+              return
+            }
+
             // Initialize the path variable to use it later in the finally block
-            const path = `/book/${meetingData.clerkUserId}/${meetingData.eventId}/success?startTime=${meetingData.startTime.toISOString()}`;
+            const path = `${eventPath}/success?startTime=${meetingData.startTime.toISOString()}&token=${meetingData.manageToken}`;
             router.push(path)
     
         } catch (error: any) {
@@ -163,14 +235,18 @@ export default function MeetingForm({
                               mode="single"
                               selected={field.value}
                               onSelect={field.onChange}
+                              month={month}
+                              onMonthChange={setMonth}
+                              startMonth={startOfMonth(firstAvailableTime)} // Nothing to book before that
                               disabled={date =>
                                 // Only allow selecting dates that have available time slots
-                                !validTimesInTimezone.some(time =>
-                                  isSameDay(date, time)
-                                )
+                                !getDayTimes(date)?.length
                               }
                               initialFocus
                             />
+                            {monthAvailability == null && (
+                              <p className="text-sm text-muted-foreground px-3 pb-3">Loading available days...</p>
+                            )}
                           </PopoverContent>
                           <FormMessage />
                         </FormItem>
@@ -205,16 +281,14 @@ export default function MeetingForm({
                           </FormControl>
                           <SelectContent>
                             {/* Show time options only for the selected day */}
-                            {validTimesInTimezone
-                              .filter(time => isSameDay(time, date))
-                              .map(time => (
-                                <SelectItem
-                                  key={time.toISOString()}
-                                  value={time.toISOString()}
-                                >
-                                  {formatTimeString(time)}
-                                </SelectItem>
-                              ))}
+                            {timesOfDay.map(time => (
+                              <SelectItem
+                                key={time.toISOString()}
+                                value={time.toISOString()}
+                              >
+                                {formatTimeString(time)}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -255,6 +329,100 @@ export default function MeetingForm({
                   />
                 </div>
         
+                {/* Phone number or meeting place, only when the event's location needs it */}
+                {(locationType === "phone" || locationType === "askGuest") && (
+                  <FormField
+                    control={form.control}
+                    name="guestLocation"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {locationType === "phone" ? "Your Phone Number" : "Where should we meet?"}
+                        </FormLabel>
+                        <FormControl>
+                          <Input type={locationType === "phone" ? "tel" : "text"} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {/* The event's custom questions, rendered by type */}
+                {questions.map(question => (
+                  <FormField
+                    key={question.id}
+                    control={form.control}
+                    name={`answers.${question.id}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {question.type === "checkbox" ? (
+                          // A single checkbox with the question as its label (e.g. "I accept the terms")
+                          <div className="flex items-center gap-2">
+                            <FormControl>
+                              <input
+                                type="checkbox"
+                                className="size-4 accent-blue-500"
+                                checked={field.value === true}
+                                onChange={e => field.onChange(e.target.checked)}
+                              />
+                            </FormControl>
+                            <FormLabel>{question.label}{question.required && " *"}</FormLabel>
+                          </div>
+                        ) : (
+                          <>
+                            <FormLabel>{question.label}{question.required && " *"}</FormLabel>
+                            {question.type === "textarea" ? (
+                              <FormControl>
+                                <Textarea className="resize-none" {...field} value={String(field.value)} />
+                              </FormControl>
+                            ) : question.type === "select" ? (
+                              <Select onValueChange={field.onChange} defaultValue={String(field.value) || undefined}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select an option" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {question.options.map(option => (
+                                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : question.type === "radio" ? (
+                              <div className="flex flex-col gap-1">
+                                {question.options.map(option => (
+                                  <label key={option} className="flex items-center gap-2 text-sm">
+                                    <input
+                                      type="radio"
+                                      className="size-4 accent-blue-500"
+                                      name={field.name}
+                                      value={option}
+                                      checked={field.value === option}
+                                      onChange={() => field.onChange(option)}
+                                    />
+                                    {option}
+                                  </label>
+                                ))}
+                              </div>
+                            ) : (
+                              <FormControl>
+                                <Input
+                                  // Phone and URL questions get the matching keyboard and autofill
+                                  type={question.type === "phone" ? "tel" : question.type === "url" ? "url" : "text"}
+                                  {...field}
+                                  value={String(field.value)}
+                                />
+                              </FormControl>
+                            )}
+                          </>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+
                 {/* Optional notes textarea */}
                 <FormField
                   control={form.control}
@@ -278,7 +446,7 @@ export default function MeetingForm({
                     asChild
                     variant="outline"
                   >
-                    <Link href={`/book/${clerkUserId}`}>Cancel</Link>
+                    <Link href={profilePath}>Cancel</Link>
                   </Button>
                   <Button 
                   className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
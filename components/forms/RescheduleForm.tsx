@@ -0,0 +1,244 @@
+// This React component, `RescheduleForm`, lets a guest move an existing booking to another free slot from their manage page. It reuses the same timezone/date/time pickers as `MeetingForm`, and like it loads the free times one month at a time (with `getRescheduleMonthAvailability`) as the guest navigates the calendar, then sends the new time together with the secret manage token to the `rescheduleMeeting` server action.
+
+"use client"
+import { rescheduleMeetingFormSchema } from "@/schema/meetings"
+import { getRescheduleMonthAvailability, rescheduleMeeting } from "@/server/actions/meetings"
+import type { MonthAvailability } from "@/server/actions/schedule"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { toZonedTime } from "date-fns-tz"
+import { useEffect, useMemo, useState } from "react"
+import { useForm } from "react-hook-form"
+import { z } from "zod"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "../ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select"
+import { formatDate, formatTimeString, formatTimezoneOffset } from "@/lib/formatters"
+import { Popover, PopoverContent, PopoverTrigger } from "../ui/popover"
+import { Button } from "../ui/button"
+import { cn } from "@/lib/utils"
+import { CalendarIcon } from "lucide-react"
+import { Calendar } from "../ui/calendar"
+import { format, startOfMonth } from "date-fns"
+import { toast } from "sonner"
+
+export default function RescheduleForm({
+    firstAvailableTime,
+    token,
+    timezone: initialTimezone,
+  }: {
+    firstAvailableTime: Date // Earliest time the meeting can be moved to, the calendar opens on its month
+    token: string       // Secret token from the guest's manage link
+    timezone: string    // Timezone the guest originally booked in
+  }) {
+
+    // Create a form using React Hook Form with Zod for validation
+    const form = useForm<z.infer<typeof rescheduleMeetingFormSchema>>({
+        resolver: zodResolver(rescheduleMeetingFormSchema),
+        defaultValues: {
+          // Start with the timezone the guest used when booking
+          timezone: initialTimezone,
+        },
+    })
+
+    // Watch timezone and selected date fields for updates
+    const timezone = form.watch("timezone")
+    const date = form.watch("date")
+
+    // Month shown in the calendar, and the available times of every month loaded so far (per timezone)
+    const [month, setMonth] = useState(() => startOfMonth(firstAvailableTime))
+    const [availability, setAvailability] = useState<Partial<Record<string, MonthAvailability>>>({})
+    const monthAvailability = availability[`${timezone}|${format(month, "yyyy-MM")}`]
+
+    // Load the shown month's available times when the guest navigates or changes timezone
+    useEffect(() => {
+        if (monthAvailability != null) return
+
+        const monthKey = format(month, "yyyy-MM")
+        getRescheduleMonthAvailability({ token, month: monthKey, timezone })
+            .then(days => setAvailability(current => ({ ...current, [`${timezone}|${monthKey}`]: days })))
+            .catch(error => form.setError("root", {
+                message: `There was an error loading the available times ${error.message}`,
+            }))
+    }, [token, month, timezone, monthAvailability, form])
+
+    // Available times of a calendar day (undefined while its month is loading)
+    function getDayTimes(day: Date): Date[] | undefined {
+        return availability[`${timezone}|${format(day, "yyyy-MM")}`]?.[format(day, "yyyy-MM-dd")]
+    }
+
+    // Times of the selected day, shifted to the selected timezone for display
+    const timesOfDay = useMemo(() => {
+        if (date == null) return []
+        return (availability[`${timezone}|${format(date, "yyyy-MM")}`]?.[format(date, "yyyy-MM-dd")] ?? [])
+            .map(time => toZonedTime(time, timezone))
+    }, [availability, date, timezone])
+
+    // Handle form submission
+    async function onSubmit(values: z.infer<typeof rescheduleMeetingFormSchema>) {
+        try {
+          await rescheduleMeeting({
+            token,
+            startTime: values.startTime,
+            timezone: values.timezone,
+          })
+          toast("Your meeting has been rescheduled.", {
+            duration: 5000,
+          })
+        } catch (error: any) {
+          // The time may have been taken in the meantime: fetch that month's times again
+          setAvailability(current => ({ ...current, [`${values.timezone}|${format(values.date, "yyyy-MM")}`]: undefined }))
+          // Handle any error that occurs while rescheduling
+          form.setError("root", {
+            message: `There was an error rescheduling your meeting ${error.message}`,
+          })
+        }
+    }
+
+        return (
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit(onSubmit)}
+                className="flex gap-6 flex-col"
+              >
+                {/* Show root error message if form submission fails */}
+                {form.formState.errors.root && (
+                  <div className="text-destructive text-sm">
+                    {form.formState.errors.root.message}
+                  </div>
+                )}
+
+                {/* Timezone selection field */}
+                <FormField
+                  control={form.control}
+                  name="timezone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Timezone</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {/* List all supported timezones with offset */}
+                          {Intl.supportedValuesOf("timeZone").map(timezone => (
+                            <SelectItem key={timezone} value={timezone}>
+                              {timezone}
+                              {` (${formatTimezoneOffset(timezone)})`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex gap-4 flex-col md:flex-row">
+                  {/* Date picker field */}
+                  <FormField
+                    control={form.control}
+                    name="date"
+                    render={({ field }) => (
+                      <Popover>
+                        <FormItem className="flex-1">
+                          <FormLabel>New Date</FormLabel>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button
+                                variant="outline"
+                                className={cn(
+                                  "pl-3 text-left font-normal flex w-full",
+                                  !field.value && "text-muted-foreground"
+                                )}
+                              >
+                                {field.value ? (
+                                  formatDate(field.value)
+                                ) : (
+                                  <span>Pick a date</span>
+                                )}
+                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar
+                              mode="single"
+                              selected={field.value}
+                              onSelect={field.onChange}
+                              month={month}
+                              onMonthChange={setMonth}
+                              startMonth={startOfMonth(firstAvailableTime)} // Nothing to move to before that
+                              disabled={date =>
+                                // Only allow selecting dates that have available time slots
+                                !getDayTimes(date)?.length
+                              }
+                              initialFocus
+                            />
+                            {monthAvailability == null && (
+                              <p className="text-sm text-muted-foreground px-3 pb-3">Loading available days...</p>
+                            )}
+                          </PopoverContent>
+                          <FormMessage />
+                        </FormItem>
+                      </Popover>
+                    )}
+                  />
+
+                  {/* Time selection field */}
+                  <FormField
+                    control={form.control}
+                    name="startTime"
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormLabel>New Time</FormLabel>
+                        <Select
+                          disabled={date == null || timezone == null}
+                          onValueChange={value =>
+                            field.onChange(new Date(Date.parse(value)))
+                          }
+                          defaultValue={field.value?.toISOString()}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue
+                                placeholder={
+                                  date == null || timezone == null
+                                    ? "Select a date/timezone first"
+                                    : "Select a meeting time"
+                                }
+                              />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {/* Show time options only for the selected day */}
+                            {timesOfDay.map(time => (
+                              <SelectItem
+                                key={time.toISOString()}
+                                value={time.toISOString()}
+                              >
+                                {formatTimeString(time)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Submit button */}
+                <div className="flex gap-2 justify-end">
+                  <Button
+                  className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
+                  disabled={form.formState.isSubmitting}
+                  type="submit">
+                    Reschedule
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          )
+
+  }
@@ -6,15 +6,20 @@ import { scheduleFormSchema } from "@/schema/schedule"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useFieldArray, useForm } from "react-hook-form"
 import { z } from "zod"
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "../ui/form"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../ui/form"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select"
 import { formatTimezoneOffset } from "@/lib/formatters"
-import { Fragment } from "react"
+import { Fragment, useTransition } from "react"
 import { Button } from "../ui/button"
 import { Plus, X } from "lucide-react"
 import { Input } from "../ui/input"
 import { toast } from "sonner"
-import { saveSchedule } from "@/server/actions/schedule"
+import { deleteSchedule, saveSchedule } from "@/server/actions/schedule"
+import { Switch } from "../ui/switch"
+import { format } from "date-fns"
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "../ui/alert-dialog"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
 
 // Define the Availability type
 type Availability = {
@@ -26,24 +31,48 @@ type Availability = {
 
   }
 
+// Define the DateOverride type (times are null when the whole day is blocked)
+type DateOverride = {
+    date: string
+    startTime: string | null
+    endTime: string | null
+  }
+
 export function ScheduleForm({
     schedule,
   }: {
     schedule?: {
+      id: string
+      name: string
+      isDefault: boolean
       timezone: string
       availabilities: Availability[]
+      overrides: DateOverride[]
     }
   }) {
 
+        const [isDeletePending, startDeleteTransition] = useTransition()
+        const router = useRouter()
+
         // Initialize form with validation schema and default values
         const form = useForm<z.infer<typeof scheduleFormSchema>>({
             resolver: zodResolver(scheduleFormSchema),
             defaultValues: {
+            name: schedule?.name ?? '', // Ensure controlled input: default to empty string
+            isDefault: schedule?.isDefault ?? false,
             timezone:
                 schedule?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
-            availabilities: schedule?.availabilities.toSorted((a, b) => {
+            availabilities: (schedule?.availabilities ?? []).toSorted((a, b) => {
                 return timeToFloat(a.startTime) - timeToFloat(b.startTime)
             }),
+            overrides: (schedule?.overrides ?? [])
+                .toSorted((a, b) => a.date.localeCompare(b.date))
+                .map(override => ({
+                date: override.date,
+                isUnavailable: override.startTime == null || override.endTime == null,
+                startTime: override.startTime ?? "9:00",
+                endTime: override.endTime ?? "17:00",
+                })),
             },
         })
 
@@ -54,6 +83,13 @@ export function ScheduleForm({
     fields: availabilityFields, // Current availability fields
   } = useFieldArray({ name: "availabilities", control: form.control })
 
+      // Manage dynamic form fields for date overrides
+  const {
+    append: addOverride, // Add a new date override
+    remove: removeOverride, // Remove date override
+    fields: overrideFields, // Current date override fields
+  } = useFieldArray({ name: "overrides", control: form.control })
+
         // Group availability fields by day of the week for UI rendering
     const groupedAvailabilityFields = Object.groupBy(
         availabilityFields.map((field, index) => ({ ...field, index })),
@@ -63,11 +99,12 @@ export function ScheduleForm({
             // Submit handler to save schedule
             async function onSubmit(values: z.infer<typeof scheduleFormSchema>) {
                 try {
-                await saveSchedule(values)
+                await saveSchedule(values, schedule?.id)
                 toast("Schedule saved successfully.", {
                     duration: 5000,
                     className: '!rounded-3xl !py-8 !px-5 !justify-center !text-green-400 !font-black',
                 })
+                router.push('/schedule')
                 } catch (error: any) {
                 // Handle any unexpected errors that occur during the schedule saving process
                 form.setError("root", {
@@ -92,6 +129,44 @@ export function ScheduleForm({
                     </div>
                     )}
                     
+                    {/* Schedule name */}
+                    <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                            <FormItem>
+                            <FormLabel>Schedule Name</FormLabel>
+                            <FormControl>
+                                <Input placeholder="Office hours" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+
+                    {/* Default schedule toggle (the current default can only be replaced, not unset) */}
+                    <FormField
+                        control={form.control}
+                        name="isDefault"
+                        render={({ field }) => (
+                            <FormItem>
+                            <div className="flex items-center gap-2">
+                                <FormControl>
+                                <Switch
+                                    checked={field.value}
+                                    onCheckedChange={field.onChange}
+                                    disabled={schedule?.isDefault}
+                                />
+                                </FormControl>
+                                <FormLabel>Default schedule</FormLabel>
+                            </div>
+                            <FormDescription>
+                                Used by every event that doesn&apos;t pick a schedule of its own
+                            </FormDescription>
+                            </FormItem>
+                        )}
+                    />
+
                     {/* Timezone selection */}
                     <FormField
                         control={form.control}
@@ -230,11 +305,174 @@ export function ScheduleForm({
                             ))}
                     </div>                  
 
-                    {/* Save button */}
-                    <div className="flex gap-2 justify-start">
+                    {/* Date overrides: replace the weekly hours on specific dates */}
+                    <div className="flex flex-col gap-4">
+                        <div className="flex items-center justify-between">
+                            <div className="text-sm font-semibold">Date Overrides</div>
+                            <Button
+                                type="button"
+                                className="size-6 p-1 cursor-pointer hover:scale-200"
+                                variant="outline"
+                                onClick={() => {
+                                addOverride({
+                                    date: format(new Date(), "yyyy-MM-dd"),
+                                    isUnavailable: false,
+                                    startTime: "9:00",
+                                    endTime: "17:00",
+                                })
+                                }}
+                            >
+                                <Plus color="red" />
+                            </Button>
+                        </div>
+
+                        {overrideFields.map((field, index) => (
+                            <div className="flex flex-col gap-2" key={field.id}>
+                                <div className="flex gap-2 items-center">
+                                {/* Date input */}
+                                <FormField
+                                    control={form.control}
+                                    name={`overrides.${index}.date`}
+                                    render={({ field }) => (
+                                    <FormItem>
+                                        <FormControl>
+                                        <Input type="date" aria-label={`Override Date ${index + 1}`} {...field} />
+                                        </FormControl>
+                                    </FormItem>
+                                    )}
+                                />
+
+                                {/* Remove override */}
+                                <Button
+                                    type="button"
+                                    className="size-6 p-1 cursor-pointer hover:bg-red-900"
+                                    variant="destructive"
+                                    onClick={() => removeOverride(index)}
+                                >
+                                    <X />
+                                </Button>
+                                </div>
+
+                                {/* Day off toggle */}
+                                <FormField
+                                    control={form.control}
+                                    name={`overrides.${index}.isUnavailable`}
+                                    render={({ field }) => (
+                                    <FormItem>
+                                        <div className="flex items-center gap-2">
+                                        <FormControl>
+                                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                                        </FormControl>
+                                        <FormLabel>Unavailable all day</FormLabel>
+                                        </div>
+                                    </FormItem>
+                                    )}
+                                />
+
+                                {/* Time range, only when the day isn't blocked */}
+                                {!form.watch(`overrides.${index}.isUnavailable`) && (
+                                <div className="flex gap-2 items-center">
+                                    <FormField
+                                        control={form.control}
+                                        name={`overrides.${index}.startTime`}
+                                        render={({ field }) => (
+                                        <FormItem>
+                                            <FormControl>
+                                            <Input className="w-24" aria-label={`Override Start Time ${index + 1}`} {...field} />
+                                            </FormControl>
+                                        </FormItem>
+                                        )}
+                                    />
+                                    -
+                                    <FormField
+                                        control={form.control}
+                                        name={`overrides.${index}.endTime`}
+                                        render={({ field }) => (
+                                        <FormItem>
+                                            <FormControl>
+                                            <Input className="w-24" aria-label={`Override End Time ${index + 1}`} {...field} />
+                                            </FormControl>
+                                        </FormItem>
+                                        )}
+                                    />
+                                </div>
+                                )}
+
+                                {/* Show field-level validation messages */}
+                                <FormMessage>
+                                {form.formState.errors.overrides?.at?.(index)?.date?.message}
+                                </FormMessage>
+                                <FormMessage>
+                                {form.formState.errors.overrides?.at?.(index)?.startTime?.message}
+                                </FormMessage>
+                                <FormMessage>
+                                {form.formState.errors.overrides?.at?.(index)?.endTime?.message}
+                                </FormMessage>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Buttons section: Delete, Cancel, Save */}
+                    <div className="flex gap-2 justify-end">
+                        {/* Delete Button (only for existing schedules that aren't the default) */}
+                        {schedule && !schedule.isDefault && (
+                            <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                                <Button
+                                className="cursor-pointer hover:scale-105 hover:bg-red-700"
+                                variant="destructive"
+                                disabled={isDeletePending || form.formState.isSubmitting}
+                                >
+                                Delete
+                                </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                                <AlertDialogHeader>
+                                <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                    This action cannot be undone. Events using this schedule
+                                    will use your default schedule instead.
+                                </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                className="bg-red-500 hover:bg-red-700 cursor-pointer"
+                                    disabled={isDeletePending || form.formState.isSubmitting}
+                                    onClick={() => {
+                                        startDeleteTransition(async () => {
+                                        try {
+                                            await deleteSchedule(schedule.id)
+                                            router.push('/schedule')
+                                        } catch (error: any) {
+                                            form.setError("root", {
+                                            message: `There was an error deleting your schedule: ${error.message}`,
+                                            })
+                                        }
+                                        })
+                                    }}
+                                >
+                                    Delete
+                                </AlertDialogAction>
+                                </AlertDialogFooter>
+                            </AlertDialogContent>
+                            </AlertDialog>
+                        )}
+
+                        {/* Cancel Button - redirects to schedules list */}
+                        <Button
+                            disabled={isDeletePending || form.formState.isSubmitting}
+                            type="button"
+                            asChild
+                            variant="outline"
+                        >
+                            <Link href="/schedule">Cancel</Link>
+                        </Button>
+
+                        {/* Save Button - submits the form */}
                         <Button 
                         className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
-                        disabled={form.formState.isSubmitting}
+                        disabled={isDeletePending || form.formState.isSubmitting}
                         type="submit">
                             Save
                         </Button>
@@ -0,0 +1,110 @@
+'use client'
+
+import { absoluteUrl } from "@/lib/utils"
+import { usernameSchema } from "@/schema/settings"
+import { isUsernameAvailable, saveUsername } from "@/server/actions/settings"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { z } from "zod"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../ui/form"
+import { Input } from "../ui/input"
+import { Button } from "../ui/button"
+import { toast } from "sonner"
+
+// Form for picking the username used in the host's public booking URLs
+export function UsernameForm({
+    username,
+  }: {
+    username?: string // Current username, if one was picked before
+  }) {
+
+    const form = useForm<z.infer<typeof usernameSchema>>({
+        resolver: zodResolver(usernameSchema), // Validate with Zod schema
+        defaultValues: { username: username ?? "" },
+    })
+
+    // Whether the username being typed is free (null while unknown)
+    const value = form.watch("username")
+    const [available, setAvailable] = useState<boolean | null>(null)
+
+    // Check the username shortly after the user stops typing
+    useEffect(() => {
+        setAvailable(null)
+        if (value === username || !usernameSchema.safeParse({ username: value }).success) return
+
+        let current = true
+        const timeout = setTimeout(() => {
+            isUsernameAvailable(value).then(result => {
+                if (current) setAvailable(result)
+            })
+        }, 400)
+
+        return () => {
+            current = false
+            clearTimeout(timeout)
+        }
+    }, [value, username])
+
+    // Submit handler to save the username
+    async function onSubmit(values: z.infer<typeof usernameSchema>) {
+        try {
+        await saveUsername(values)
+        toast("Username saved successfully.", {
+            duration: 5000,
+            className: '!rounded-3xl !py-8 !px-5 !justify-center !text-green-400 !font-black',
+        })
+        } catch (error: any) {
+        // Handle any unexpected errors that occur while saving (including a username taken in the meantime)
+        form.setError("root", {
+            message: `There was an error saving your username ${error.message}`,
+        })
+        }
+    }
+
+    return (
+        <Form {...form}>
+            <form
+            className="flex gap-6 flex-col"
+            onSubmit={form.handleSubmit(onSubmit)}
+            >
+                {/* Show form-level error if any */}
+                {form.formState.errors.root && (
+                <div className="text-destructive text-sm">
+                    {form.formState.errors.root.message}
+                </div>
+                )}
+
+                {/* Username */}
+                <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                        <Input autoComplete="off" placeholder="jane-doe" {...field} />
+                    </FormControl>
+                    {available === true && <p className="text-sm text-green-600">Available</p>}
+                    {available === false && <p className="text-sm text-destructive">Already taken</p>}
+                    <FormDescription>
+                        Your booking page will be at {absoluteUrl(`/${value || "username"}`)}
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Save button */}
+                <div className="flex gap-2 justify-start">
+                    <Button
+                    className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
+                    disabled={form.formState.isSubmitting || available === false}
+                    type="submit">
+                        Save
+                    </Button>
+                </div>
+            </form>
+        </Form>
+    )
+  }
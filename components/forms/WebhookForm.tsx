@@ -0,0 +1,138 @@
+'use client'
+
+import { WEBHOOK_TRIGGERS } from "@/constants"
+import { webhookFormSchema } from "@/schema/webhooks"
+import { createWebhook } from "@/server/actions/webhooks"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import { z } from "zod"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../ui/form"
+import { Input } from "../ui/input"
+import { Button } from "../ui/button"
+import { toast } from "sonner"
+
+// A random secret for a new webhook (64 hex characters)
+function generateSecret(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, "0")).join("")
+}
+
+// Form for setting up a webhook that receives booking changes (e.g. for a CRM)
+export function WebhookForm() {
+
+    const form = useForm<z.infer<typeof webhookFormSchema>>({
+        resolver: zodResolver(webhookFormSchema), // Validate with Zod schema
+        defaultValues: {
+            url: '',
+            secret: generateSecret(), // Can be replaced with the receiver's own secret
+            triggers: WEBHOOK_TRIGGERS.map(({ type }) => type), // Every booking change by default
+        },
+    })
+
+    // Submit handler to create the webhook
+    async function onSubmit(values: z.infer<typeof webhookFormSchema>) {
+        try {
+        await createWebhook(values)
+        toast("Webhook added successfully.", {
+            duration: 5000,
+            className: '!rounded-3xl !py-8 !px-5 !justify-center !text-green-400 !font-black',
+        })
+        form.reset({ url: '', secret: generateSecret(), triggers: values.triggers })
+        } catch (error: any) {
+        // Handle any unexpected errors that occur while saving
+        form.setError("root", {
+            message: `There was an error adding your webhook ${error.message}`,
+        })
+        }
+    }
+
+    return (
+        <Form {...form}>
+            <form
+            className="flex gap-6 flex-col"
+            onSubmit={form.handleSubmit(onSubmit)}
+            >
+                {/* Show form-level error if any */}
+                {form.formState.errors.root && (
+                <div className="text-destructive text-sm">
+                    {form.formState.errors.root.message}
+                </div>
+                )}
+
+                {/* Receiver URL */}
+                <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>URL</FormLabel>
+                    <FormControl>
+                        <Input placeholder="https://example.com/webhooks/calendify" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                        Receives a POST request with the booking as JSON
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Signing secret */}
+                <FormField
+                control={form.control}
+                name="secret"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Secret</FormLabel>
+                    <FormControl>
+                        <Input autoComplete="off" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                        Copy it now: it signs every request (X-Calendify-Signature header) and isn&apos;t shown again
+                    </FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Booking changes to send */}
+                <FormField
+                control={form.control}
+                name="triggers"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Triggers</FormLabel>
+                    <div className="flex flex-col gap-2">
+                    {WEBHOOK_TRIGGERS.map(trigger => (
+                        <label key={trigger.type} className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            className="size-4 accent-blue-500"
+                            checked={field.value.includes(trigger.type)}
+                            onChange={e => field.onChange(
+                            e.target.checked
+                                ? [...field.value, trigger.type]
+                                : field.value.filter(type => type !== trigger.type)
+                            )}
+                        />
+                        {trigger.label}
+                        </label>
+                    ))}
+                    </div>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
+
+                {/* Save button */}
+                <div className="flex gap-2 justify-start">
+                    <Button
+                    className="cursor-pointer hover:scale-105 bg-blue-400 hover:bg-blue-600"
+                    disabled={form.formState.isSubmitting}
+                    type="submit">
+                        Add webhook
+                    </Button>
+                </div>
+            </form>
+        </Form>
+    )
+  }
@@ -8,6 +8,162 @@ export const DAYS_OF_WEEK_IN_ORDER = [
     "sunday",
   ] as const
 
+  // All the states a booked meeting can be in
+  // (pending: waiting for the host to accept, rejected/expired: the host declined or didn't answer in time)
+  export const MEETING_STATUSES = ["pending", "confirmed", "cancelled", "rejected", "expired"] as const
+
+  // How long a host has to accept a booking request before it expires and its slot is freed (at most until it starts)
+  export const BOOKING_REQUEST_EXPIRY_IN_HOURS = 24
+
+  // Kinds of background work the job queue runs (see server/jobs/handlers.ts)
+  export const JOB_TYPES = ["sendMeetingEmails", "expireBookingRequests", "sendDueReminders", "deliverWebhook"] as const
+
+  // Booking changes a webhook can subscribe to
+  export const WEBHOOK_TRIGGERS = [
+    { type: "BOOKING_CREATED", label: "Booking created" },
+    { type: "BOOKING_CANCELLED", label: "Booking cancelled" },
+    { type: "BOOKING_RESCHEDULED", label: "Booking rescheduled" },
+  ] as const
+
+  // States of one webhook call (retrying: the last attempt failed and another one is queued)
+  export const WEBHOOK_DELIVERY_STATUSES = ["pending", "succeeded", "retrying", "failed"] as const
+
+  // How long a webhook receiver has to answer before the attempt counts as failed
+  export const WEBHOOK_TIMEOUT_IN_MS = 10_000
+
+  // States of a queued job (failed: it ran out of attempts and stays in the table to be looked at)
+  export const JOB_STATUSES = ["queued", "running", "completed", "failed"] as const
+
+  // How often a job is tried before it is marked as failed
+  export const JOB_MAX_ATTEMPTS = 5
+
+  // How long a worker owns a job it picked up; a job still "running" after that is picked up again
+  // (its worker crashed or was stopped)
+  export const JOB_LOCK_TIMEOUT_IN_MINUTES = 5
+
+  // How long completed jobs are kept before they are cleaned up (failed jobs are kept)
+  export const COMPLETED_JOB_RETENTION_IN_DAYS = 7
+
+  // Calendars Calendify can read busy times from and write bookings to
+  export const CALENDAR_PROVIDERS = ["google", "caldav"] as const
+
+  // Longest buffer a host can keep free before or after a meeting (4 hours)
+  export const MAX_BUFFER_IN_MINUTES = 60 * 4
+
+  // How far ahead a booking can be made: a rolling number of days, or a fixed date range
+  export const BOOKING_WINDOW_TYPES = ["rolling", "fixed"] as const
+
+  // Choices offered for the minimum notice a guest has to give before a meeting
+  export const MINIMUM_NOTICE_OPTIONS = [
+    { label: "No minimum notice", minutes: 0 },
+    { label: "30 minutes", minutes: 30 },
+    { label: "1 hour", minutes: 60 },
+    { label: "2 hours", minutes: 60 * 2 },
+    { label: "4 hours", minutes: 60 * 4 },
+    { label: "12 hours", minutes: 60 * 12 },
+    { label: "1 day", minutes: 60 * 24 },
+    { label: "2 days", minutes: 60 * 24 * 2 },
+    { label: "1 week", minutes: 60 * 24 * 7 },
+  ] as const
+
+  // Choices offered for how far apart the start times guests can pick are (0 = the event's duration)
+  export const SLOT_INTERVAL_OPTIONS = [
+    { label: "Same as duration", minutes: 0 },
+    { label: "5 minutes", minutes: 5 },
+    { label: "10 minutes", minutes: 10 },
+    { label: "15 minutes", minutes: 15 },
+    { label: "20 minutes", minutes: 20 },
+    { label: "30 minutes", minutes: 30 },
+    { label: "1 hour", minutes: 60 },
+  ] as const
+
+  // Which start times are offered: any time on the interval grid, or only those on the hour (or half hour)
+  export const SLOT_ALIGNMENTS = [
+    { type: "none", label: "Any time" },
+    { type: "halfHour", label: "On the hour or half hour" },
+    { type: "hour", label: "On the hour" },
+  ] as const
+
+  // Longest rolling booking window a host can choose (2 years)
+  export const MAX_BOOKING_WINDOW_IN_DAYS = 365 * 2
+
+  // Usernames that can't be picked because they'd clash with the app's own top-level routes.
+  // schema/settings.test.ts checks that every top-level folder in app/ is listed here.
+  // Next.js internals like /_next can't clash, usernames can't contain underscores.
+  export const RESERVED_USERNAMES = [
+    "api",
+    "assets",
+    "book",
+    "events",
+    "login",
+    "meetings",
+    "register",
+    "schedule",
+    "settings",
+    "trpc", // Always goes through the middleware (see middleware.ts)
+  ]
+
+  // When reminder emails can be sent before a meeting (an event can pick several)
+  export const REMINDER_OPTIONS = [
+    { label: "1 week before", minutes: 7 * 24 * 60 },
+    { label: "2 days before", minutes: 2 * 24 * 60 },
+    { label: "1 day before", minutes: 24 * 60 },
+    { label: "2 hours before", minutes: 120 },
+    { label: "1 hour before", minutes: 60 },
+    { label: "30 minutes before", minutes: 30 },
+    { label: "15 minutes before", minutes: 15 },
+  ] as const
+
+  // Alarm added to the .ics files guests download or get by email (minutes before the meeting)
+  export const CALENDAR_ALARM_IN_MINUTES = 15
+
+  // How far back a host's iCal feed lists meetings (upcoming ones are always listed)
+  export const CALENDAR_FEED_PAST_DAYS = 30
+
+  // How often calendar apps are asked to check a host's iCal feed for changes
+  export const CALENDAR_FEED_REFRESH_IN_MINUTES = 30
+
+  // How long busy times read from a host's calendar are reused before asking the calendar again (1 minute)
+  export const BUSY_TIMES_CACHE_TTL_IN_SECONDS = 60
+
+  // Booking limit inputs shown in the event form and the host settings form
+  export const BOOKING_LIMIT_FIELDS = [
+    { name: "maxBookingsPerDay", label: "Max bookings per day" },
+    { name: "maxBookingsPerWeek", label: "Max bookings per week" },
+    { name: "maxBookingsPerMonth", label: "Max bookings per month" },
+    { name: "maxBookedMinutesPerDay", label: "Max booked minutes per day" },
+  ] as const
+
+  // Kinds of custom questions a host can ask guests when they book an event
+  export const BOOKING_QUESTION_TYPES = [
+    { type: "text", label: "Short text" },
+    { type: "textarea", label: "Long text" },
+    { type: "select", label: "Dropdown" },
+    { type: "radio", label: "Multiple choice" },
+    { type: "checkbox", label: "Checkbox" },
+    { type: "phone", label: "Phone number" },
+    { type: "url", label: "URL" },
+  ] as const
+
+  // Where a meeting takes place; Google Meet links are created automatically with the calendar event
+  export const LOCATION_TYPES = [
+    { type: "none", label: "No location" },
+    { type: "googleMeet", label: "Google Meet" },
+    { type: "url", label: "Video call link" },
+    { type: "phone", label: "Phone call (guest's number)" },
+    { type: "inPerson", label: "In person" },
+    { type: "askGuest", label: "Ask the guest" },
+  ] as const
+
+  // Most custom questions a single event can ask
+  export const MAX_BOOKING_QUESTIONS = 20
+
+  // Tabs shown on the host's "My Meetings" dashboard
+  export const MEETING_TABS = ["upcoming", "requests", "past", "cancelled"] as const
+
+  // How many meetings to show per page on the dashboard
+  export const MEETINGS_PER_PAGE = 20
+
 
   
   export const PrivateNavLinks = [
@@ -16,11 +172,21 @@ export const DAYS_OF_WEEK_IN_ORDER = [
       route: '/events',
       label: 'My Events',
     },
+    {
+      imgURL: '/assets/meeting.svg',
+      route: '/meetings',
+      label: 'My Meetings',
+    },
     {
       imgURL: '/assets/schedule.svg',
       route: '/schedule',
       label: 'My Schedule',
     },
+    {
+      imgURL: '/assets/settings.svg',
+      route: '/settings',
+      label: 'Settings',
+    },
     {
       imgURL: '/assets/public.svg',
       route: '/book',
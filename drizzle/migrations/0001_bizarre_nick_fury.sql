@@ -0,0 +1,20 @@
+CREATE TYPE "public"."meetingStatus" AS ENUM('confirmed', 'cancelled');--> statement-breakpoint
+CREATE TABLE "meetings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"eventId" uuid NOT NULL,
+	"clerkUserId" text NOT NULL,
+	"guestName" text NOT NULL,
+	"guestEmail" text NOT NULL,
+	"guestNotes" text,
+	"startTime" timestamp with time zone NOT NULL,
+	"endTime" timestamp with time zone NOT NULL,
+	"timezone" text NOT NULL,
+	"status" "meetingStatus" DEFAULT 'confirmed' NOT NULL,
+	"googleEventId" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "meetings" ADD CONSTRAINT "meetings_eventId_events_id_fk" FOREIGN KEY ("eventId") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "meetingsClerkUserIdStartTimeIndex" ON "meetings" USING btree ("clerkUserId","startTime");--> statement-breakpoint
+CREATE INDEX "meetingsEventIdIndex" ON "meetings" USING btree ("eventId");
\ No newline at end of file
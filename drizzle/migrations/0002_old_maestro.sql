@@ -0,0 +1,4 @@
+ALTER TABLE "meetings" ADD COLUMN "manageToken" uuid DEFAULT gen_random_uuid() NOT NULL;--> statement-breakpoint
+ALTER TABLE "meetings" ADD COLUMN "cancellationReason" text;--> statement-breakpoint
+ALTER TABLE "meetings" ADD COLUMN "cancelledAt" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "meetings" ADD CONSTRAINT "meetings_manageToken_unique" UNIQUE("manageToken");
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "slotReservations" (
+	"meetingId" uuid PRIMARY KEY NOT NULL,
+	"clerkUserId" text NOT NULL,
+	"startTime" timestamp with time zone NOT NULL,
+	"endTime" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "slotReservations" ADD CONSTRAINT "slotReservations_meetingId_meetings_id_fk" FOREIGN KEY ("meetingId") REFERENCES "public"."meetings"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Custom SQL migration file: drizzle can't express exclusion constraints in the schema
+-- btree_gist lets a GiST index compare plain text columns (the host ID) with "="
+CREATE EXTENSION IF NOT EXISTS btree_gist;--> statement-breakpoint
+-- No two reservations of the same host may overlap ("[)" ranges, so back-to-back meetings are fine)
+ALTER TABLE "slotReservations" ADD CONSTRAINT "slotReservations_no_overlap" EXCLUDE USING gist ("clerkUserId" WITH =, tstzrange("startTime", "endTime") WITH &&);--> statement-breakpoint
+-- Reserve the slots of meetings that were booked before reservations existed
+INSERT INTO "slotReservations" ("meetingId", "clerkUserId", "startTime", "endTime")
+SELECT "id", "clerkUserId", "startTime", "endTime" FROM "meetings"
+WHERE "status" = 'confirmed' AND "endTime" > now()
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,2 @@
+ALTER TABLE "events" ADD COLUMN "bufferBeforeInMinutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "bufferAfterInMinutes" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TYPE "public"."bookingWindowType" AS ENUM('rolling', 'fixed');--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "minimumNoticeInMinutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "bookingWindowType" "bookingWindowType" DEFAULT 'rolling' NOT NULL;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "bookingWindowInDays" integer DEFAULT 365 NOT NULL;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "bookingWindowStartDate" date;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "bookingWindowEndDate" date;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "userSettings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerkUserId" text NOT NULL,
+	"maxBookingsPerDay" integer,
+	"maxBookingsPerWeek" integer,
+	"maxBookingsPerMonth" integer,
+	"maxBookedMinutesPerDay" integer,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "userSettings_clerkUserId_unique" UNIQUE("clerkUserId")
+);
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "maxBookingsPerDay" integer;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "maxBookingsPerWeek" integer;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "maxBookingsPerMonth" integer;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "maxBookedMinutesPerDay" integer;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "scheduleDateOverrides" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scheduleId" uuid NOT NULL,
+	"date" date NOT NULL,
+	"startTime" text,
+	"endTime" text
+);
+--> statement-breakpoint
+ALTER TABLE "scheduleDateOverrides" ADD CONSTRAINT "scheduleDateOverrides_scheduleId_schedules_id_fk" FOREIGN KEY ("scheduleId") REFERENCES "public"."schedules"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scheduleDateOverridesScheduleIdIndex" ON "scheduleDateOverrides" USING btree ("scheduleId");
\ No newline at end of file
@@ -0,0 +1,10 @@
+ALTER TABLE "schedules" DROP CONSTRAINT "schedules_clerkUserId_unique";--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "scheduleId" uuid;--> statement-breakpoint
+ALTER TABLE "schedules" ADD COLUMN "name" text DEFAULT 'Working Hours' NOT NULL;--> statement-breakpoint
+ALTER TABLE "schedules" ALTER COLUMN "name" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "schedules" ADD COLUMN "isDefault" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+-- Every user had a single schedule so far, which becomes their default one
+UPDATE "schedules" SET "isDefault" = true;--> statement-breakpoint
+ALTER TABLE "events" ADD CONSTRAINT "events_scheduleId_schedules_id_fk" FOREIGN KEY ("scheduleId") REFERENCES "public"."schedules"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "schedulesClerkUserIdIndex" ON "schedules" USING btree ("clerkUserId");--> statement-breakpoint
+CREATE UNIQUE INDEX "schedulesDefaultIndex" ON "schedules" USING btree ("clerkUserId") WHERE "isDefault";
\ No newline at end of file
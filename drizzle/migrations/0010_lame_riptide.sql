@@ -0,0 +1,2 @@
+ALTER TABLE "events" ADD COLUMN "questions" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "meetings" ADD COLUMN "answers" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TYPE "public"."locationType" AS ENUM('none', 'googleMeet', 'url', 'phone', 'inPerson', 'askGuest');--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "locationType" "locationType" DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "locationValue" text;--> statement-breakpoint
+ALTER TABLE "meetings" ADD COLUMN "location" text;--> statement-breakpoint
+ALTER TABLE "meetings" ADD COLUMN "conferenceUrl" text;
\ No newline at end of file
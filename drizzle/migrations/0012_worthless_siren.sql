@@ -0,0 +1,7 @@
+CREATE TYPE "public"."calendarProvider" AS ENUM('google', 'caldav');--> statement-breakpoint
+ALTER TABLE "meetings" RENAME COLUMN "googleEventId" TO "calendarEventId";--> statement-breakpoint
+ALTER TABLE "meetings" ADD COLUMN "calendarProvider" "calendarProvider" DEFAULT 'google' NOT NULL;--> statement-breakpoint
+ALTER TABLE "userSettings" ADD COLUMN "calendarProvider" "calendarProvider" DEFAULT 'google' NOT NULL;--> statement-breakpoint
+ALTER TABLE "userSettings" ADD COLUMN "caldavUrl" text;--> statement-breakpoint
+ALTER TABLE "userSettings" ADD COLUMN "caldavUsername" text;--> statement-breakpoint
+ALTER TABLE "userSettings" ADD COLUMN "caldavPassword" text;
\ No newline at end of file
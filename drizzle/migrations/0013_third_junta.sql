@@ -0,0 +1,3 @@
+ALTER TABLE "meetings" ADD COLUMN "calendarId" text;--> statement-breakpoint
+ALTER TABLE "userSettings" ADD COLUMN "googleBusyCalendarIds" text[];--> statement-breakpoint
+ALTER TABLE "userSettings" ADD COLUMN "googleBookingCalendarId" text;
\ No newline at end of file
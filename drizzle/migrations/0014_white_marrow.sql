@@ -0,0 +1,3 @@
+CREATE TYPE "public"."slotAlignment" AS ENUM('none', 'halfHour', 'hour');--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "slotIntervalInMinutes" integer DEFAULT 15 NOT NULL;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "slotAlignment" "slotAlignment" DEFAULT 'none' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,26 @@
+ALTER TABLE "events" ADD COLUMN "slug" text;--> statement-breakpoint
+DO $$
+DECLARE
+	item record;
+	candidate text;
+	suffix integer;
+BEGIN
+	-- Oldest events keep the plain slug; later ones get -2, -3, ... until the slug is free for that user
+	-- (also against suffixed slugs of other names, e.g. "Intro", "Intro" and "Intro 2")
+	FOR item IN
+		SELECT "id", "clerkUserId", coalesce(nullif(trim(both '-' from regexp_replace(lower("name"), '[^a-z0-9]+', '-', 'g')), ''), 'event') AS "base"
+		FROM "events" ORDER BY "createdAt", "id"
+	LOOP
+		candidate := item."base";
+		suffix := 1;
+		WHILE EXISTS (SELECT 1 FROM "events" WHERE "clerkUserId" = item."clerkUserId" AND "slug" = candidate) LOOP
+			suffix := suffix + 1;
+			candidate := item."base" || '-' || suffix;
+		END LOOP;
+		UPDATE "events" SET "slug" = candidate WHERE "id" = item."id";
+	END LOOP;
+END $$;--> statement-breakpoint
+ALTER TABLE "events" ALTER COLUMN "slug" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "userSettings" ADD COLUMN "username" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "eventsClerkUserIdSlugIndex" ON "events" USING btree ("clerkUserId","slug");--> statement-breakpoint
+ALTER TABLE "userSettings" ADD CONSTRAINT "userSettings_username_unique" UNIQUE("username");
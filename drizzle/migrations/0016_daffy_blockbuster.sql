@@ -0,0 +1,15 @@
+CREATE TABLE "bookingLinks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"eventId" uuid NOT NULL,
+	"clerkUserId" text NOT NULL,
+	"token" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "bookingLinks_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "isHidden" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "meetings" ADD COLUMN "bookingLinkId" uuid;--> statement-breakpoint
+ALTER TABLE "bookingLinks" ADD CONSTRAINT "bookingLinks_eventId_events_id_fk" FOREIGN KEY ("eventId") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bookingLinksEventIdIndex" ON "bookingLinks" USING btree ("eventId");--> statement-breakpoint
+ALTER TABLE "meetings" ADD CONSTRAINT "meetings_bookingLinkId_bookingLinks_id_fk" FOREIGN KEY ("bookingLinkId") REFERENCES "public"."bookingLinks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meetings" ADD CONSTRAINT "meetings_bookingLinkId_unique" UNIQUE("bookingLinkId");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TYPE "public"."meetingStatus" ADD VALUE 'pending' BEFORE 'confirmed';--> statement-breakpoint
+ALTER TYPE "public"."meetingStatus" ADD VALUE 'rejected';--> statement-breakpoint
+ALTER TYPE "public"."meetingStatus" ADD VALUE 'expired';--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "requiresConfirmation" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "meetings" ADD COLUMN "expiresAt" timestamp with time zone;
\ No newline at end of file
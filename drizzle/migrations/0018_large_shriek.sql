@@ -0,0 +1,11 @@
+CREATE TABLE "meetingReminders" (
+	"meetingId" uuid NOT NULL,
+	"offsetInMinutes" integer NOT NULL,
+	"sendAt" timestamp with time zone NOT NULL,
+	"sentAt" timestamp with time zone,
+	CONSTRAINT "meetingReminders_meetingId_offsetInMinutes_pk" PRIMARY KEY("meetingId","offsetInMinutes")
+);
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "reminderOffsetsInMinutes" integer[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "meetingReminders" ADD CONSTRAINT "meetingReminders_meetingId_meetings_id_fk" FOREIGN KEY ("meetingId") REFERENCES "public"."meetings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "meetingRemindersSendAtIndex" ON "meetingReminders" USING btree ("sendAt");
\ No newline at end of file
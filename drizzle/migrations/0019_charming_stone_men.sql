@@ -0,0 +1,20 @@
+CREATE TYPE "public"."jobStatus" AS ENUM('queued', 'running', 'completed', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."jobType" AS ENUM('sendMeetingEmails', 'expireBookingRequests', 'sendDueReminders');--> statement-breakpoint
+CREATE TABLE "jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" "jobType" NOT NULL,
+	"payload" jsonb NOT NULL,
+	"key" text,
+	"status" "jobStatus" DEFAULT 'queued' NOT NULL,
+	"runAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"maxAttempts" integer DEFAULT 5 NOT NULL,
+	"lockedUntil" timestamp with time zone,
+	"lastError" text,
+	"completedAt" timestamp with time zone,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "jobs_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+CREATE INDEX "jobsStatusRunAtIndex" ON "jobs" USING btree ("status","runAt");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "meetings" ADD COLUMN "sequence" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "userSettings" ADD COLUMN "calendarFeedToken" uuid;--> statement-breakpoint
+ALTER TABLE "userSettings" ADD CONSTRAINT "userSettings_calendarFeedToken_unique" UNIQUE("calendarFeedToken");
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TYPE "public"."webhookDeliveryStatus" AS ENUM('pending', 'succeeded', 'retrying', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."webhookTrigger" AS ENUM('BOOKING_CREATED', 'BOOKING_CANCELLED', 'BOOKING_RESCHEDULED');--> statement-breakpoint
+ALTER TYPE "public"."jobType" ADD VALUE 'deliverWebhook';--> statement-breakpoint
+CREATE TABLE "webhookDeliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"webhookId" uuid NOT NULL,
+	"trigger" "webhookTrigger" NOT NULL,
+	"changeId" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "webhookDeliveryStatus" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"responseStatus" integer,
+	"error" text,
+	"deliveredAt" timestamp with time zone,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "webhooks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerkUserId" text NOT NULL,
+	"url" text NOT NULL,
+	"secret" text NOT NULL,
+	"triggers" "webhookTrigger"[] NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhookDeliveries" ADD CONSTRAINT "webhookDeliveries_webhookId_webhooks_id_fk" FOREIGN KEY ("webhookId") REFERENCES "public"."webhooks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "webhookDeliveriesWebhookIdChangeIdIndex" ON "webhookDeliveries" USING btree ("webhookId","changeId");--> statement-breakpoint
+CREATE INDEX "webhookDeliveriesWebhookIdCreatedAtIndex" ON "webhookDeliveries" USING btree ("webhookId","createdAt");--> statement-breakpoint
+CREATE INDEX "webhooksClerkUserIdIndex" ON "webhooks" USING btree ("clerkUserId");
\ No newline at end of file
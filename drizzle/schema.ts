@@ -1,6 +1,10 @@
-import { DAYS_OF_WEEK_IN_ORDER } from "@/constants";
-import { relations } from "drizzle-orm";
-import { boolean, index, integer, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { BOOKING_WINDOW_TYPES, CALENDAR_PROVIDERS, DAYS_OF_WEEK_IN_ORDER, JOB_MAX_ATTEMPTS, JOB_STATUSES, JOB_TYPES, LOCATION_TYPES, MEETING_STATUSES, SLOT_ALIGNMENTS, WEBHOOK_DELIVERY_STATUSES, WEBHOOK_TRIGGERS } from "@/constants";
+import { relations, sql } from "drizzle-orm";
+import { boolean, date, index, integer, jsonb, pgEnum, pgTable, primaryKey, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import type { BookingQuestion } from "@/schema/events";
+import type { BookingAnswer } from "@/schema/meetings";
+import type { JobPayloads } from "@/server/jobs/types";
+import type { WebhookPayload } from "@/server/webhooks";
 
 
 // Define a reusable `createdAt` timestamp column with default value set to now
@@ -12,6 +16,35 @@ const updatedAt = timestamp("updatedAt")
   .defaultNow()
   .$onUpdate(() => new Date()) // automatically updates to current time on update
 
+// Define reusable booking limit columns (NULL means "no limit"), shared by events and host settings
+const bookingLimits = {
+  maxBookingsPerDay: integer("maxBookingsPerDay"), // most meetings per day
+  maxBookingsPerWeek: integer("maxBookingsPerWeek"), // most meetings per week (Monday to Sunday)
+  maxBookingsPerMonth: integer("maxBookingsPerMonth"), // most meetings per calendar month
+  maxBookedMinutesPerDay: integer("maxBookedMinutesPerDay"), // most minutes of meetings per day
+}
+
+// Define a PostgreSQL ENUM for how an event's booking window is defined
+export const bookingWindowTypeEnum = pgEnum("bookingWindowType", BOOKING_WINDOW_TYPES)
+
+// Define a PostgreSQL ENUM for which start times of an event are offered
+export const slotAlignmentEnum = pgEnum(
+  "slotAlignment",
+  SLOT_ALIGNMENTS.map(({ type }) => type) as [
+    (typeof SLOT_ALIGNMENTS)[number]["type"],
+    ...(typeof SLOT_ALIGNMENTS)[number]["type"][]
+  ]
+)
+
+// Define a PostgreSQL ENUM for where an event's meetings take place
+export const locationTypeEnum = pgEnum(
+  "locationType",
+  LOCATION_TYPES.map(({ type }) => type) as [
+    (typeof LOCATION_TYPES)[number]["type"],
+    ...(typeof LOCATION_TYPES)[number]["type"][]
+  ]
+)
+
 // Define the "events" table with fields like name, description, and duration
 export const EventTable = pgTable(
     "events", // table name in the database
@@ -24,31 +57,92 @@ export const EventTable = pgTable(
   
       // .defaultRandom(): Automatically fills this column with a randomly generated UUID (v4) if no value is provided.
       name: text("name").notNull(), // event name
+      slug: text("slug").notNull(), // part of the public booking URL (/username/slug), unique per host
       description: text("description"), // optional description
       durationInMinutes: integer("durationInMinutes").notNull(), // duration of the event
+      bufferBeforeInMinutes: integer("bufferBeforeInMinutes").notNull().default(0), // free time kept before each meeting
+      bufferAfterInMinutes: integer("bufferAfterInMinutes").notNull().default(0), // free time kept after each meeting
+      minimumNoticeInMinutes: integer("minimumNoticeInMinutes").notNull().default(0), // how long before a meeting it can still be booked
+      slotIntervalInMinutes: integer("slotIntervalInMinutes").notNull().default(15), // how far apart offered start times are (0 = the duration)
+      slotAlignment: slotAlignmentEnum("slotAlignment").notNull().default("none"), // only offer start times on the hour or half hour
+      bookingWindowType: bookingWindowTypeEnum("bookingWindowType").notNull().default("rolling"), // rolling number of days or fixed date range
+      bookingWindowInDays: integer("bookingWindowInDays").notNull().default(365), // rolling: how many days ahead can be booked
+      bookingWindowStartDate: date("bookingWindowStartDate"), // fixed: first day that can be booked (e.g. "2025-09-01")
+      bookingWindowEndDate: date("bookingWindowEndDate"), // fixed: last day that can be booked (e.g. "2025-09-30")
+      ...bookingLimits, // optional caps on how many meetings of this event can be booked
+      scheduleId: uuid("scheduleId") // availability schedule used for this event, NULL = the host's default schedule
+        .references(() => ScheduleTable.id, { onDelete: "set null" }), // fall back to the default schedule when it's deleted
+      locationType: locationTypeEnum("locationType").notNull().default("none"), // Google Meet, video link, phone, in person...
+      locationValue: text("locationValue"), // video call link or address, depending on the location type
+      questions: jsonb("questions").$type<BookingQuestion[]>().notNull().default([]), // custom questions guests answer when booking
       clerkUserId: text("clerkUserId").notNull(),// ID of the user who created it (from Clerk)
       isActive: boolean("isActive").notNull().default(true),// whether the event is currently active
+      isHidden: boolean("isHidden").notNull().default(false), // hidden events aren't listed on the profile but can still be booked by URL
+      requiresConfirmation: boolean("requiresConfirmation").notNull().default(false), // bookings wait for the host to accept them
+      reminderOffsetsInMinutes: integer("reminderOffsetsInMinutes").array().notNull().default([]), // reminder emails, e.g. [1440, 60] = a day and an hour before
       createdAt,// timestamp when event was created
       updatedAt,// timestamp when event was last updated
 
     },
     table => ([
         index("clerkUserIdIndex").on(table.clerkUserId),// index on clerkUserId for faster querying
+        uniqueIndex("eventsClerkUserIdSlugIndex").on(table.clerkUserId, table.slug), // a host can't reuse a slug
       ])
 )
 
-// Define the "schedules" table, one per user, with timezone and timestamps
-export const ScheduleTable = pgTable("schedules", {
+// Define relationships for the EventTable: an event has many booked meetings
+export const eventRelations = relations(EventTable, ({ one, many }) => ({
+  meetings: many(MeetingTable), // one-to-many relationship
+  bookingLinks: many(BookingLinkTable), // one-to-many relationship
+  schedule: one(ScheduleTable, {
+    fields: [EventTable.scheduleId], // local key
+    references: [ScheduleTable.id], // foreign key
+  }),
+}))
+
+// Define a PostgreSQL ENUM for the calendar a host's busy times and bookings live in
+export const calendarProviderEnum = pgEnum("calendarProvider", CALENDAR_PROVIDERS)
+
+// Define the "userSettings" table, one per user, for settings that apply to all of a host's events
+export const UserSettingsTable = pgTable("userSettings", {
+  id: uuid("id").primaryKey().defaultRandom(), // primary key with random UUID
+  clerkUserId: text("clerkUserId").notNull().unique(), // unique user ID from Clerk
+  username: text("username").unique(), // public profile URL (/username), NULL until the host picks one
+  ...bookingLimits, // caps on how many meetings can be booked with the host across all events
+  calendarProvider: calendarProviderEnum("calendarProvider").notNull().default("google"), // Google Calendar or a CalDAV server
+  caldavUrl: text("caldavUrl"), // URL of the CalDAV calendar collection (e.g. Fastmail, Nextcloud)
+  caldavUsername: text("caldavUsername"), // CalDAV login
+  caldavPassword: text("caldavPassword"), // CalDAV (app) password, encrypted (see server/secrets.ts) and never sent to the browser
+  googleBusyCalendarIds: text("googleBusyCalendarIds").array(), // Google calendars checked for conflicts (NULL = primary only)
+  googleBookingCalendarId: text("googleBookingCalendarId"), // Google calendar new bookings are written to (NULL = primary)
+  calendarFeedToken: uuid("calendarFeedToken").unique(), // secret in the URL of the host's iCal feed (NULL = feed turned off)
+  createdAt, // when the settings were created
+  updatedAt, // when the settings were last updated
+})
+
+// Define the "schedules" table: a user can have several named schedules, exactly one of them being the default
+export const ScheduleTable = pgTable(
+  "schedules",
+  {
     id: uuid("id").primaryKey().defaultRandom(),         // primary key with random UUID
+    name: text("name").notNull(),                        // schedule name (e.g. "Office hours")
     timezone: text("timezone").notNull(),                // user's timezone
-    clerkUserId: text("clerkUserId").notNull().unique(), // unique user ID from Clerk
+    isDefault: boolean("isDefault").notNull().default(false), // used by events that don't pick a schedule
+    clerkUserId: text("clerkUserId").notNull(),          // user ID from Clerk
     createdAt,                                           // when the schedule was created
     updatedAt,                                           // when the schedule was last updated
-  })
+  },
+  table => ([
+    index("schedulesClerkUserIdIndex").on(table.clerkUserId), // index on clerkUserId for faster querying
+    uniqueIndex("schedulesDefaultIndex").on(table.clerkUserId).where(sql`"isDefault"`), // at most one default per user
+  ])
+)
 
     // Define relationships for the ScheduleTable: a schedule has many availabilities
     export const scheduleRelations = relations(ScheduleTable, ({ many }) => ({
     availabilities: many(ScheduleAvailabilityTable), // one-to-many relationship
+    overrides: many(ScheduleDateOverrideTable), // one-to-many relationship
+    events: many(EventTable), // events using this schedule
   }))
 
 
@@ -82,4 +176,257 @@ export const ScheduleAvailabilityRelations = relations(
         references: [ScheduleTable.id], // foreign key
       }),
     })
-  )
\ No newline at end of file
+  )
+
+
+// Define the "scheduleDateOverrides" table, which replaces the weekly availabilities on specific dates
+// A date can have several rows with time ranges, or a single row without times meaning "unavailable all day"
+export const ScheduleDateOverrideTable = pgTable(
+  "scheduleDateOverrides",
+  {
+    id: uuid("id").primaryKey().defaultRandom(), // unique ID
+    scheduleId: uuid("scheduleId") // foreign key to the Schedule table
+      .notNull()
+      .references(() => ScheduleTable.id, { onDelete: "cascade" }), // cascade delete when schedule is deleted
+    date: date("date").notNull(), // day the override applies to, in the schedule's timezone (e.g. "2025-12-24")
+    startTime: text("startTime"), // start of the available range (e.g. "13:00"), NULL for a day off
+    endTime: text("endTime"), // end of the available range (e.g. "15:00"), NULL for a day off
+  },
+  table => ([
+    index("scheduleDateOverridesScheduleIdIndex").on(table.scheduleId), // index on foreign key for faster lookups
+  ])
+)
+
+// Define the reverse relation: each date override belongs to a schedule
+export const ScheduleDateOverrideRelations = relations(
+  ScheduleDateOverrideTable,
+  ({ one }) => ({
+    schedule: one(ScheduleTable, {
+      fields: [ScheduleDateOverrideTable.scheduleId], // local key
+      references: [ScheduleTable.id], // foreign key
+    }),
+  })
+)
+
+
+// Define a PostgreSQL ENUM for the status of a booked meeting
+export const meetingStatusEnum = pgEnum("meetingStatus", MEETING_STATUSES)
+
+// Define the "meetings" table, which stores every booking made through Calendify
+// This is our own source of truth, independent of what happens to the Google Calendar event
+export const MeetingTable = pgTable(
+  "meetings",
+  {
+    id: uuid("id").primaryKey().defaultRandom(), // unique ID
+    eventId: uuid("eventId") // foreign key to the Event table
+      .notNull()
+      .references(() => EventTable.id, { onDelete: "cascade" }), // cascade delete when the event is deleted
+    clerkUserId: text("clerkUserId").notNull(), // ID of the host the meeting was booked with (from Clerk)
+    guestName: text("guestName").notNull(), // name of the guest who booked
+    guestEmail: text("guestEmail").notNull(), // email of the guest who booked
+    guestNotes: text("guestNotes"), // optional notes left by the guest
+    answers: jsonb("answers").$type<BookingAnswer[]>().notNull().default([]), // answers to the event's custom questions
+    location: text("location"), // where the meeting takes place: link, address or the guest's phone number
+    conferenceUrl: text("conferenceUrl"), // Google Meet link created with the calendar event
+    startTime: timestamp("startTime", { withTimezone: true }).notNull(), // when the meeting starts (UTC)
+    endTime: timestamp("endTime", { withTimezone: true }).notNull(), // when the meeting ends (UTC)
+    timezone: text("timezone").notNull(), // timezone the guest booked in (e.g. "Europe/Berlin")
+    status: meetingStatusEnum("status").notNull().default("confirmed"), // current status of the meeting (ENUM)
+    calendarProvider: calendarProviderEnum("calendarProvider").notNull().default("google"), // calendar the event below was created in
+    calendarEventId: text("calendarEventId"), // ID of the matching calendar event, if one was created
+    calendarId: text("calendarId"), // Google calendar holding that event (NULL = primary)
+    manageToken: uuid("manageToken").notNull().unique().defaultRandom(), // secret token in the guest's cancel/reschedule link
+    bookingLinkId: uuid("bookingLinkId") // single-use link the meeting was booked through, if any
+      .unique() // a single-use link can only ever book one meeting
+      .references(() => BookingLinkTable.id, { onDelete: "set null" }),
+    cancellationReason: text("cancellationReason"), // why the meeting was cancelled (if it was)
+    cancelledAt: timestamp("cancelledAt", { withTimezone: true }), // when the meeting was cancelled (if it was)
+    expiresAt: timestamp("expiresAt", { withTimezone: true }), // when a pending request expires if the host doesn't answer
+    sequence: integer("sequence").notNull().default(0), // iCalendar SEQUENCE, bumped whenever the time or status changes
+    createdAt, // when the meeting was booked
+    updatedAt, // when the meeting was last updated
+  },
+  table => ([
+    index("meetingsClerkUserIdStartTimeIndex").on(table.clerkUserId, table.startTime), // fast lookups of a host's meetings by date
+    index("meetingsEventIdIndex").on(table.eventId), // index on foreign key for faster lookups
+  ])
+)
+
+// Define the reverse relation: each meeting belongs to an event (and may hold a slot reservation)
+export const MeetingRelations = relations(MeetingTable, ({ one, many }) => ({
+  event: one(EventTable, {
+    fields: [MeetingTable.eventId], // local key
+    references: [EventTable.id], // foreign key
+  }),
+  reservation: one(SlotReservationTable),
+  reminders: many(MeetingReminderTable),
+  bookingLink: one(BookingLinkTable, {
+    fields: [MeetingTable.bookingLinkId], // local key
+    references: [BookingLinkTable.id], // foreign key
+  }),
+}))
+
+// Define the "slotReservations" table, which locks a host's time range while a meeting holds it
+// A Postgres exclusion constraint (see the "slot_reservation_exclusion" migration) makes it impossible
+// for two reservations of the same host to overlap, so concurrent bookings of one slot can't both succeed
+export const SlotReservationTable = pgTable("slotReservations", {
+  meetingId: uuid("meetingId") // the meeting holding the slot (one reservation per meeting)
+    .primaryKey()
+    .references(() => MeetingTable.id, { onDelete: "cascade" }), // cascade delete when the meeting is deleted
+  clerkUserId: text("clerkUserId").notNull(), // host whose time is reserved
+  startTime: timestamp("startTime", { withTimezone: true }).notNull(), // start of the reserved range
+  endTime: timestamp("endTime", { withTimezone: true }).notNull(), // end of the reserved range (exclusive)
+})
+
+// Define the reverse relation: each reservation belongs to a meeting
+export const SlotReservationRelations = relations(SlotReservationTable, ({ one }) => ({
+  meeting: one(MeetingTable, {
+    fields: [SlotReservationTable.meetingId], // local key
+    references: [MeetingTable.id], // foreign key
+  }),
+}))
+
+
+// Define the "bookingLinks" table: single-use links to an event, used up by the first meeting booked through them
+export const BookingLinkTable = pgTable(
+  "bookingLinks",
+  {
+    id: uuid("id").primaryKey().defaultRandom(), // unique ID
+    eventId: uuid("eventId") // foreign key to the Event table
+      .notNull()
+      .references(() => EventTable.id, { onDelete: "cascade" }), // cascade delete when the event is deleted
+    clerkUserId: text("clerkUserId").notNull(), // ID of the host who created the link (from Clerk)
+    token: uuid("token").notNull().unique().defaultRandom(), // secret token in the link's URL
+    createdAt, // when the link was created
+  },
+  table => ([
+    index("bookingLinksEventIdIndex").on(table.eventId), // index on foreign key for faster lookups
+  ])
+)
+
+// Define the reverse relations: each link belongs to an event and books at most one meeting
+export const BookingLinkRelations = relations(BookingLinkTable, ({ one }) => ({
+  event: one(EventTable, {
+    fields: [BookingLinkTable.eventId], // local key
+    references: [EventTable.id], // foreign key
+  }),
+  meeting: one(MeetingTable),
+}))
+
+
+// Define the "meetingReminders" table: the reminder emails of a confirmed meeting, one per offset of its event.
+// Rows are (re)created when a meeting is confirmed or moved and marked as sent once their email went out.
+export const MeetingReminderTable = pgTable(
+  "meetingReminders",
+  {
+    meetingId: uuid("meetingId") // foreign key to the Meeting table
+      .notNull()
+      .references(() => MeetingTable.id, { onDelete: "cascade" }), // cascade delete when the meeting is deleted
+    offsetInMinutes: integer("offsetInMinutes").notNull(), // how long before the meeting the reminder is sent
+    sendAt: timestamp("sendAt", { withTimezone: true }).notNull(), // when the reminder is due
+    sentAt: timestamp("sentAt", { withTimezone: true }), // when it was sent (NULL = not yet)
+  },
+  table => ([
+    primaryKey({ columns: [table.meetingId, table.offsetInMinutes] }), // one reminder per offset
+    index("meetingRemindersSendAtIndex").on(table.sendAt), // fast lookups of due reminders
+  ])
+)
+
+// Define the reverse relation: each reminder belongs to a meeting
+export const MeetingReminderRelations = relations(MeetingReminderTable, ({ one }) => ({
+  meeting: one(MeetingTable, {
+    fields: [MeetingReminderTable.meetingId], // local key
+    references: [MeetingTable.id], // foreign key
+  }),
+}))
+
+
+// Define Postgres enums for the kinds of background jobs and their states
+export const jobTypeEnum = pgEnum("jobType", JOB_TYPES)
+export const jobStatusEnum = pgEnum("jobStatus", JOB_STATUSES)
+
+// Define the "jobs" table: the queue of background work (emails, expiring requests, reminders...).
+// Workers claim due jobs with FOR UPDATE SKIP LOCKED, so several of them never run the same job.
+export const JobTable = pgTable(
+  "jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(), // unique ID for each job
+    type: jobTypeEnum("type").notNull(), // what to do, see server/jobs/handlers.ts
+    payload: jsonb("payload").$type<JobPayloads[keyof JobPayloads]>().notNull(), // input of the job
+    key: text("key").unique(), // idempotency key: a job with the same key is only ever queued once
+    status: jobStatusEnum("status").notNull().default("queued"),
+    runAt: timestamp("runAt", { withTimezone: true }).notNull().defaultNow(), // not run before this (moved back after a failure)
+    attempts: integer("attempts").notNull().default(0), // how often it was picked up so far
+    maxAttempts: integer("maxAttempts").notNull().default(JOB_MAX_ATTEMPTS), // marked as failed after this many
+    lockedUntil: timestamp("lockedUntil", { withTimezone: true }), // while running: when another worker may take it over
+    lastError: text("lastError"), // message of the last failed attempt
+    completedAt: timestamp("completedAt", { withTimezone: true }),
+    createdAt, // when the job was queued
+    updatedAt, // when the job last changed
+  },
+  table => ([
+    index("jobsStatusRunAtIndex").on(table.status, table.runAt), // fast lookups of due jobs
+  ])
+)
+
+
+// Define Postgres enums for the booking changes webhooks subscribe to and the states of their calls
+export const webhookTriggerEnum = pgEnum(
+  "webhookTrigger",
+  WEBHOOK_TRIGGERS.map(({ type }) => type) as [
+    (typeof WEBHOOK_TRIGGERS)[number]["type"],
+    ...(typeof WEBHOOK_TRIGGERS)[number]["type"][]
+  ]
+)
+export const webhookDeliveryStatusEnum = pgEnum("webhookDeliveryStatus", WEBHOOK_DELIVERY_STATUSES)
+
+// Define the "webhooks" table: URLs a host wants Calendify to call when their bookings change (e.g. a CRM)
+export const WebhookTable = pgTable("webhooks", {
+  id: uuid("id").primaryKey().defaultRandom(), // unique ID for each webhook
+  clerkUserId: text("clerkUserId").notNull(), // ID of the host who set it up (from Clerk)
+  url: text("url").notNull(), // where the POST requests are sent
+  secret: text("secret").notNull(), // key of the HMAC signature, so the receiver can check requests come from Calendify (encrypted, see server/secrets.ts)
+  triggers: webhookTriggerEnum("triggers").array().notNull(), // booking changes that are sent
+  createdAt, // when the webhook was set up
+  updatedAt, // when the webhook was last updated
+}, table => ([
+  index("webhooksClerkUserIdIndex").on(table.clerkUserId), // fast lookups of a host's webhooks
+]))
+
+// Define the "webhookDeliveries" table: the log of every booking change sent to a webhook,
+// with the outcome of the last attempt (retries happen through the job queue)
+export const WebhookDeliveryTable = pgTable(
+  "webhookDeliveries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(), // unique ID, sent along in the X-Calendify-Delivery header
+    webhookId: uuid("webhookId") // foreign key to the Webhook table
+      .notNull()
+      .references(() => WebhookTable.id, { onDelete: "cascade" }), // cascade delete when the webhook is deleted
+    trigger: webhookTriggerEnum("trigger").notNull(), // which booking change it reports
+    changeId: text("changeId").notNull(), // ID of the booking change, the same for every webhook it is sent to
+    payload: jsonb("payload").$type<WebhookPayload>().notNull(), // exact JSON body, kept so every retry sends the same
+    status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0), // how often it was sent so far
+    responseStatus: integer("responseStatus"), // HTTP status of the last attempt (NULL = no response, e.g. a timeout)
+    error: text("error"), // why the last attempt failed, if it did
+    deliveredAt: timestamp("deliveredAt", { withTimezone: true }), // when the receiver accepted it
+    createdAt, // when the booking change happened
+    updatedAt, // when the delivery was last attempted
+  },
+  table => ([
+    uniqueIndex("webhookDeliveriesWebhookIdChangeIdIndex").on(table.webhookId, table.changeId), // one delivery per change and webhook
+    index("webhookDeliveriesWebhookIdCreatedAtIndex").on(table.webhookId, table.createdAt), // the log, newest first
+  ])
+)
+
+// Define relations: a webhook has many deliveries, each delivery belongs to a webhook
+export const WebhookRelations = relations(WebhookTable, ({ many }) => ({
+  deliveries: many(WebhookDeliveryTable),
+}))
+
+export const WebhookDeliveryRelations = relations(WebhookDeliveryTable, ({ one }) => ({
+  webhook: one(WebhookTable, {
+    fields: [WebhookDeliveryTable.webhookId], // local key
+    references: [WebhookTable.id], // foreign key
+  }),
+}))
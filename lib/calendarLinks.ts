@@ -0,0 +1,46 @@
+import { formatICalDate } from "./ical"
+
+// An event to add to someone's calendar through an "Add to calendar" link
+export type CalendarLinkEvent = {
+  title: string
+  start: Date
+  end: Date
+  description?: string
+  location?: string | null
+}
+
+// Google Calendar's event template, e.g. https://calendar.google.com/calendar/render?action=TEMPLATE&...
+export function getGoogleCalendarUrl({ title, start, end, description, location }: CalendarLinkEvent): string {
+  const url = new URL("https://calendar.google.com/calendar/render")
+  url.searchParams.set("action", "TEMPLATE")
+  url.searchParams.set("text", title)
+  url.searchParams.set("dates", `${formatICalDate(start)}/${formatICalDate(end)}`)
+  if (description) url.searchParams.set("details", description)
+  if (location) url.searchParams.set("location", location)
+  return url.toString()
+}
+
+// Outlook.com's compose page (works for personal Microsoft accounts; work accounts use the same path on outlook.office.com)
+export function getOutlookCalendarUrl({ title, start, end, description, location }: CalendarLinkEvent): string {
+  const url = new URL("https://outlook.live.com/calendar/0/deeplink/compose")
+  url.searchParams.set("path", "/calendar/action/compose")
+  url.searchParams.set("rru", "addevent")
+  url.searchParams.set("subject", title)
+  url.searchParams.set("startdt", start.toISOString())
+  url.searchParams.set("enddt", end.toISOString())
+  if (description) url.searchParams.set("body", description)
+  if (location) url.searchParams.set("location", location)
+  return url.toString()
+}
+
+// Yahoo Calendar's add-event page
+export function getYahooCalendarUrl({ title, start, end, description, location }: CalendarLinkEvent): string {
+  const url = new URL("https://calendar.yahoo.com/")
+  url.searchParams.set("v", "60")
+  url.searchParams.set("title", title)
+  url.searchParams.set("st", formatICalDate(start))
+  url.searchParams.set("et", formatICalDate(end))
+  if (description) url.searchParams.set("desc", description)
+  if (location) url.searchParams.set("in_loc", location)
+  return url.toString()
+}
@@ -56,4 +56,47 @@ export function formatEventDescription(durationInMinutes: number) : string {
     // Format a Date object into a readable date + time string
     export function formatDateTime(date: Date) {
       return dateTimeFormatter.format(date)
-    }
\ No newline at end of file
+    }
+
+    // Format a guest's answer to a custom booking question, e.g. "Team size: 11-50" or "Accept terms: Yes"
+    export function formatBookingAnswer({ label, value }: { label: string; value: string | boolean }) {
+      const answer = typeof value === "boolean" ? (value ? "Yes" : "No") : value
+      return `${label}: ${answer}`
+    }
+
+
+    // Describe an event's location setting for guests on the booking page (null when there's nothing to say)
+    export function formatEventLocation({ locationType, locationValue }: { locationType: string; locationValue: string | null }) {
+      switch (locationType) {
+        case "googleMeet":
+          return "Google Meet (the link is sent with your invite)"
+        case "url":
+          return "Video call (the link is sent with your invite)"
+        case "phone":
+          return "Phone call (you'll be asked for your number)"
+        case "inPerson":
+          return `In person: ${locationValue}`
+        case "askGuest":
+          return "You'll be asked where to meet"
+        default:
+          return null
+      }
+    }
+
+
+    // Build the description of a booked meeting's calendar event: guest notes, answers and the self-service link
+    export function formatCalendarEventDescription({
+      guestNotes,
+      answers = [],
+      manageUrl,
+    }: {
+      guestNotes?: string | null
+      answers?: { label: string; value: string | boolean }[]
+      manageUrl?: string
+    }) {
+      return [
+        guestNotes ? `Additional Details: ${guestNotes}` : "No additional details.",
+        answers.length > 0 && answers.map(formatBookingAnswer).join("\n"), // One "Question: answer" line per answered question
+        manageUrl && `Need to make a change? Cancel or reschedule here: ${manageUrl}`, // Self-service link for the guest
+      ].filter(Boolean).join("\n\n")
+    }
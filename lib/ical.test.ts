@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest"
+import { buildICalendar, parseICalEvents } from "./ical"
+
+const event = {
+  uid: "meeting-1@calendify",
+  start: new Date("2025-03-14T09:00:00Z"),
+  end: new Date("2025-03-14T09:30:00Z"),
+  summary: "Intro call",
+}
+
+// Content lines of a file, with folded lines joined back together
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, "").split("\r\n")
+}
+
+describe("buildICalendar", () => {
+  it("quotes CN parameters instead of escaping them", () => {
+    const ics = buildICalendar([
+      {
+        ...event,
+        organizer: { name: "Doe, Jane: CEO", email: "a@b.c" },
+        attendees: [{ name: 'Sam "The Guest"; Jr.', email: "guest@example.com" }],
+      },
+    ])
+    const lines = unfold(ics)
+
+    expect(lines).toContain('ORGANIZER;CN="Doe, Jane: CEO":mailto:a@b.c')
+    expect(lines).toContain(`ATTENDEE;CN="Sam 'The Guest'; Jr.";ROLE=REQ-PARTICIPANT:mailto:guest@example.com`)
+  })
+
+  it("reads quoted parameters back", () => {
+    const ics = buildICalendar([{ ...event, attendees: [{ name: "Doe; Jane", email: "Jane@Example.com" }] }])
+      .replace("ROLE=REQ-PARTICIPANT", "PARTSTAT=DECLINED")
+
+    expect(parseICalEvents(ics)[0].declinedBy).toEqual(["jane@example.com"])
+  })
+
+  it("folds lines at 75 octets without splitting characters", () => {
+    const summary = "Kaffee ☕ mit 😀 ".repeat(10)
+    const ics = buildICalendar([{ ...event, summary }])
+    const lines = ics.split("\r\n")
+
+    lines.forEach(line => {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75)
+      expect(line).not.toMatch(/[\uD800-\uDBFF]$|^ ?[\uDC00-\uDFFF]/) // no surrogate pair cut in half
+    })
+    expect(unfold(ics)).toContain(`SUMMARY:${summary}`)
+  })
+})
@@ -0,0 +1,291 @@
+import { addDays, addSeconds } from "date-fns"
+import { fromZonedTime } from "date-fns-tz"
+
+// Minimal iCalendar (RFC 5545) helpers: just enough to write the events Calendify creates
+// and to read busy times back from CalDAV servers.
+
+// A single event to write into an iCalendar file
+export type ICalEvent = {
+  uid: string // Stable, globally unique ID of the event
+  sequence?: number // Revision number, bumped whenever the event changes
+  start: Date
+  end: Date
+  summary: string // Title
+  description?: string
+  location?: string | null
+  organizer?: { name: string; email: string }
+  attendees?: { name: string; email: string }[]
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED"
+  url?: string // Page with more about the event (e.g. where it can be changed)
+  alarms?: number[] // Reminders shown by the calendar app, in minutes before the start
+}
+
+// An event read back from a calendar
+export type ParsedICalEvent = {
+  uid: string | undefined
+  start: Date
+  end: Date
+  allDay: boolean // Date-only event (DTSTART;VALUE=DATE)
+  transparent: boolean // TRANSP:TRANSPARENT, i.e. shown as "free"
+  cancelled: boolean // STATUS:CANCELLED
+  declinedBy: string[] // Emails of the attendees with PARTSTAT=DECLINED (lowercase)
+}
+
+// Escape commas, semicolons, backslashes and new lines in text values
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n")
+}
+
+// Parameter values (like CN) can't be backslash-escaped, so they are always quoted (names may contain ":", ";" or ",").
+// Quoted values can't contain double quotes or control characters, so those are replaced.
+function quoteParam(value: string): string {
+  return `"${value.replace(/"/g, "'").replace(/[\x00-\x1f\x7f]+/g, " ")}"`
+}
+
+// Number of octets a code point takes up in UTF-8
+function utf8Length(codePoint: number): number {
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4
+}
+
+// Lines longer than 75 octets (in UTF-8) are folded onto continuation lines starting with a space.
+// Lines are cut between code points, so multi-byte characters and surrogate pairs (emoji) stay whole.
+function foldLine(line: string): string {
+  const chunks: string[] = []
+  let chunk = ""
+  let octets = 0
+
+  for (const char of line) {
+    const length = utf8Length(char.codePointAt(0)!)
+    // Continuation lines have one octet less room because of their leading space
+    if (octets + length > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(chunk)
+      chunk = ""
+      octets = 0
+    }
+    chunk += char
+    octets += length
+  }
+  chunks.push(chunk)
+
+  return chunks.join("\r\n ")
+}
+
+// Formats a date as a UTC date-time, e.g. "20250314T093000Z"
+export function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+// Builds the VEVENT lines for one event
+function buildEventLines(event: ICalEvent): string[] {
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `DTSTAMP:${formatICalDate(new Date())}`,
+    `DTSTART:${formatICalDate(event.start)}`,
+    `DTEND:${formatICalDate(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.organizer
+      ? [`ORGANIZER;CN=${quoteParam(event.organizer.name)}:mailto:${event.organizer.email}`]
+      : []),
+    ...(event.attendees ?? []).map(
+      attendee => `ATTENDEE;CN=${quoteParam(attendee.name)};ROLE=REQ-PARTICIPANT:mailto:${attendee.email}`
+    ),
+    ...(event.status ? [`STATUS:${event.status}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    ...(event.alarms ?? []).flatMap(minutes => [
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `TRIGGER:-PT${minutes}M`,
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      "END:VALARM",
+    ]),
+    "END:VEVENT",
+  ]
+}
+
+// Builds a complete iCalendar file (with CRLF line endings) for the given events.
+// Subscribed feeds can pass a calendar name and how often calendar apps should check for changes.
+export function buildICalendar(
+  events: ICalEvent[],
+  { name, refreshIntervalInMinutes }: { name?: string; refreshIntervalInMinutes?: number } = {}
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Calendify//Calendify//EN",
+    "CALSCALE:GREGORIAN",
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...(refreshIntervalInMinutes
+      ? [`REFRESH-INTERVAL;VALUE=DURATION:PT${refreshIntervalInMinutes}M`, `X-PUBLISHED-TTL:PT${refreshIntervalInMinutes}M`]
+      : []),
+    ...events.flatMap(buildEventLines),
+    "END:VCALENDAR",
+  ]
+
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
+
+// A content line split into its name, parameters and value, e.g. DTSTART;TZID=Europe/Berlin:20250314T093000
+type ContentLine = {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+// Undo line folding and split the file into content lines
+function parseContentLines(ics: string): ContentLine[] {
+  return ics
+    .replace(/\r?\n[ \t]/g, "") // unfold continuation lines
+    .split(/\r?\n/)
+    .filter(line => line.includes(":"))
+    .map(line => {
+      // The value starts after the first colon that isn't inside a quoted parameter
+      let inQuotes = false
+      let separator = -1
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes
+        if (line[i] === ":" && !inQuotes) {
+          separator = i
+          break
+        }
+      }
+
+      // Parameters are separated by semicolons, which quoted values (e.g. CN="Doe; Jane") may contain too
+      const head = line.slice(0, separator)
+      const name = head.split(";")[0]
+      return {
+        name: name.toUpperCase(),
+        params: Object.fromEntries(
+          [...head.slice(name.length).matchAll(/;([^=;]+)=("[^"]*"|[^;]*)/g)].map(([, key, value]) => [
+            key.toUpperCase(),
+            value.replace(/^"|"$/g, ""),
+          ])
+        ),
+        value: line.slice(separator + 1),
+      }
+    })
+}
+
+// Reads a DATE or DATE-TIME value, honouring a TZID parameter.
+// Dates and floating times have no timezone of their own, so they are read in `timezone`.
+function parseICalDate({ params, value }: ContentLine, timezone: string): { date: Date; allDay: boolean } {
+  const day = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`
+
+  if (params.VALUE === "DATE" || /^\d{8}$/.test(value)) {
+    return { date: fromZonedTime(`${day}T00:00:00`, timezone), allDay: true }
+  }
+
+  const local = `${day}T${value.slice(9, 11)}:${value.slice(11, 13)}:${value.slice(13, 15)}`
+  if (value.endsWith("Z")) return { date: new Date(`${local}Z`), allDay: false }
+
+  return { date: fromZonedTime(local, params.TZID ?? timezone), allDay: false }
+}
+
+// Reads a DURATION value like "PT1H30M" or "P1D" as a number of seconds
+function parseDuration(value: string): number {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) return 0
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const total =
+    Number(weeks ?? 0) * 7 * 24 * 3600 +
+    Number(days ?? 0) * 24 * 3600 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0)
+
+  return sign === "-" ? -total : total
+}
+
+// Reads the start, end and free/busy flags of every VEVENT in an iCalendar file, with all-day events
+// and floating times laid out in `timezone`.
+// Recurring events are not expanded here: CalDAV servers do that when asked with <C:expand>.
+export function parseICalEvents(ics: string, timezone = "UTC"): ParsedICalEvent[] {
+  const events: ParsedICalEvent[] = []
+  let current: ContentLine[] | undefined
+
+  parseContentLines(ics).forEach(line => {
+    if (line.name === "BEGIN" && line.value === "VEVENT") {
+      current = []
+      return
+    }
+
+    if (line.name === "END" && line.value === "VEVENT" && current) {
+      const eventLines = current
+      const props = new Map(eventLines.map(prop => [prop.name, prop]))
+      current = undefined
+
+      const dtstart = props.get("DTSTART")
+      if (!dtstart) return
+
+      const { date: start, allDay } = parseICalDate(dtstart, timezone)
+      const dtend = props.get("DTEND")
+      const duration = props.get("DURATION")
+
+      // Without an end, an event lasts for its DURATION, or one day (date) / no time at all (date-time)
+      const end = dtend
+        ? parseICalDate(dtend, timezone).date
+        : duration
+          ? addSeconds(start, parseDuration(duration.value))
+          : allDay ? addDays(start, 1) : start
+
+      events.push({
+        uid: props.get("UID")?.value,
+        start,
+        end,
+        allDay,
+        transparent: props.get("TRANSP")?.value.toUpperCase() === "TRANSPARENT",
+        cancelled: props.get("STATUS")?.value.toUpperCase() === "CANCELLED",
+        // ATTENDEE can appear many times, so look at all of them rather than the map above
+        declinedBy: eventLines
+          .filter(prop => prop.name === "ATTENDEE" && prop.params.PARTSTAT?.toUpperCase() === "DECLINED")
+          .map(prop => prop.value.replace(/^mailto:/i, "").toLowerCase()),
+      })
+      return
+    }
+
+    current?.push(line)
+  })
+
+  return events
+}
+
+// Moves an existing event to a new time, keeping everything else and bumping its SEQUENCE
+export function rescheduleICalEvent(ics: string, start: Date, end: Date): string {
+  const lines = ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/).filter(line => line !== "")
+  let inEvent = false
+  let hasSequence = false
+
+  const updated = lines.flatMap(line => {
+    if (line === "BEGIN:VEVENT") inEvent = true
+    if (line === "END:VEVENT") {
+      inEvent = false
+      return [
+        `DTEND:${formatICalDate(end)}`, // replaces the old DTEND or DURATION
+        // Events without a SEQUENCE start at 0, so the moved one is revision 1
+        ...(hasSequence ? [] : ["SEQUENCE:1"]),
+        line,
+      ]
+    }
+    if (!inEvent) return [line]
+
+    const name = line.split(/[;:]/)[0].toUpperCase()
+    if (name === "DTSTART") return [`DTSTART:${formatICalDate(start)}`]
+    if (name === "DTEND" || name === "DURATION") return []
+    if (name === "DTSTAMP") return [`DTSTAMP:${formatICalDate(new Date())}`]
+    if (name === "SEQUENCE") {
+      hasSequence = true
+      return [`SEQUENCE:${Number(line.split(":")[1] ?? 0) + 1}`]
+    }
+    return [line]
+  })
+
+  return updated.map(foldLine).join("\r\n") + "\r\n"
+}
@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest"
+import {
+  addBuffers,
+  filterTimesInWindows,
+  getAvailabilityWindows,
+  getBookingTotals,
+  getBookingWindow,
+  getMonthRange,
+  getSlotStarts,
+  groupTimesByDay,
+  isInBookingWindow,
+  isWithinBookingLimits,
+  subtractIntervals,
+  type BookingLimits,
+} from "./scheduling"
+
+// A time on Friday, 14 March 2025 (UTC), e.g. at("09:30")
+const at = (time: string) => new Date(`2025-03-14T${time}:00Z`)
+const range = (start: string, end: string) => ({ start: at(start), end: at(end) })
+
+describe("getAvailabilityWindows", () => {
+  const weekdays = { startTime: "09:00", endTime: "17:00" }
+
+  it("reads each day's hours in the schedule's timezone, also across a DST change", () => {
+    const windows = getAvailabilityWindows(
+      { monday: [weekdays], tuesday: [weekdays], friday: [weekdays] },
+      {
+        "2025-03-30": [{ startTime: "01:00", endTime: "04:00" }], // Clocks go from 2:00 to 3:00 that night
+        "2025-03-31": [{ startTime: null, endTime: null }], // Day off
+      },
+      { start: new Date("2025-03-28T00:00:00Z"), end: new Date("2025-04-01T12:00:00Z") },
+      "Europe/Berlin"
+    )
+
+    expect(windows).toEqual([
+      { start: new Date("2025-03-28T08:00:00Z"), end: new Date("2025-03-28T16:00:00Z") }, // CET, UTC+1
+      { start: new Date("2025-03-30T00:00:00Z"), end: new Date("2025-03-30T02:00:00Z") }, // Only two real hours
+      { start: new Date("2025-04-01T07:00:00Z"), end: new Date("2025-04-01T15:00:00Z") }, // CEST, UTC+2
+    ])
+  })
+
+  it("sorts a day's hours, also when they aren't zero-padded", () => {
+    const windows = getAvailabilityWindows(
+      { friday: [{ startTime: "13:00", endTime: "17:00" }, { startTime: "9:00", endTime: "12:00" }] },
+      {},
+      range("00:00", "23:00"),
+      "UTC"
+    )
+
+    expect(windows).toEqual([range("09:00", "12:00"), range("13:00", "17:00")])
+  })
+})
+
+describe("getSlotStarts", () => {
+  it("offers a start time every interval, as long as the whole meeting fits", () => {
+    const slots = getSlotStarts([range("09:00", "10:00")], { durationInMinutes: 30, slotIntervalInMinutes: 15, slotAlignment: "none" }, "UTC")
+
+    expect(slots).toEqual([at("09:00"), at("09:15"), at("09:30")])
+  })
+
+  it("uses the duration when there is no interval", () => {
+    const slots = getSlotStarts([range("09:00", "10:00")], { durationInMinutes: 30, slotIntervalInMinutes: 0, slotAlignment: "none" }, "UTC")
+
+    expect(slots).toEqual([at("09:00"), at("09:30")])
+  })
+
+  it("only keeps times on the hour when aligned to it", () => {
+    const slots = getSlotStarts([range("09:10", "12:00")], { durationInMinutes: 30, slotIntervalInMinutes: 20, slotAlignment: "hour" }, "UTC")
+
+    expect(slots).toEqual([at("10:00"), at("11:00")])
+  })
+
+  it("aligns to the hour in the schedule's timezone", () => {
+    // India is 5:30 ahead of UTC: 9:00 to 11:30 there
+    const slots = getSlotStarts([range("03:30", "06:00")], { durationInMinutes: 30, slotIntervalInMinutes: 30, slotAlignment: "hour" }, "Asia/Kolkata")
+
+    expect(slots).toEqual([at("03:30"), at("04:30"), at("05:30")])
+  })
+
+  it("keeps times on the half hour when aligned to it", () => {
+    const slots = getSlotStarts([range("09:05", "11:00")], { durationInMinutes: 30, slotIntervalInMinutes: 15, slotAlignment: "halfHour" }, "UTC")
+
+    expect(slots).toEqual([at("09:30"), at("10:00"), at("10:30")])
+  })
+})
+
+describe("subtractIntervals", () => {
+  it("keeps windows that busy ranges only touch", () => {
+    expect(subtractIntervals([range("09:00", "12:00")], [range("08:00", "09:00"), range("12:00", "13:00")]))
+      .toEqual([range("09:00", "12:00")])
+  })
+
+  it("merges overlapping and touching busy ranges", () => {
+    const busy = [range("10:30", "11:00"), range("09:30", "10:00"), range("09:45", "10:30")]
+
+    expect(subtractIntervals([range("09:00", "12:00")], busy)).toEqual([range("09:00", "09:30"), range("11:00", "12:00")])
+  })
+
+  it("cuts a busy range out of every window it reaches", () => {
+    expect(subtractIntervals([range("09:00", "12:00"), range("13:00", "17:00")], [range("11:00", "14:00")]))
+      .toEqual([range("09:00", "11:00"), range("14:00", "17:00")])
+  })
+
+  it("leaves nothing of a window that is busy all along", () => {
+    expect(subtractIntervals([range("09:00", "12:00")], [range("08:00", "13:00")])).toEqual([])
+  })
+})
+
+describe("filterTimesInWindows", () => {
+  it("keeps the times whose whole meeting fits in one window", () => {
+    const times = ["09:00", "09:30", "09:45", "10:30", "11:00", "11:30"].map(at)
+
+    expect(filterTimesInWindows(times, [range("09:00", "10:00"), range("11:00", "12:00")], 30))
+      .toEqual(["09:00", "09:30", "11:00", "11:30"].map(at))
+  })
+})
+
+describe("buffers", () => {
+  it("keep the time before and after each meeting free", () => {
+    const event = { durationInMinutes: 30, slotIntervalInMinutes: 15, slotAlignment: "none" as const }
+    const buffers = { bufferBeforeInMinutes: 10, bufferAfterInMinutes: 15 }
+    const windows = [range("09:00", "12:00")]
+
+    const blocked = addBuffers([range("10:00", "11:00")], buffers)
+    expect(blocked).toEqual([range("09:45", "11:10")])
+
+    const free = subtractIntervals(windows, blocked)
+    // 9:15 ends with its buffer exactly when the busy range starts, 11:15 starts its buffer exactly when it ends
+    expect(filterTimesInWindows(getSlotStarts(windows, event, "UTC"), free, event.durationInMinutes))
+      .toEqual(["09:00", "09:15", "11:15", "11:30"].map(at))
+  })
+})
+
+describe("getBookingWindow", () => {
+  const fixed = {
+    minimumNoticeInMinutes: 120,
+    bookingWindowType: "fixed" as const,
+    bookingWindowInDays: 365,
+    bookingWindowStartDate: "2025-09-01",
+    bookingWindowEndDate: "2025-09-30",
+  }
+
+  it("runs a fixed window to the end of its last day in the host's timezone", () => {
+    const window = getBookingWindow(fixed, "Europe/Berlin", new Date("2025-08-01T00:00:00Z"))
+
+    expect(window).toEqual({ start: new Date("2025-08-31T22:00:00Z"), end: new Date("2025-09-30T22:00:00Z") })
+    expect(isInBookingWindow(new Date("2025-09-30T21:45:00Z"), window)).toBe(true) // 23:45 on the last day
+    expect(isInBookingWindow(new Date("2025-09-30T22:00:00Z"), window)).toBe(false) // Midnight after it
+  })
+
+  it("starts a fixed window no earlier than the minimum notice", () => {
+    const window = getBookingWindow(fixed, "Europe/Berlin", new Date("2025-09-10T10:00:00Z"))
+
+    expect(window.start).toEqual(new Date("2025-09-10T12:00:00Z"))
+  })
+
+  it("rolls a window a number of days ahead of now", () => {
+    const window = getBookingWindow({ ...fixed, bookingWindowType: "rolling", bookingWindowInDays: 30 }, "UTC", at("09:00"))
+
+    expect(window).toEqual({ start: at("11:00"), end: new Date("2025-04-13T09:00:00Z") })
+  })
+})
+
+describe("isWithinBookingLimits", () => {
+  const noLimits: BookingLimits = { maxBookingsPerDay: null, maxBookingsPerWeek: null, maxBookingsPerMonth: null, maxBookedMinutesPerDay: null }
+  const timezone = "Europe/Berlin"
+  // Friday, 14 March in Berlin: 10:00-11:00 and 23:30-24:00 (which is still the 14th there)
+  const totals = getBookingTotals([range("09:00", "10:00"), range("22:30", "23:00")], timezone)
+  const isWithin = (time: string, limits: Partial<BookingLimits>, durationInMinutes = 30) =>
+    isWithinBookingLimits(new Date(time), durationInMinutes, { ...noLimits, ...limits }, totals, timezone)
+
+  it("caps the meetings of a day, which ends at midnight in the host's timezone", () => {
+    expect(isWithin("2025-03-14T12:00:00Z", { maxBookingsPerDay: 2 })).toBe(false)
+    expect(isWithin("2025-03-14T22:59:00Z", { maxBookingsPerDay: 2 })).toBe(false)
+    expect(isWithin("2025-03-14T23:00:00Z", { maxBookingsPerDay: 2 })).toBe(true) // Saturday in Berlin
+    expect(isWithin("2025-03-14T12:00:00Z", { maxBookingsPerDay: 3 })).toBe(true)
+  })
+
+  it("caps the minutes of a day, up to and including the limit", () => {
+    expect(isWithin("2025-03-14T12:00:00Z", { maxBookedMinutesPerDay: 120 }, 30)).toBe(true)
+    expect(isWithin("2025-03-14T12:00:00Z", { maxBookedMinutesPerDay: 120 }, 31)).toBe(false)
+  })
+
+  it("caps the meetings of an ISO week, from Monday to Sunday", () => {
+    expect(isWithin("2025-03-16T22:30:00Z", { maxBookingsPerWeek: 2 })).toBe(false) // Sunday 23:30 in Berlin
+    expect(isWithin("2025-03-16T23:00:00Z", { maxBookingsPerWeek: 2 })).toBe(true) // Monday 0:00
+  })
+
+  it("caps the meetings of a month", () => {
+    expect(isWithin("2025-03-31T21:59:00Z", { maxBookingsPerMonth: 2 })).toBe(false) // 31 March 23:59 (summer time)
+    expect(isWithin("2025-03-31T22:00:00Z", { maxBookingsPerMonth: 2 })).toBe(true) // 1 April 0:00
+  })
+})
+
+describe("months and days in the guest's timezone", () => {
+  it("cuts a month at midnight, also when the clocks change in it", () => {
+    expect(getMonthRange("2025-03", "Europe/Berlin")).toEqual({
+      start: new Date("2025-02-28T23:00:00Z"),
+      end: new Date("2025-03-31T22:00:00Z"),
+    })
+  })
+
+  it("groups times by their day", () => {
+    expect(groupTimesByDay([at("22:30"), at("23:30"), new Date("2025-03-15T08:00:00Z")], "Europe/Berlin")).toEqual({
+      "2025-03-14": [at("22:30")],
+      "2025-03-15": [at("23:30"), new Date("2025-03-15T08:00:00Z")],
+    })
+  })
+})
@@ -0,0 +1,296 @@
+import type { DAYS_OF_WEEK_IN_ORDER } from "@/constants"
+import type { EventTable, ScheduleAvailabilityTable, ScheduleDateOverrideTable } from "@/drizzle/schema"
+import { addDays, addMinutes, addMonths, differenceInMinutes, format, max, parseISO } from "date-fns"
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz"
+
+// The event settings that limit how early and how far ahead a meeting can be booked
+type BookingWindowSettings = Pick<
+  typeof EventTable.$inferSelect,
+  | "minimumNoticeInMinutes"
+  | "bookingWindowType"
+  | "bookingWindowInDays"
+  | "bookingWindowStartDate"
+  | "bookingWindowEndDate"
+>
+
+// Works out the range of start times a guest may book for an event right now.
+// Fixed dates are whole days in the host's timezone, so the end is the start of the day after the last day.
+export function getBookingWindow(
+  event: BookingWindowSettings,
+  timezone: string, // Host's schedule timezone
+  now: Date = new Date()
+): { start: Date; end: Date } {
+  // Nothing can be booked closer to now than the minimum notice
+  const earliestStart = addMinutes(now, event.minimumNoticeInMinutes)
+
+  if (
+    event.bookingWindowType === "fixed" &&
+    event.bookingWindowStartDate &&
+    event.bookingWindowEndDate
+  ) {
+    return {
+      start: max([earliestStart, fromZonedTime(event.bookingWindowStartDate, timezone)]),
+      end: addDays(fromZonedTime(event.bookingWindowEndDate, timezone), 1),
+    }
+  }
+
+  // Rolling window: from the minimum notice up to N days from now
+  return {
+    start: earliestStart,
+    end: addDays(now, event.bookingWindowInDays),
+  }
+}
+
+// Checks if a meeting starting at `date` falls inside a booking window (start inclusive, end exclusive)
+export function isInBookingWindow(date: Date, window: { start: Date; end: Date }): boolean {
+  return date.getTime() >= window.start.getTime() && date.getTime() < window.end.getTime()
+}
+
+
+// Caps on the number of meetings (or meeting minutes) per period; null means "no limit"
+export type BookingLimits = {
+  maxBookingsPerDay: number | null
+  maxBookingsPerWeek: number | null
+  maxBookingsPerMonth: number | null
+  maxBookedMinutesPerDay: number | null
+}
+
+// Number of meetings and meeting minutes already booked, keyed by day, week and month
+export type BookingTotals = Map<string, { count: number; minutes: number }>
+
+// Checks if any of the limits is actually set (only the limit fields are read, other properties are ignored)
+export function hasBookingLimits(limits: BookingLimits): boolean {
+  return (
+    limits.maxBookingsPerDay != null ||
+    limits.maxBookingsPerWeek != null ||
+    limits.maxBookingsPerMonth != null ||
+    limits.maxBookedMinutesPerDay != null
+  )
+}
+
+// Keys of the day, week and month a date falls in, in the given timezone.
+// The three formats never collide, so they can share a single totals map.
+function getPeriodKeys(date: Date, timezone: string) {
+  return {
+    day: formatInTimeZone(date, timezone, "yyyy-MM-dd"), // e.g. "2025-03-14"
+    week: formatInTimeZone(date, timezone, "RRRR-'W'II"), // ISO week, starting on Monday, e.g. "2025-W11"
+    month: formatInTimeZone(date, timezone, "yyyy-MM"), // e.g. "2025-03"
+  }
+}
+
+// Adds up existing bookings per day, week and month (in the host's timezone)
+export function getBookingTotals(
+  bookings: { start: Date; end: Date }[],
+  timezone: string
+): BookingTotals {
+  const totals: BookingTotals = new Map()
+
+  bookings.forEach(booking => {
+    const minutes = differenceInMinutes(booking.end, booking.start)
+
+    Object.values(getPeriodKeys(booking.start, timezone)).forEach(key => {
+      const total = totals.get(key) ?? { count: 0, minutes: 0 }
+      totals.set(key, { count: total.count + 1, minutes: total.minutes + minutes })
+    })
+  })
+
+  return totals
+}
+
+// Checks if one more meeting starting at `date` would still respect every limit
+export function isWithinBookingLimits(
+  date: Date,
+  durationInMinutes: number,
+  limits: BookingLimits,
+  totals: BookingTotals,
+  timezone: string
+): boolean {
+  const { day, week, month } = getPeriodKeys(date, timezone)
+  const getTotal = (key: string) => totals.get(key) ?? { count: 0, minutes: 0 }
+
+  if (limits.maxBookingsPerDay != null && getTotal(day).count >= limits.maxBookingsPerDay) return false
+  if (limits.maxBookingsPerWeek != null && getTotal(week).count >= limits.maxBookingsPerWeek) return false
+  if (limits.maxBookingsPerMonth != null && getTotal(month).count >= limits.maxBookingsPerMonth) return false
+  if (
+    limits.maxBookedMinutesPerDay != null &&
+    getTotal(day).minutes + durationInMinutes > limits.maxBookedMinutesPerDay
+  ) return false
+
+  return true
+}
+
+
+// A time range with a start and an end
+export type TimeInterval = { start: Date; end: Date }
+
+// Weekly availabilities grouped by day of the week, and date overrides grouped by date ("2025-12-24")
+type GroupedAvailabilities = Partial<
+  Record<(typeof DAYS_OF_WEEK_IN_ORDER)[number], Pick<typeof ScheduleAvailabilityTable.$inferSelect, "startTime" | "endTime">[]>
+>
+type GroupedOverrides = Partial<
+  Record<string, Pick<typeof ScheduleDateOverrideTable.$inferSelect, "startTime" | "endTime">[]>
+>
+
+// Lists the available time ranges of every day between `start` and `end` (in the schedule's timezone),
+// in order. Date overrides win over the weekly template for their date.
+export function getAvailabilityWindows(
+  groupedAvailabilities: GroupedAvailabilities,
+  groupedOverrides: GroupedOverrides,
+  { start, end }: TimeInterval,
+  timezone: string
+): TimeInterval[] {
+  const windows: TimeInterval[] = []
+
+  // Walk the calendar days as plain dates, so DST changes can't skip or repeat a day
+  const lastDay = formatInTimeZone(end, timezone, "yyyy-MM-dd")
+  for (
+    let day = new Date(`${formatInTimeZone(start, timezone, "yyyy-MM-dd")}T00:00:00Z`);
+    day.toISOString().slice(0, 10) <= lastDay;
+    day = addDays(day, 1)
+  ) {
+    const dateKey = day.toISOString().slice(0, 10)
+    const dayOfWeek = formatInTimeZone(day, "UTC", "EEEE").toLowerCase() as (typeof DAYS_OF_WEEK_IN_ORDER)[number]
+
+    const dayAvailabilities = groupedOverrides[dateKey] ?? groupedAvailabilities[dayOfWeek] ?? []
+
+    dayAvailabilities
+      // An override without times blocks the whole day
+      .flatMap(({ startTime, endTime }) => (startTime == null || endTime == null ? [] : [{ startTime, endTime }]))
+      .sort((a, b) => a.startTime.padStart(5, "0").localeCompare(b.startTime.padStart(5, "0")))
+      .forEach(({ startTime, endTime }) => {
+        // Combine the day and a time like "9:30" into "2025-12-24T09:30", read in the schedule's timezone
+        windows.push({
+          start: fromZonedTime(`${dateKey}T${startTime.padStart(5, "0")}`, timezone),
+          end: fromZonedTime(`${dateKey}T${endTime.padStart(5, "0")}`, timezone),
+        })
+      })
+  }
+
+  return windows
+}
+
+// The event settings that decide which start times are offered
+type SlotSettings = Pick<typeof EventTable.$inferSelect, "durationInMinutes" | "slotIntervalInMinutes" | "slotAlignment">
+
+// Lists the start times an event offers inside ordered availability windows: every `slotIntervalInMinutes`
+// (or the duration) from the start of each window, as long as the whole meeting fits in the window.
+// With an alignment, the grid starts at the first time on the hour (or half hour) in the schedule's timezone
+// and only times on the hour (or half hour) are kept.
+export function getSlotStarts(
+  windows: TimeInterval[],
+  event: SlotSettings,
+  timezone: string
+): Date[] {
+  const interval = event.slotIntervalInMinutes || event.durationInMinutes
+  const alignment = event.slotAlignment === "hour" ? 60 : event.slotAlignment === "halfHour" ? 30 : null
+  const slots: Date[] = []
+
+  windows.forEach(window => {
+    let start = window.start
+
+    if (alignment != null) {
+      // Move to the next time on the hour (or half hour), e.g. 9:10 -> 9:30
+      const minute = Number(formatInTimeZone(start, timezone, "m"))
+      start = addMinutes(start, (alignment - (minute % alignment)) % alignment)
+    }
+
+    for (
+      let offset = 0;
+      addMinutes(start, offset + event.durationInMinutes).getTime() <= window.end.getTime();
+      offset += interval
+    ) {
+      // Skip the times of the grid that fall between the hours (e.g. 9:20 with a 20-minute interval)
+      if (alignment != null && offset % alignment !== 0) continue
+      slots.push(addMinutes(start, offset))
+    }
+  })
+
+  return slots
+}
+
+// Widens busy ranges by an event's buffers, so a meeting that doesn't overlap the widened ranges keeps
+// its own buffers free: the "after" buffer goes before each range, the "before" buffer after it
+export function addBuffers(
+  busy: TimeInterval[],
+  { bufferBeforeInMinutes, bufferAfterInMinutes }: Pick<typeof EventTable.$inferSelect, "bufferBeforeInMinutes" | "bufferAfterInMinutes">
+): TimeInterval[] {
+  return busy.map(range => ({
+    start: addMinutes(range.start, -bufferAfterInMinutes),
+    end: addMinutes(range.end, bufferBeforeInMinutes),
+  }))
+}
+
+// Removes the busy ranges from a list of ordered, non-overlapping windows, leaving the free parts.
+// Ranges that only touch stay free: a meeting may end exactly when the next busy range starts.
+// Runs in O((windows + busy) log busy) instead of comparing every window with every busy range.
+export function subtractIntervals(windows: TimeInterval[], busy: TimeInterval[]): TimeInterval[] {
+  // Merge overlapping busy ranges so each window is walked through only once
+  const merged: TimeInterval[] = []
+  ;[...busy]
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .forEach(range => {
+      const last = merged.at(-1)
+      if (last && range.start.getTime() <= last.end.getTime()) {
+        if (range.end.getTime() > last.end.getTime()) last.end = range.end
+      } else {
+        merged.push({ ...range })
+      }
+    })
+
+  const free: TimeInterval[] = []
+  let index = 0
+
+  windows.forEach(window => {
+    // Busy ranges ending before this window can't affect it, nor any later window
+    while (index < merged.length && merged[index].end.getTime() < window.start.getTime()) index++
+
+    let start = window.start
+    for (let i = index; i < merged.length && merged[i].start.getTime() <= window.end.getTime(); i++) {
+      const range = merged[i]
+      // Only a strict overlap takes time away (a zero-length busy range still splits the window)
+      if (range.start.getTime() >= start.getTime() && range.start.getTime() <= window.end.getTime()) {
+        free.push({ start, end: range.start })
+      }
+      if (range.end.getTime() > start.getTime()) start = range.end
+      if (start.getTime() > window.end.getTime()) break
+    }
+
+    if (start.getTime() <= window.end.getTime()) free.push({ start, end: window.end })
+  })
+
+  // Drop the empty pieces left where a busy range started exactly at the window's start
+  return free.filter(range => range.end.getTime() > range.start.getTime())
+}
+
+// Keeps the start times (in order) of meetings that fit entirely inside one of the ordered, non-overlapping
+// free windows. Both lists are walked once, together.
+export function filterTimesInWindows(
+  timesInOrder: Date[],
+  windows: TimeInterval[],
+  durationInMinutes: number
+): Date[] {
+  let index = 0
+
+  return timesInOrder.filter(time => {
+    const end = addMinutes(time, durationInMinutes)
+
+    // Windows ending before this meeting ends are too early for it and for every later one
+    while (index < windows.length && windows[index].end.getTime() < end.getTime()) index++
+
+    const window = windows[index]
+    return window != null && window.start.getTime() <= time.getTime()
+  })
+}
+
+// A month as a guest sees it ("2025-03"): from midnight on the 1st to midnight on the 1st of the next month
+export function getMonthRange(month: string, timezone: string): TimeInterval {
+  return {
+    start: fromZonedTime(`${month}-01T00:00`, timezone),
+    end: fromZonedTime(`${format(addMonths(parseISO(`${month}-01`), 1), "yyyy-MM")}-01T00:00`, timezone),
+  }
+}
+
+// Groups start times by day ("2025-03-14") in a timezone, leaving out days without any
+export function groupTimesByDay(times: Date[], timezone: string): Record<string, Date[]> {
+  return Object.groupBy(times, time => formatInTimeZone(time, timezone, "yyyy-MM-dd")) as Record<string, Date[]>
+}
@@ -15,4 +15,37 @@ export function timeToFloat(time: string): number {
 
   // Convert minutes into a fraction of an hour and add it to the hour
   return hours + minutes / 60
-}
\ No newline at end of file
+}
+
+
+// Turns a path like "/book/manage/123" into a full URL that can be shared outside the app (calendar invites, emails...)
+// The public base URL comes from NEXT_PUBLIC_APP_URL and falls back to the local dev server
+export function absoluteUrl(path: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000"
+  return new URL(path, baseUrl).toString()
+}
+
+
+// Turns a name like "Intro Call (30 min)" into a URL-friendly slug like "intro-call-30-min"
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // drop accents: "café" -> "cafe"
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+
+// Public path of a host's profile: "/username", or the old ID-based path for hosts who haven't picked a username
+export function getProfilePath(host: { clerkUserId: string; username?: string | null }): string {
+  return host.username ? `/${host.username}` : `/book/${host.clerkUserId}`
+}
+
+// Public path of an event's booking page: "/username/slug", or the old ID-based path without a username
+export function getEventPath(
+  host: { clerkUserId: string; username?: string | null },
+  event: { id: string; slug: string }
+): string {
+  return host.username ? `/${host.username}/${event.slug}` : `/book/${host.clerkUserId}/${event.id}`
+}
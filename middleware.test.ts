@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server"
+import { describe, expect, it, vi } from "vitest"
+
+// The handler is called as it is, with a stand-in for Clerk's auth(); route matching is Clerk's own
+vi.mock("@clerk/nextjs/server", async importOriginal => ({
+  ...(await importOriginal<typeof import("@clerk/nextjs/server")>()),
+  clerkMiddleware: (handler: unknown) => handler,
+}))
+
+const { default: middleware } = await import("./middleware")
+
+// Whether the middleware asks for a signed-in user on a path
+async function isProtected(path: string): Promise<boolean> {
+  const protect = vi.fn()
+  const handler = middleware as unknown as (auth: { protect: () => void }, req: NextRequest) => Promise<void>
+  await handler({ protect }, new NextRequest(`http://localhost${path}`))
+  return protect.mock.calls.length > 0
+}
+
+describe("middleware", () => {
+  it.each([
+    "/",
+    "/login",
+    "/register/verify",
+    "/book/manage/00000000-0000-0000-0000-000000000000",
+    "/jane-doe",
+    "/jane-doe/intro-call",
+    "/Jane-Doe/",
+    "/api/calendar-feed/token.ics",
+    "/api/cron/jobs",
+    "/api/meetings/token/ics",
+  ])("lets anyone open %s", async path => {
+    expect(await isProtected(path)).toBe(false)
+  })
+
+  it.each([
+    "/events",
+    "/events/new",
+    "/meetings",
+    "/schedule",
+    "/schedule/new",
+    "/settings",
+    "/settings/webhooks",
+    "/jane-doe/intro-call/edit", // Deeper than a booking URL
+    "/api/something-new",
+    "/trpc/anything",
+  ])("asks for a login on %s", async path => {
+    expect(await isProtected(path)).toBe(true)
+  })
+})
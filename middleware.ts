@@ -1,10 +1,23 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
+import { RESERVED_USERNAMES } from '@/constants';
+
+// The readable booking URLs, /username and /username/event-slug. Reserved names are the app's own
+// routes, so e.g. /settings/... never counts as a host's profile.
+const BOOKING_URL = new RegExp(
+    `^/(?!(?:${RESERVED_USERNAMES.join("|")})(?:/|$))[a-z0-9]+(?:-[a-z0-9]+)*(?:/[a-z0-9]+(?:-[a-z0-9]+)*)?/?$`,
+    "i"
+)
 
 const isPublicRoute = createRouteMatcher([
     "/",
     "/login(.*)",
     "/register(.*)",
     "/book(.*)",
+    BOOKING_URL,
+    // Routes that check a secret of their own
+    "/api/calendar-feed(.*)", // The feed token
+    "/api/cron(.*)", // CRON_SECRET
+    "/api/meetings(.*)", // The guest's manage token
 ])
 
     export default clerkMiddleware(async (auth, req) => {
@@ -21,4 +34,4 @@ export const config = {
     // Always run for API routes
     '/(api|trpc)(.*)',
   ],
-};
\ No newline at end of file
+};
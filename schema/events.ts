@@ -1,15 +1,76 @@
+import { BOOKING_QUESTION_TYPES, BOOKING_WINDOW_TYPES, LOCATION_TYPES, MAX_BOOKING_QUESTIONS, MAX_BOOKING_WINDOW_IN_DAYS, MAX_BUFFER_IN_MINUTES, REMINDER_OPTIONS, SLOT_ALIGNMENTS, SLOT_INTERVAL_OPTIONS } from "@/constants";
 import { z } from "zod";
+import { bookingLimitsSchema } from "./settings";
+
+// Lowercase letters, digits and single dashes between them, e.g. "intro-call"
+export const slugSchema = z
+  .string()
+  .min(1, "Required")
+  .max(60, "Must be at most 60 characters")
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and dashes");
+
+// Schema for one custom question a guest answers when booking the event
+export const bookingQuestionSchema = z
+  .object({
+    // Stable ID the guest's answer is stored under, so questions can be renamed or reordered
+    id: z.string().min(1),
+
+    // The question shown to the guest (e.g. "Company name")
+    label: z.string().trim().min(1, "Required"),
+
+    // What kind of input the guest gets
+    type: z.enum(BOOKING_QUESTION_TYPES.map(({ type }) => type) as [
+      (typeof BOOKING_QUESTION_TYPES)[number]["type"],
+      ...(typeof BOOKING_QUESTION_TYPES)[number]["type"][]
+    ]),
+
+    // Whether the guest has to answer it (for a checkbox: has to tick it)
+    required: z.boolean(),
+
+    // Choices for dropdown and multiple choice questions (ignored for the other types)
+    options: z.array(z.string()),
+  })
+  // Dropdown and multiple choice questions need something to choose from
+  .superRefine((question, ctx) => {
+    if (
+      (question.type === "select" || question.type === "radio") &&
+      !question.options.some(option => option.trim() !== "")
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Add at least one option",
+        path: ["options"],
+      })
+    }
+  })
+
+export type BookingQuestion = z.infer<typeof bookingQuestionSchema>
 
 // Define a validation schema for the event form using Zod
-export const eventFormSchema = z.object({
+export const eventFormSchema = z
+  .object({
     // 'name' must be a string and is required (at least 1 character)
     name: z.string().min(1, "Required"),
+
+    // 'slug' is the event's part of the booking URL (/username/slug)
+    slug: slugSchema,
   
     // 'description' is an optional string field
     description: z.string().optional(),
   
     // 'isActive' is a boolean value that defaults to true if not provided
     isActive: z.boolean(),
+
+    // 'isHidden' keeps the event off the public profile, its booking URL still works
+    isHidden: z.boolean(),
+
+    // 'requiresConfirmation' makes bookings wait for the host to accept them
+    requiresConfirmation: z.boolean(),
+
+    // 'reminderOffsetsInMinutes' are the reminder emails sent before each meeting (only the offered options)
+    reminderOffsetsInMinutes: z
+      .array(z.number().refine(minutes => REMINDER_OPTIONS.some(option => option.minutes === minutes), "Invalid reminder"))
+      .refine(offsets => new Set(offsets).size === offsets.length, "Pick each reminder only once"),
   
     // 'durationInMinutes' will be coerced (converted) to a number
     // It must be an integer, greater than 0, and less than or equal to 720 (12 hours)
@@ -18,4 +79,127 @@ export const eventFormSchema = z.object({
       .int()
       .positive("Duration must be greater than 0")
       .max(60 * 12, `Duration must be less than 12 hours (${60 * 12} minutes)`),
-})
\ No newline at end of file
+
+    // Buffers are coerced to whole minutes between 0 and MAX_BUFFER_IN_MINUTES
+    // 'bufferBeforeInMinutes' keeps the host free for a while before each meeting
+    bufferBeforeInMinutes: z.coerce
+      .number()
+      .int()
+      .min(0, "Buffer can't be negative")
+      .max(MAX_BUFFER_IN_MINUTES, `Buffer must be at most ${MAX_BUFFER_IN_MINUTES} minutes`),
+
+    // 'bufferAfterInMinutes' keeps the host free for a while after each meeting
+    bufferAfterInMinutes: z.coerce
+      .number()
+      .int()
+      .min(0, "Buffer can't be negative")
+      .max(MAX_BUFFER_IN_MINUTES, `Buffer must be at most ${MAX_BUFFER_IN_MINUTES} minutes`),
+
+    // 'minimumNoticeInMinutes' is how long in advance a guest has to book (0 = no minimum)
+    minimumNoticeInMinutes: z.coerce
+      .number()
+      .int()
+      .min(0, "Minimum notice can't be negative"),
+
+    // 'slotIntervalInMinutes' is how far apart the offered start times are (0 = the event's duration)
+    slotIntervalInMinutes: z.coerce
+      .number()
+      .int()
+      .refine(
+        minutes => SLOT_INTERVAL_OPTIONS.some(option => option.minutes === minutes),
+        "Pick one of the offered intervals"
+      ),
+
+    // 'slotAlignment' limits start times to the top (or half) of the hour
+    slotAlignment: z.enum(SLOT_ALIGNMENTS.map(({ type }) => type) as [
+      (typeof SLOT_ALIGNMENTS)[number]["type"],
+      ...(typeof SLOT_ALIGNMENTS)[number]["type"][]
+    ]),
+
+    // 'bookingWindowType' decides which of the fields below limits how far ahead guests can book
+    bookingWindowType: z.enum(BOOKING_WINDOW_TYPES),
+
+    // 'bookingWindowInDays' (rolling window) is how many days into the future can be booked
+    bookingWindowInDays: z.coerce
+      .number()
+      .int()
+      .positive("Must be at least 1 day")
+      .max(MAX_BOOKING_WINDOW_IN_DAYS, `Must be at most ${MAX_BOOKING_WINDOW_IN_DAYS} days`),
+
+    // 'bookingWindowStartDate' and 'bookingWindowEndDate' (fixed window) are days in the format YYYY-MM-DD
+    // They are optional here and only required when the window type is "fixed" (see below)
+    bookingWindowStartDate: z.string().optional(),
+    bookingWindowEndDate: z.string().optional(),
+
+    // 'scheduleId' is the availability schedule guests can book against (null = the host's default schedule)
+    scheduleId: z.string().uuid().nullable(),
+
+    // 'locationType' is where meetings take place
+    locationType: z.enum(LOCATION_TYPES.map(({ type }) => type) as [
+      (typeof LOCATION_TYPES)[number]["type"],
+      ...(typeof LOCATION_TYPES)[number]["type"][]
+    ]),
+
+    // 'locationValue' is the video call link or the address, depending on the location type
+    locationValue: z.string().optional(),
+
+    // 'questions' are the extra questions guests answer when booking, on top of name, email and notes
+    questions: z
+      .array(bookingQuestionSchema)
+      .max(MAX_BOOKING_QUESTIONS, `At most ${MAX_BOOKING_QUESTIONS} questions`),
+})
+  // Optional caps on how many meetings of this event can be booked
+  .merge(bookingLimitsSchema)
+  // A video call link has to be a URL and an in-person meeting needs an address
+  .superRefine((event, ctx) => {
+    if (event.locationType === "url" && !z.string().url().safeParse(event.locationValue).success) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Must be a valid URL",
+        path: ["locationValue"],
+      })
+    }
+
+    if (event.locationType === "inPerson" && !event.locationValue?.trim()) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Required",
+        path: ["locationValue"],
+      })
+    }
+  })
+  // A fixed booking window needs a valid start and end date, in the right order
+  .superRefine((event, ctx) => {
+    if (event.bookingWindowType !== "fixed") return
+
+    const dateSchema = z.string().date()
+
+    if (!dateSchema.safeParse(event.bookingWindowStartDate).success) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Required",
+        path: ["bookingWindowStartDate"],
+      })
+    }
+
+    if (!dateSchema.safeParse(event.bookingWindowEndDate).success) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Required",
+        path: ["bookingWindowEndDate"],
+      })
+    }
+
+    // YYYY-MM-DD strings sort the same way as the dates they represent
+    if (
+      event.bookingWindowStartDate &&
+      event.bookingWindowEndDate &&
+      event.bookingWindowEndDate < event.bookingWindowStartDate
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        message: "End date must be after start date",
+        path: ["bookingWindowEndDate"],
+      })
+    }
+  })
@@ -1,5 +1,76 @@
+import { LOCATION_TYPES, MEETING_TABS } from "@/constants"
 import { startOfDay } from "date-fns"
 import { z } from "zod"
+import type { BookingQuestion } from "./events"
+
+// Answers to an event's custom questions, keyed by question ID (checkboxes are booleans, everything else a string)
+export type BookingAnswers = Record<string, string | boolean>
+
+// A guest's answer as stored with the meeting: the question's label is copied so it still reads right if the question changes later
+export type BookingAnswer = {
+  questionId: string
+  label: string
+  value: string | boolean
+}
+
+// Phone numbers: digits with the usual separators and an optional leading "+"
+const phoneNumberSchema = z.string().trim().regex(/^\+?[0-9\s\-().]{7,20}$/, "Must be a valid phone number")
+
+// Builds the schema for the answers to an event's custom questions.
+// Used by the booking form in the browser and again by `createMeeting` on the server.
+export function buildAnswersSchema(questions: BookingQuestion[]): z.ZodType<BookingAnswers> {
+  const shape: Record<string, z.ZodTypeAny> = {}
+
+  questions.forEach(question => {
+    // A checkbox is either ticked or not; a required one has to be ticked (e.g. accepting terms)
+    if (question.type === "checkbox") {
+      shape[question.id] = question.required
+        ? z.literal(true, { errorMap: () => ({ message: "Required" }) })
+        : z.boolean()
+      return
+    }
+
+    let answer: z.ZodTypeAny
+    switch (question.type) {
+      case "select":
+      case "radio": {
+        // The answer has to be one of the host's options
+        const options = question.options.filter(option => option.trim() !== "")
+        answer = z.string().refine(value => options.includes(value), "Pick one of the options")
+        break
+      }
+      case "phone":
+        // Digits with the usual separators and an optional leading "+"
+        answer = phoneNumberSchema
+        break
+      case "url":
+        answer = z.string().trim().url("Must be a valid URL")
+        break
+      default:
+        answer = z.string().trim().min(1, "Required")
+    }
+
+    // Optional questions may also be left empty
+    shape[question.id] = question.required ? answer : answer.or(z.literal(""))
+  })
+
+  return z.object(shape)
+}
+
+// Builds the schema for what the guest has to tell about the meeting's location:
+// their phone number for phone calls, where to meet when the host asks, nothing otherwise
+export function buildGuestLocationSchema(
+  locationType: (typeof LOCATION_TYPES)[number]["type"]
+): z.ZodType<string | undefined> {
+  switch (locationType) {
+    case "phone":
+      return phoneNumberSchema
+    case "askGuest":
+      return z.string().trim().min(1, "Required")
+    default:
+      return z.string().optional()
+  }
+}
 
 // Base schema used for both creating and processing a meeting
 const meetingSchemaBase = z.object({
@@ -17,6 +88,12 @@ const meetingSchemaBase = z.object({
 
   // 'timezone' must be a non-empty string (e.g., "UTC", "America/New_York", etc.)
   timezone: z.string().min(1, "Required"),
+
+  // 'answers' to the event's custom questions; checked against the event's questions with buildAnswersSchema
+  answers: z.record(z.string(), z.union([z.string(), z.boolean()])),
+
+  // 'guestLocation' is the guest's phone number or preferred place, when the event's location needs one
+  guestLocation: z.string().optional(),
 })
 
 // Schema for validating the meeting form input
@@ -36,6 +113,102 @@ export const meetingActionSchema = z
 
     // 'clerkUserId' is required and must be a non-empty string
     clerkUserId: z.string().min(1, "Required"),
+
+    // 'bookingLinkToken' is set when the guest books through a single-use link
+    bookingLinkToken: z.string().uuid().optional(),
   })
   // Combine with the base schema to include time, guest info, and timezone
-  .merge(meetingSchemaBase)
\ No newline at end of file
+  .merge(meetingSchemaBase)
+
+// Schema for the month of available times the booking calendar asks for as the guest navigates
+export const monthAvailabilitySchema = z.object({
+  clerkUserId: z.string().min(1, "Required"),
+
+  eventId: z.string().uuid(),
+
+  // Month to load, e.g. "2025-03"
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Invalid month"),
+
+  // The guest's timezone: months and days are cut in it
+  timezone: z.string().refine(timezone => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: timezone })
+      return true
+    } catch {
+      return false
+    }
+  }, "Invalid timezone"),
+})
+
+// Schema for the month of available times the reschedule calendar asks for on the guest's manage page
+export const rescheduleMonthAvailabilitySchema = z
+  .object({
+    // Secret token from the guest's manage link
+    token: z.string().uuid(),
+  })
+  .merge(monthAvailabilitySchema.pick({ month: true, timezone: true }))
+
+// Schema for the filters of the host's "My Meetings" dashboard (read from the URL search params)
+// Every field falls back to a safe value with .catch() so a hand-edited URL never breaks the page
+export const meetingFiltersSchema = z.object({
+  // Which tab is selected: upcoming meetings, booking requests, past or cancelled meetings
+  tab: z.enum(MEETING_TABS).catch("upcoming"),
+
+  // Only show meetings of this event type
+  eventId: z.string().uuid().optional().catch(undefined),
+
+  // Only show meetings on or after this day (YYYY-MM-DD)
+  from: z.string().date().optional().catch(undefined),
+
+  // Only show meetings on or before this day (YYYY-MM-DD)
+  to: z.string().date().optional().catch(undefined),
+
+  // Page number, starting at 1
+  page: z.coerce.number().int().min(1).catch(1),
+})
+
+// Schema for the guest's reschedule form: just a new date, time and timezone
+export const rescheduleMeetingFormSchema = z.object({
+  // 'date' must be a valid date and must be today or later
+  date: z.date().min(startOfDay(new Date()), "Must be in the future"),
+
+  // The new start time can't be in the past either
+  startTime: meetingSchemaBase.shape.startTime,
+
+  // Timezone the guest picked the new time in
+  timezone: meetingSchemaBase.shape.timezone,
+})
+
+// Schema for handling the reschedule action on the server
+export const rescheduleMeetingActionSchema = z
+  .object({
+    // Secret token from the guest's manage link
+    token: z.string().uuid(),
+  })
+  .merge(rescheduleMeetingFormSchema.omit({ date: true }))
+
+// Schema for the guest's cancellation form
+export const cancelMeetingFormSchema = z.object({
+  // The guest has to tell the host why they are cancelling
+  reason: z.string().trim().min(1, "Required"),
+})
+
+// Schema for handling the cancel action on the server
+export const cancelMeetingActionSchema = z
+  .object({
+    // Secret token from the guest's manage link
+    token: z.string().uuid(),
+  })
+  .merge(cancelMeetingFormSchema)
+
+// Schema for the host's answer to a booking request
+export const meetingRequestActionSchema = z.object({
+  // The pending meeting the host is answering
+  meetingId: z.string().uuid(),
+
+  // Whether the host accepts the request (and the meeting is added to their calendar) or rejects it
+  accept: z.boolean(),
+
+  // Optional message for the guest when rejecting
+  reason: z.string().trim().optional(),
+})
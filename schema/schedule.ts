@@ -3,6 +3,8 @@ import { timeToFloat } from "@/lib/utils";
 import { z } from "zod";
 
 export const scheduleFormSchema = z.object({
+    name: z.string().min(1, "Required"), // The schedule name (e.g. "Office hours") is required
+    isDefault: z.boolean(), // Whether events without their own schedule use this one
     timezone: z.string().min(1, "Required"), // The timezone must be a string and cannot be empty
        availabilities: z // The 'availabilities' field is an array
     .array( // The array contains objects with specific properties
@@ -85,5 +87,65 @@ export const scheduleFormSchema = z.object({
       })
     }),
 
+    // 'overrides' replace the weekly availabilities on specific dates (e.g. holidays or a shorter day)
+    overrides: z
+    .array(
+      z.object({
+        date: z.string().date("Required"), // 'date' must be a day in the format YYYY-MM-DD
+        isUnavailable: z.boolean(), // true = the whole day is blocked, the times below are ignored
+        startTime: z // same HH:MM format as the weekly availabilities
+          .string()
+          .regex(
+            /^([0-9]|0[0-9]|1[0-9]|2[0-3]):[0-5][0-9]$/,
+            "Time must be in the format HH:MM"
+          ),
+        endTime: z
+          .string()
+          .regex(
+            /^([0-9]|0[0-9]|1[0-9]|2[0-3]):[0-5][0-9]$/,
+            "Time must be in the format HH:MM"
+          ),
+      })
+    )
+
+    // Same checks as the weekly availabilities, but per date instead of per day of the week
+    .superRefine((overrides, ctx) => {
+      overrides.forEach((override, index) => {
+        const sameDate = overrides.filter((o, i) => i !== index && o.date === override.date)
 
-})
\ No newline at end of file
+        // A day off can't also have available times
+        if (sameDate.length > 0 && (override.isUnavailable || sameDate.some(o => o.isUnavailable))) {
+          ctx.addIssue({
+            code: "custom",
+            message: "A day marked unavailable can't have other times",
+            path: [index, "date"],
+          })
+        }
+
+        // The remaining checks only apply to time ranges
+        if (override.isUnavailable) return
+
+        const overlaps = sameDate.some(o => (
+          !o.isUnavailable &&
+          timeToFloat(o.startTime) < timeToFloat(override.endTime) &&
+          timeToFloat(o.endTime) > timeToFloat(override.startTime)
+        ))
+
+        if (overlaps) {
+          ctx.addIssue({
+            code: "custom",
+            message: "Override overlaps with another",
+            path: [index, "startTime"],
+          })
+        }
+
+        if (timeToFloat(override.startTime) >= timeToFloat(override.endTime)) {
+          ctx.addIssue({
+            code: "custom",
+            message: "End time must be after start time",
+            path: [index, "endTime"],
+          })
+        }
+      })
+    }),
+})
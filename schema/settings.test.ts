@@ -0,0 +1,33 @@
+import { readdirSync, readFileSync } from "fs"
+import { join } from "path"
+import { describe, expect, it } from "vitest"
+import { usernameSchema } from "./settings"
+
+const root = join(__dirname, "..")
+
+// First URL segments the app itself answers: folders in app/ (route groups like "(main)" don't add a
+// segment, dynamic ones like "[username]" are the usernames themselves), files and folders in public/,
+// and the routes the middleware always runs for
+function getTopLevelSegments(directory = join(root, "app")): string[] {
+  return readdirSync(directory, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && !entry.name.startsWith("["))
+    .flatMap(entry => entry.name.startsWith("(") ? getTopLevelSegments(join(directory, entry.name)) : [entry.name])
+}
+
+function getMiddlewareSegments(): string[] {
+  const middleware = readFileSync(join(root, "middleware.ts"), "utf8")
+  return [...middleware.matchAll(/'\/\(([a-z|]+)\)/g)].flatMap(([, segments]) => segments.split("|"))
+}
+
+describe("usernameSchema", () => {
+  it("accepts a regular username", () => {
+    expect(usernameSchema.safeParse({ username: "jane-doe" }).success).toBe(true)
+  })
+
+  it.each([...getTopLevelSegments(), ...readdirSync(join(root, "public")), ...getMiddlewareSegments(), "_next"])(
+    "refuses %s, which is one of the app's own routes",
+    segment => {
+      expect(usernameSchema.safeParse({ username: segment }).success).toBe(false)
+    }
+  )
+})
@@ -0,0 +1,85 @@
+import { CALENDAR_PROVIDERS, RESERVED_USERNAMES } from "@/constants";
+import { z } from "zod";
+
+// An optional limit: an empty input is coerced to 0, which means "no limit"
+const optionalLimit = z.coerce
+  .number()
+  .int()
+  .min(0, "Limit can't be negative")
+  .optional()
+
+// Caps on how many meetings can be booked, shared by the event form and the host settings form
+export const bookingLimitsSchema = z.object({
+  // Most meetings that can be booked on a single day
+  maxBookingsPerDay: optionalLimit,
+
+  // Most meetings that can be booked in a single week (Monday to Sunday)
+  maxBookingsPerWeek: optionalLimit,
+
+  // Most meetings that can be booked in a single calendar month
+  maxBookingsPerMonth: optionalLimit,
+
+  // Most minutes of meetings that can be booked on a single day
+  maxBookedMinutesPerDay: optionalLimit,
+})
+
+// Turns validated limits into column values: empty or 0 is stored as NULL ("no limit")
+export function toBookingLimitColumns(limits: z.infer<typeof bookingLimitsSchema>) {
+  return {
+    maxBookingsPerDay: limits.maxBookingsPerDay || null,
+    maxBookingsPerWeek: limits.maxBookingsPerWeek || null,
+    maxBookingsPerMonth: limits.maxBookingsPerMonth || null,
+    maxBookedMinutesPerDay: limits.maxBookedMinutesPerDay || null,
+  }
+}
+
+// Which calendar the host's busy times come from and meetings are written to
+export const calendarProviderSchema = z
+  .object({
+    calendarProvider: z.enum(CALENDAR_PROVIDERS),
+
+    // URL of the CalDAV calendar collection
+    caldavUrl: z.string().optional(),
+
+    caldavUsername: z.string().optional(),
+
+    // Left empty to keep the password that is already saved
+    caldavPassword: z.string().optional(),
+  })
+  .superRefine((settings, ctx) => {
+    // Google Calendar is connected through Clerk, only CalDAV needs credentials
+    if (settings.calendarProvider !== "caldav") return
+
+    if (!z.string().url().regex(/^https?:\/\//i).safeParse(settings.caldavUrl).success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Enter the URL of your CalDAV calendar",
+        path: ["caldavUrl"],
+      })
+    }
+
+    if (!settings.caldavUsername) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Username is required",
+        path: ["caldavUsername"],
+      })
+    }
+  })
+
+// Which of the host's Google calendars are checked for conflicts and which one bookings go to
+export const googleCalendarsSchema = z.object({
+  busyCalendarIds: z.array(z.string()).min(1, "Pick at least one calendar to check for conflicts"),
+
+  bookingCalendarId: z.string().min(1, "Pick a calendar for new bookings"),
+})
+
+// The host's username, used in their public URLs (/username and /username/event-slug)
+export const usernameSchema = z.object({
+  username: z
+    .string()
+    .min(3, "Must be at least 3 characters")
+    .max(30, "Must be at most 30 characters")
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and dashes")
+    .refine(username => !RESERVED_USERNAMES.includes(username), "This username isn't available"),
+})
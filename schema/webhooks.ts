@@ -0,0 +1,23 @@
+import { WEBHOOK_TRIGGERS } from "@/constants";
+import { z } from "zod";
+
+// Schema for the form that sets up a webhook
+export const webhookFormSchema = z.object({
+  // 'url' receives a POST request for every booking change the webhook subscribed to
+  // (in production it also has to resolve to a public address, the server checks that before every call)
+  url: z
+    .string()
+    .url("Please enter a valid URL")
+    .refine(url => /^https?:$/.test(new URL(url).protocol), "The URL has to start with http:// or https://"),
+
+  // 'secret' signs every request, so the receiver can check it comes from Calendify
+  secret: z.string().min(16, "The secret needs at least 16 characters").max(256),
+
+  // 'triggers' are the booking changes that are sent
+  triggers: z
+    .array(z.enum(WEBHOOK_TRIGGERS.map(({ type }) => type) as [
+      (typeof WEBHOOK_TRIGGERS)[number]["type"],
+      ...(typeof WEBHOOK_TRIGGERS)[number]["type"][]
+    ]))
+    .min(1, "Pick at least one trigger"),
+})
@@ -0,0 +1,154 @@
+// Benchmark of the work behind the public booking page, for a host with many calendar events.
+// "Before" is how free times used to be found: a year of 15-minute candidates, each checked against every
+// calendar event. "After" runs the real server code (getAvailableTimes over the same window, getFirstAvailableTime,
+// which the page uses to open the calendar, and getMonthAvailability, which the calendar calls for each month) with
+// the database and the calendar replaced by in-memory stubs, so only Calendify's own computation is measured.
+//
+// Run with: npm run bench:slots (BENCH_EVENTS=1000 npm run bench:slots for more events, 500 by default)
+// The per-candidate scan grows with events x candidates and already takes about a minute with 500 events.
+
+import { addDays, addMinutes, areIntervalsOverlapping, eachMinuteOfInterval, format, isWithinInterval } from "date-fns"
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz"
+import { bench, describe, vi } from "vitest"
+import type { TimeInterval } from "@/lib/scheduling"
+
+const TIMEZONE = "Europe/Berlin"
+const EVENT_COUNT = Number(process.env.BENCH_EVENTS ?? 500)
+// A year of bookable days starting tomorrow (a fixed window, so it doesn't move while the benchmark runs)
+const FIRST_DAY = format(addDays(new Date(), 1), "yyyy-MM-dd")
+const LAST_DAY = format(addDays(new Date(), 365), "yyyy-MM-dd")
+const WINDOW = {
+  start: fromZonedTime(FIRST_DAY, TIMEZONE),
+  end: addDays(fromZonedTime(LAST_DAY, TIMEZONE), 1),
+}
+
+// Monday to Friday, 9:00 to 12:00 and 13:00 to 17:30
+const workingHours = [
+  { startTime: "09:00", endTime: "12:00" },
+  { startTime: "13:00", endTime: "17:30" },
+]
+const weekdays = ["monday", "tuesday", "wednesday", "thursday", "friday"] as const
+
+// A 30-minute event with 10 minutes of buffer on both sides, offered every 15 minutes
+const event = {
+  id: "00000000-0000-0000-0000-000000000001",
+  clerkUserId: "host",
+  scheduleId: null,
+  isActive: true,
+  durationInMinutes: 30,
+  bufferBeforeInMinutes: 10,
+  bufferAfterInMinutes: 10,
+  minimumNoticeInMinutes: 0,
+  slotIntervalInMinutes: 15,
+  slotAlignment: "none" as const,
+  bookingWindowType: "fixed" as const,
+  bookingWindowInDays: 365,
+  bookingWindowStartDate: FIRST_DAY,
+  bookingWindowEndDate: LAST_DAY,
+  maxBookingsPerDay: null,
+  maxBookingsPerWeek: null,
+  maxBookingsPerMonth: null,
+  maxBookedMinutesPerDay: null,
+}
+
+const schedule = {
+  id: "schedule",
+  timezone: TIMEZONE,
+  isDefault: true,
+  clerkUserId: "host",
+  availabilities: weekdays.flatMap(dayOfWeek => workingHours.map(hours => ({ ...hours, dayOfWeek }))),
+  overrides: [],
+}
+
+// Calendar events of 15 minutes to 2 hours at random times, with a fixed seed so runs are comparable
+let seed = 42
+const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647
+const calendarEvents: TimeInterval[] = Array.from({ length: EVENT_COUNT }, () => {
+  const eventStart = addMinutes(WINDOW.start, Math.floor(random() * 365 * 24 * 4) * 15)
+  return { start: eventStart, end: addMinutes(eventStart, 15 * (1 + Math.floor(random() * 8))) }
+})
+
+// Stubs for everything outside Calendify's own code: the database answers with the event and schedule above
+// (and no Calendify bookings), the calendar with the generated events
+vi.mock("@/drizzle/db", () => {
+  // A query builder that chains every call and resolves to no rows once awaited
+  type QueryBuilder = PromiseLike<[]> & { [method: string]: (...args: unknown[]) => QueryBuilder }
+  const noRows: QueryBuilder = new Proxy({} as QueryBuilder, { get: (_, property) => property === "then" ? (resolve: (rows: []) => void) => resolve([]) : () => noRows })
+  return {
+    db: {
+      query: {
+        EventTable: { findFirst: async () => event },
+        ScheduleTable: { findFirst: async () => schedule },
+      },
+      select: () => noRows,
+    },
+  }
+})
+vi.mock("@/server/calendar", async () => ({
+  getCachedBusyTimes: (await import("@/server/calendar/cache")).getCachedBusyTimes,
+  getCalendarProvider: async () => ({ name: "google", busyTimesKey: "primary", listBusy: async () => calendarEvents }),
+}))
+vi.mock("@/server/settings", () => ({ getUserSettings: async () => undefined }))
+vi.mock("@/server/bookingRequests", () => ({ releaseExpiredRequests: async () => {} }))
+vi.mock("@clerk/nextjs/server", () => ({ auth: async () => ({ userId: null }) }))
+vi.mock("next/cache", () => ({ revalidatePath: () => {} }))
+
+const { getAvailableTimes, getFirstAvailableTime, getMonthAvailability } = await import("@/server/actions/schedule")
+
+// Previous implementation: a year of candidates, availabilities worked out per candidate, then compared with every event
+function perCandidateScan(): Date[] {
+  return eachMinuteOfInterval(WINDOW, { step: 15 }).filter(candidate => {
+    if (candidate >= WINDOW.end) return false
+
+    const dateKey = formatInTimeZone(candidate, TIMEZONE, "yyyy-MM-dd")
+    const dayOfWeek = formatInTimeZone(candidate, TIMEZONE, "EEEE").toLowerCase()
+    const availabilities = schedule.availabilities
+      .filter(availability => availability.dayOfWeek === dayOfWeek)
+      .map(({ startTime, endTime }) => ({
+        start: fromZonedTime(`${dateKey}T${startTime}`, TIMEZONE),
+        end: fromZonedTime(`${dateKey}T${endTime}`, TIMEZONE),
+      }))
+
+    const meeting = { start: candidate, end: addMinutes(candidate, event.durationInMinutes) }
+    const buffered = {
+      start: addMinutes(meeting.start, -event.bufferBeforeInMinutes),
+      end: addMinutes(meeting.end, event.bufferAfterInMinutes),
+    }
+
+    return (
+      calendarEvents.every(calendarEvent => !areIntervalsOverlapping(calendarEvent, buffered)) &&
+      availabilities.some(availability =>
+        isWithinInterval(meeting.start, availability) && isWithinInterval(meeting.end, availability)
+      )
+    )
+  })
+}
+
+let before: Date[] = []
+let after: Date[] = []
+
+describe(`Booking page, ${EVENT_COUNT} calendar events`, () => {
+  bench("before: per-candidate scan of the booking window", () => {
+    before = perCandidateScan()
+  }, { iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 })
+
+  bench("after: getAvailableTimes for the booking window", async () => {
+    after = await getAvailableTimes(event)
+  }, {
+    // Both approaches must agree on every slot
+    teardown: () => {
+      if (before.length !== after.length || before.some((slot, index) => slot.getTime() !== after[index].getTime())) {
+        const index = before.findIndex((slot, index) => slot.getTime() !== after[index]?.getTime())
+        throw new Error(`Results differ from slot ${index}: ${before[index]?.toISOString()} before, ${after[index]?.toISOString()} after`)
+      }
+    },
+  })
+
+  bench("after: getFirstAvailableTime", async () => {
+    await getFirstAvailableTime(event)
+  })
+
+  bench("after: getMonthAvailability for one month", async () => {
+    await getMonthAvailability({ clerkUserId: "host", eventId: event.id, month: FIRST_DAY.slice(0, 7), timezone: TIMEZONE })
+  })
+})
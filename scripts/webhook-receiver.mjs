@@ -0,0 +1,48 @@
+// Local webhook receiver for trying out webhooks: it checks the signature of every request and prints the booking.
+// Add a webhook with the URL http://localhost:4000 and the same secret in Settings > Webhooks, then book a meeting.
+//
+// Run with: WEBHOOK_SECRET=<secret> npm run webhooks:receive [-- <port> --fail]
+// With --fail it answers 500 to everything, to watch the retries in the delivery log.
+
+import { createHmac, timingSafeEqual } from "crypto"
+import { createServer } from "http"
+
+const args = process.argv.slice(2)
+const port = Number(args.find(arg => /^\d+$/.test(arg)) ?? 4000)
+const fail = args.includes("--fail")
+const secret = process.env.WEBHOOK_SECRET
+
+// Requests signed longer ago than this are rejected as replays
+const MAX_AGE_IN_SECONDS = 5 * 60
+
+if (!secret) {
+  console.error("Set WEBHOOK_SECRET to the secret of the webhook.")
+  process.exit(1)
+}
+
+// Checks an X-Calendify-Signature header ("t=<unix time>,v1=<hex HMAC-SHA256 of "<unix time>.<body>">")
+function verifySignature(header, body) {
+  const { t, v1 } = Object.fromEntries((header ?? "").split(",").map(part => part.split("=")))
+  if (!t || !v1) return "missing signature"
+  if (Math.abs(Date.now() / 1000 - Number(t)) > MAX_AGE_IN_SECONDS) return "signature too old"
+
+  const expected = createHmac("sha256", secret).update(`${t}.${body}`).digest("hex")
+  const valid = expected.length === v1.length && timingSafeEqual(Buffer.from(expected), Buffer.from(v1))
+  return valid ? null : "wrong signature"
+}
+
+createServer((request, response) => {
+  let body = ""
+  request.on("data", chunk => (body += chunk))
+  request.on("end", () => {
+    const problem = verifySignature(request.headers["x-calendify-signature"], body)
+
+    console.log(`\n${new Date().toISOString()}  ${request.method} ${request.url}`)
+    console.log(`Event: ${request.headers["x-calendify-event"]}  Delivery: ${request.headers["x-calendify-delivery"]}`)
+    console.log(problem ? `Signature: INVALID (${problem})` : "Signature: valid")
+    console.log(body)
+
+    response.statusCode = problem ? 401 : fail ? 500 : 200
+    response.end(problem ?? (fail ? "failing on purpose" : "ok"))
+  })
+}).listen(port, () => console.log(`Listening on http://localhost:${port}${fail ? " (answering 500)" : ""}`))
@@ -0,0 +1,47 @@
+// Background worker: runs the queued jobs (emails, reminders, expiring booking requests) every few seconds,
+// as an alternative to calling the cron route. Several workers can run at the same time.
+//
+// Run with: npm run worker              keep running until stopped (Ctrl+C)
+//           npm run worker -- --once    run the due jobs once and exit
+//           npm run worker -- --failed  list the jobs that ran out of attempts
+//           npm run worker -- --retry-failed [<job id>...]  queue failed jobs again
+// It needs the same environment variables as the app (DATABASE_URL, CLERK_SECRET_KEY, SMTP_*...).
+
+import { createJiti } from "jiti"
+import { fileURLToPath } from "url"
+
+const POLL_INTERVAL_IN_MS = 5_000
+
+// The server code is TypeScript and uses the "@/" import alias, so it is loaded through jiti
+const root = fileURLToPath(new URL("../", import.meta.url))
+const jiti = createJiti(import.meta.url, { alias: { "@/": root } })
+const { getFailedJobs, retryFailedJobs, runDueJobs } = await jiti.import("../server/jobs/runner.ts")
+
+const [command, ...ids] = process.argv.slice(2)
+
+if (command === "--failed") {
+  for (const job of await getFailedJobs()) {
+    console.log(`${job.id}  ${job.type}  ${job.attempts} attempts  ${job.updatedAt.toISOString()}`)
+    console.log(`  ${JSON.stringify(job.payload)}`)
+    console.log(`  ${job.lastError}`)
+  }
+} else if (command === "--retry-failed") {
+  console.log(`${await retryFailedJobs(ids.length > 0 ? ids : undefined)} jobs queued again`)
+} else {
+  let stopped = false
+  process.on("SIGINT", () => (stopped = true))
+  process.on("SIGTERM", () => (stopped = true))
+
+  do {
+    try {
+      const { completed, retried, failed } = await runDueJobs()
+      if (completed + retried + failed > 0) {
+        console.log(`${new Date().toISOString()}  ${completed} completed, ${retried} retried, ${failed} failed`)
+      }
+    } catch (error) {
+      // E.g. the database can't be reached: keep going, the next round may work
+      console.error(`Error running jobs: ${error.message || error}`)
+    }
+    if (command !== "--once" && !stopped) await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_IN_MS))
+  } while (command !== "--once" && !stopped)
+}
@@ -1,15 +1,75 @@
 'use server' // Marks this file as a Server Action - required for Next.js App Router
 
 import { db } from "@/drizzle/db";
-import { EventTable } from "@/drizzle/schema";
+import { BookingLinkTable, EventTable } from "@/drizzle/schema";
 import { eventFormSchema } from "@/schema/events";
+import { toBookingLimitColumns } from "@/schema/settings";
 import { auth } from "@clerk/nextjs/server";
 import { and, eq } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { z } from "zod";
+import { getScheduleById } from "./schedule";
 
 
+// Converts validated form data into column values: empty dates and limits are stored as NULL
+function toEventColumns(data: z.infer<typeof eventFormSchema>) {
+  return {
+    ...data,
+    bookingWindowStartDate: data.bookingWindowStartDate || null,
+    bookingWindowEndDate: data.bookingWindowEndDate || null,
+    // Only video call links and in-person meetings have a location set by the host
+    locationValue: data.locationType === "url" || data.locationType === "inPerson"
+      ? data.locationValue?.trim() || null
+      : null,
+    // Limits left empty are stored as NULL ("no limit") so clearing one in the form really removes it
+    ...toBookingLimitColumns(data),
+    // Only dropdown and multiple choice questions keep their (non-empty) options
+    questions: data.questions.map(question => ({
+      ...question,
+      options: question.type === "select" || question.type === "radio"
+        ? question.options.map(option => option.trim()).filter(option => option !== "")
+        : [],
+    })),
+  }
+}
+
+// Makes sure the schedule picked for an event belongs to the same user
+async function checkScheduleOwner(userId: string, scheduleId: string | null): Promise<void> {
+  if (scheduleId != null && (await getScheduleById(userId, scheduleId)) == null) {
+    throw new Error("Schedule not found or not owned by the user.")
+  }
+}
+
+// Checks if none of the user's other events uses a slug yet
+async function isSlugFree(userId: string, slug: string, eventId?: string): Promise<boolean> {
+  const event = await db.query.EventTable.findFirst({
+    columns: { id: true },
+    where: ({ clerkUserId, slug: slugCol, id }, { and, eq, ne }) =>
+      and(eq(clerkUserId, userId), eq(slugCol, slug), eventId ? ne(id, eventId) : undefined),
+  })
+
+  return event == null
+}
+
+// Makes sure the slug picked for an event isn't used by another of the user's events
+async function checkSlugFree(userId: string, slug: string, eventId?: string): Promise<void> {
+  if (!(await isSlugFree(userId, slug, eventId))) {
+    throw new Error("Another of your events already uses this URL.")
+  }
+}
+
+// This server action lets the event form check a slug while the host types it
+export async function isEventSlugAvailable(
+  slug: string,
+  eventId?: string // The event being edited, which may keep its own slug
+): Promise<boolean> {
+  const { userId } = await auth()
+  if (!userId) return false
+
+  return isSlugFree(userId, slug, eventId)
+}
+
 // This function creates a new event in the database after validating the input data.
 export async function createEvent(
     unsafeData: z.infer<typeof eventFormSchema> // Accepts raw event data validated by the zod schema
@@ -25,9 +85,12 @@ export async function createEvent(
       if (!success || !userId) {
         throw new Error("Invalid event data or user not authenticated.")
       }
+
+      await checkScheduleOwner(userId, data.scheduleId)
+      await checkSlugFree(userId, data.slug)
   
       // Insert the validated event data into the database, linking it to the authenticated user
-      await db.insert(EventTable).values({ ...data, clerkUserId: userId })
+      await db.insert(EventTable).values({ ...toEventColumns(data), clerkUserId: userId })
      
       
     } catch (error: any) {
@@ -57,11 +120,14 @@ export async function updateEvent(
       if (!success || !userId) {
         throw new Error("Invalid event data or user not authenticated.")
       }
+
+      await checkScheduleOwner(userId, data.scheduleId)
+      await checkSlugFree(userId, data.slug, id)
   
       // Attempt to update the event in the database
       const { rowCount } = await db
         .update(EventTable)
-        .set({ ...data }) // Update with validated data
+        .set({ ...toEventColumns(data) }) // Update with validated data
         .where(and(eq(EventTable.id, id), eq(EventTable.clerkUserId, userId))) // Ensure user owns the event
   
       // If no event was updated (either not found or not owned by the user), throw an error
@@ -149,6 +215,17 @@ export async function getEvent(userId: string, eventId: string): Promise<EventRo
 }
 
 
+// Fetch an event by the slug in its booking URL (/username/slug)
+export async function getEventBySlug(userId: string, eventSlug: string): Promise<EventRow | undefined> {
+  const event = await db.query.EventTable.findFirst({
+    where: ({ slug, clerkUserId }, { and, eq }) =>
+      and(eq(clerkUserId, userId), eq(slug, eventSlug)),
+  })
+
+  return event ?? undefined // Explicitly return undefined if not found
+}
+
+
 // Define a new type for public events, which are always active
 // It removes the generic 'isActive' field and replaces it with a literal true
 export type PublicEvent = Omit<EventRow, "isActive"> & { isActive: true }
@@ -160,13 +237,61 @@ export async function getPublicEvents(clerkUserId: string): Promise<PublicEvent[
   // Query the database for events where:
   // - the clerkUserId matches
   // - the event is marked as active
+  // - the event isn't hidden (hidden events can only be booked through their link)
   // Events are ordered alphabetically (case-insensitive) by name
   const events = await db.query.EventTable.findMany({
-    where: ({ clerkUserId: userIdCol, isActive }, { eq, and }) =>
-      and(eq(userIdCol, clerkUserId), eq(isActive, true)),
+    where: ({ clerkUserId: userIdCol, isActive, isHidden }, { eq, and }) =>
+      and(eq(userIdCol, clerkUserId), eq(isActive, true), eq(isHidden, false)),
     orderBy: ({ name }, { asc, sql }) => asc(sql`lower(${name})`),
   })
 
   // Cast the result to the PublicEvent[] type to indicate all are active
   return events as PublicEvent[]
-}
\ No newline at end of file
+}
+
+
+// This server action creates a single-use link to one of the user's events and returns its secret token.
+// The link stops working once a meeting has been booked through it.
+export async function createBookingLink(
+  eventId: string // ID of the event the link books
+): Promise<string> {
+  try {
+    const { userId } = await auth() // Get currently authenticated user's ID
+
+    if (!userId) {
+      throw new Error("User not authenticated.")
+    }
+
+    // Make sure the event exists and belongs to the user
+    if ((await getEvent(userId, eventId)) == null) {
+      throw new Error("Event not found or not owned by the user.")
+    }
+
+    const [link] = await db
+      .insert(BookingLinkTable)
+      .values({ eventId, clerkUserId: userId })
+      .returning({ token: BookingLinkTable.token })
+
+    return link.token
+
+  } catch (error: any) {
+    // Catch and throw an error with a readable message
+    throw new Error(`Failed to create booking link: ${error.message || error}`)
+  }
+}
+
+// Fetch a single-use link by its token, together with its event and the meeting booked through it (if any)
+export async function getBookingLink(token: string) {
+  // Tokens are UUIDs, anything else can't match and would only make Postgres complain
+  if (!z.string().uuid().safeParse(token).success) return undefined
+
+  const link = await db.query.BookingLinkTable.findFirst({
+    where: ({ token: tokenCol }, { eq }) => eq(tokenCol, token),
+    with: {
+      event: true,
+      meeting: { columns: { id: true } },
+    },
+  })
+
+  return link ?? undefined // Explicitly return undefined if not found
+}
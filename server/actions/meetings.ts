@@ -1,12 +1,89 @@
 'use server'
 
 import { db } from "@/drizzle/db";
-import { meetingActionSchema } from "@/schema/meetings";
+import { EventTable, MeetingTable, SlotReservationTable } from "@/drizzle/schema";
+import { BookingAnswer, buildAnswersSchema, buildGuestLocationSchema, cancelMeetingActionSchema, meetingActionSchema, meetingFiltersSchema, meetingRequestActionSchema, rescheduleMeetingActionSchema, rescheduleMonthAvailabilitySchema } from "@/schema/meetings";
+import { BOOKING_REQUEST_EXPIRY_IN_HOURS, MEETINGS_PER_PAGE } from "@/constants";
+import { absoluteUrl } from "@/lib/utils";
+import { getMonthRange, groupTimesByDay } from "@/lib/scheduling";
+import { addDays, addHours, addMinutes, isPast, min } from "date-fns";
 import { fromZonedTime } from "date-fns-tz";
-import { getValidTimesFromSchedule } from "./schedule";
-import { createCalendarEvent } from "../google/googleCalendar";
+import { and, asc, desc, eq, gte, inArray, lt, sql, SQL } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { after } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { randomUUID } from "crypto";
+import { getAvailableTimes, getValidTimesFromSchedule, type MonthAvailability } from "./schedule";
+import { getBookingLink } from "./events";
+import { getCalendarProvider, invalidateBusyTimes } from "../calendar";
+import { releaseExpiredRequests } from "../bookingRequests";
+import { queueMeetingEmails } from "../mail";
+import { scheduleReminders } from "../mail/reminders";
+import { enqueueJob } from "../jobs";
+import { runQueuedJobs } from "../jobs/runner";
+import { triggerWebhooks } from "../webhooks";
 import { z } from "zod";
 
+// Postgres error code raised when a row breaks an exclusion constraint
+const EXCLUSION_VIOLATION = "23P01"
+// Postgres error code raised when a row breaks a unique constraint
+const UNIQUE_VIOLATION = "23505"
+
+// Checks whether a database error means the slot overlaps one that is already reserved
+function isSlotTakenError(error: any): boolean {
+  // Drizzle wraps driver errors, so the Postgres code may be on the error itself or on its cause
+  return error?.code === EXCLUSION_VIOLATION || error?.cause?.code === EXCLUSION_VIOLATION
+}
+
+// Checks whether a database error means a meeting was already booked through the same single-use link
+function isLinkUsedError(error: any): boolean {
+  const cause = error?.code ? error : error?.cause
+  return cause?.code === UNIQUE_VIOLATION && cause?.constraint === "meetings_bookingLinkId_unique"
+}
+
+// Infer the type of a row from the MeetingTable schema
+type MeetingRow = typeof MeetingTable.$inferSelect
+
+// Creates the calendar event of a stored meeting in the host's calendar (Google or CalDAV)
+// and links the meeting back to it (keeping its Meet link, if any)
+async function addToCalendar(
+  meeting: Pick<MeetingRow, "id" | "clerkUserId" | "guestName" | "guestEmail" | "guestNotes" | "startTime" | "answers" | "location" | "manageToken">,
+  event: Pick<typeof EventTable.$inferSelect, "name" | "durationInMinutes" | "locationType">
+): Promise<void> {
+  const calendar = await getCalendarProvider(meeting.clerkUserId)
+  const calendarEvent = await calendar.createEvent({
+    ...meeting, // guest info, start time, answers and location
+    durationInMinutes: event.durationInMinutes, // use duration from the event
+    eventName: event.name, // use event name from DB
+    addConference: event.locationType === "googleMeet", // let Google create a Meet link (Google Calendar only)
+    requestId: meeting.id, // makes retried conference requests idempotent
+    manageUrl: absoluteUrl(`/book/manage/${meeting.manageToken}`), // so the guest can find the manage page from the invite
+  })
+
+  await db
+    .update(MeetingTable)
+    .set({
+      calendarProvider: calendar.name,
+      calendarEventId: calendarEvent.id,
+      calendarId: calendar.calendarId,
+      conferenceUrl: calendarEvent.conferenceUrl,
+    })
+    .where(eq(MeetingTable.id, meeting.id))
+
+  // The new event is in the host's calendar now, so cached busy times are out of date
+  invalidateBusyTimes(meeting.clerkUserId)
+}
+
+// Queues the job that expires a booking request once the host's time to answer runs out
+// (the key includes the expiry, so a request moved to an earlier time gets a new job)
+async function queueRequestExpiry(meeting: { id: string; clerkUserId: string; expiresAt: Date }): Promise<void> {
+  await enqueueJob(
+    "expireBookingRequests",
+    { clerkUserId: meeting.clerkUserId },
+    { key: `expireBookingRequests:${meeting.id}:${meeting.expiresAt.toISOString()}`, runAt: meeting.expiresAt }
+  )
+}
+
 //Server action to create a meeting
 export async function createMeeting(
   unsafeData: z.infer<typeof meetingActionSchema> // Incoming data, inferred from the meetingActionSchema
@@ -37,29 +114,530 @@ export async function createMeeting(
       throw new Error("Event not found.");
     }
 
+    // A single-use link must belong to this event and can only book one meeting
+    let bookingLinkId: string | null = null;
+    if (data.bookingLinkToken) {
+      const link = await getBookingLink(data.bookingLinkToken);
+      if (!link || link.eventId !== event.id) {
+        throw new Error("Booking link not found.");
+      }
+      if (link.meeting) return { success: false, reason: "linkUsed" } as const
+      bookingLinkId = link.id;
+    }
+
+    // Check the answers against the event's current custom questions
+    const answersResult = buildAnswersSchema(event.questions).safeParse(data.answers);
+    if (!answersResult.success) {
+      throw new Error("Invalid answers.");
+    }
+
+    // Keep the answered questions in order, together with their labels (unanswered optional ones are skipped)
+    const answers: BookingAnswer[] = event.questions
+      .map(question => ({
+        questionId: question.id,
+        label: question.label,
+        value: answersResult.data[question.id] ?? "",
+      }))
+      .filter(answer => answer.value !== "");
+
+    // Check the guest's phone number or preferred place, if the event's location needs one
+    const guestLocationResult = buildGuestLocationSchema(event.locationType).safeParse(data.guestLocation);
+    if (!guestLocationResult.success) {
+      throw new Error("Invalid location.");
+    }
+
+    // Where the meeting takes place: the host's link or address, or what the guest told us
+    // (Google Meet links only exist once the calendar event is created)
+    const location = event.locationType === "url" || event.locationType === "inPerson"
+      ? event.locationValue
+      : event.locationType === "phone" || event.locationType === "askGuest"
+        ? guestLocationResult.data ?? null
+        : null;
+
     // Interpret the start time as being in the user's timezone and convert it to a UTC Date
     const startInTimezone = fromZonedTime(data.startTime, data.timezone);
 
     // Check if the selected time is valid for the event's availability
     const validTimes = await getValidTimesFromSchedule([startInTimezone], event);
 
-    // If the selected time is not valid, throw an error
+    // The time isn't free anymore, usually because another guest booked it after the page was loaded:
+    // tell the form so it can show fresh times, like when two guests race for the slot below
     if (validTimes.length === 0) {
-      throw new Error("Selected time is not valid.");
+      return { success: false, reason: "slotTaken" } as const
     }
 
-    // Create the Google Calendar event with all necessary details
-    await createCalendarEvent({
-      ...data, // guest info, timezone, etc.
-      startTime: startInTimezone, // adjusted to the right timezone
-      durationInMinutes: event.durationInMinutes, // use duration from the event
-      eventName: event.name, // use event name from DB
-    });
-    return {clerkUserId: data.clerkUserId, eventId : data.eventId, startTime: data.startTime}
+    // IDs generated up front so the meeting and its slot reservation can be inserted together
+    const meetingId = randomUUID();
+    // Secret token for the guest's self-service cancel/reschedule link
+    const manageToken = randomUUID();
+    const endInTimezone = addMinutes(startInTimezone, event.durationInMinutes); // start + duration
+
+    const meetingValues = {
+      eventId: event.id, // the event type that was booked
+      clerkUserId: data.clerkUserId, // the host the meeting belongs to
+      guestName: data.guestName,
+      guestEmail: data.guestEmail,
+      guestNotes: data.guestNotes ?? null,
+      answers,
+      location,
+      startTime: startInTimezone, // stored in UTC
+      endTime: endInTimezone,
+      timezone: data.timezone, // timezone the guest booked in
+      manageToken,
+      bookingLinkId, // uses up the single-use link, if the guest came through one
+      // Requests wait for the host, but not forever and never past the meeting's start
+      ...(event.requiresConfirmation && {
+        status: "pending" as const,
+        expiresAt: min([addHours(new Date(), BOOKING_REQUEST_EXPIRY_IN_HOURS), startInTimezone]),
+      }),
+    }
+
+    // Store the booking and reserve its slot in a single transaction.
+    // The exclusion constraint on slotReservations guarantees that when two guests submit the same
+    // (or an overlapping) slot at the same time, only one of these inserts succeeds.
+    try {
+      await db.batch([
+        // Store the booking in our own database so we keep a record of it even if the Google event changes
+        db.insert(MeetingTable).values({ ...meetingValues, id: meetingId }),
+        // Lock the host's time range for this meeting
+        db.insert(SlotReservationTable).values({
+          meetingId,
+          clerkUserId: data.clerkUserId,
+          startTime: startInTimezone,
+          endTime: endInTimezone,
+        }),
+      ]);
+    } catch (error) {
+      // Someone else got there first: tell the form so it can show fresh times
+      if (isSlotTakenError(error)) return { success: false, reason: "slotTaken" } as const
+      // Another guest booked through the same single-use link a moment ago
+      if (isLinkUsedError(error)) return { success: false, reason: "linkUsed" } as const
+      throw error
+    }
+
+    // Jobs queued for this booking, run right after the response
+    const jobKeys: string[] = []
+
+    // Events that need the host's approval stay a pending request (holding the slot) until it is accepted
+    if (!event.requiresConfirmation) {
+      try {
+        await addToCalendar({ ...meetingValues, id: meetingId }, event)
+      } catch (error) {
+        // Without a calendar event the booking didn't really happen, so release the slot (and single-use link) again
+        await db.delete(MeetingTable).where(eq(MeetingTable.id, meetingId))
+        throw error
+      }
+      await scheduleReminders(meetingId)
+      jobKeys.push(...await triggerWebhooks("BOOKING_CREATED", meetingId))
+    } else if (meetingValues.expiresAt) {
+      await queueRequestExpiry({ ...meetingValues, id: meetingId, expiresAt: meetingValues.expiresAt })
+    }
+
+    // Tell the guest and the host about the booking (or the request waiting for an answer),
+    // and send the emails right after the response instead of waiting for the next cron run
+    jobKeys.push(...await queueMeetingEmails(event.requiresConfirmation ? "requested" : "confirmed", { id: meetingId, sequence: 0 })) // New meetings start at SEQUENCE 0
+    after(() => runQueuedJobs(jobKeys))
+
+    revalidatePath('/meetings')
+
+    return { success: true, clerkUserId: data.clerkUserId, eventId : data.eventId, startTime: data.startTime, manageToken } as const
   } catch (error: any) {
     // Log the error message (or handle it based on your need)
     console.error(`Error creating meeting: ${error.message || error}`);
     // Optionally throw the error to be handled further upstream
     throw new Error(`Failed to create meeting: ${error.message || error}`);
   }
-}
\ No newline at end of file
+}
+
+
+// A meeting together with the name and duration of the event type that was booked
+export type MeetingWithEvent = MeetingRow & {
+  event: Pick<typeof EventTable.$inferSelect, "id" | "name" | "durationInMinutes" | "locationType">
+}
+
+// Fetch one page of a host's meetings, filtered by tab, event type and date range
+export async function getMeetings(
+  clerkUserId: string, // The host whose meetings we want
+  filters: z.infer<typeof meetingFiltersSchema>, // Filters parsed from the dashboard URL
+  timezone: string // Host's timezone, used to turn the "from"/"to" days into exact instants
+): Promise<{ meetings: MeetingWithEvent[]; total: number }> {
+  const now = new Date()
+
+  // Always restrict the query to the host's own meetings
+  const conditions: SQL[] = [eq(MeetingTable.clerkUserId, clerkUserId)]
+
+  // Requests the host didn't answer in time are shown as expired
+  await releaseExpiredRequests(clerkUserId)
+
+  // Each tab maps to a status and (for confirmed meetings) a side of "now"
+  if (filters.tab === "cancelled") {
+    // Cancelled by the guest, rejected by the host or expired before the host answered
+    conditions.push(inArray(MeetingTable.status, ["cancelled", "rejected", "expired"]))
+  } else if (filters.tab === "requests") {
+    conditions.push(eq(MeetingTable.status, "pending"))
+  } else {
+    conditions.push(eq(MeetingTable.status, "confirmed"))
+    conditions.push(
+      filters.tab === "upcoming"
+        ? gte(MeetingTable.endTime, now) // still going on or in the future
+        : lt(MeetingTable.endTime, now) // already over
+    )
+  }
+
+  // Only meetings of a single event type
+  if (filters.eventId) {
+    conditions.push(eq(MeetingTable.eventId, filters.eventId))
+  }
+
+  // Meetings starting on or after the beginning of the "from" day, in the host's timezone
+  if (filters.from) {
+    conditions.push(gte(MeetingTable.startTime, fromZonedTime(filters.from, timezone)))
+  }
+
+  // Meetings starting before the end of the "to" day, in the host's timezone
+  if (filters.to) {
+    conditions.push(lt(MeetingTable.startTime, addDays(fromZonedTime(filters.to, timezone), 1)))
+  }
+
+  const where = and(...conditions)
+
+  // Upcoming meetings and requests read best soonest-first, everything else most-recent-first
+  const orderBy = filters.tab === "upcoming" || filters.tab === "requests" ? asc(MeetingTable.startTime) : desc(MeetingTable.startTime)
+
+  // Fetch the requested page and the total count at the same time
+  const [meetings, total] = await Promise.all([
+    db.query.MeetingTable.findMany({
+      where,
+      orderBy,
+      limit: MEETINGS_PER_PAGE,
+      offset: (filters.page - 1) * MEETINGS_PER_PAGE,
+      with: {
+        event: {
+          columns: { id: true, name: true, durationInMinutes: true, locationType: true }, // only what the dashboard shows
+        },
+      },
+    }),
+    db.$count(MeetingTable, where),
+  ])
+
+  return { meetings, total }
+}
+
+
+// Fetch a single meeting (with its event type) using the secret token from the guest's manage link
+export async function getMeetingByToken(
+  token: string
+): Promise<(MeetingRow & { event: typeof EventTable.$inferSelect }) | undefined> {
+  // Tokens are UUIDs, anything else can't match and would only make Postgres complain
+  if (!z.string().uuid().safeParse(token).success) return undefined
+
+  const meeting = await db.query.MeetingTable.findFirst({
+    where: ({ manageToken }, { eq }) => eq(manageToken, token),
+    with: { event: true },
+  })
+
+  return meeting ?? undefined // Explicitly return undefined if not found
+}
+
+// Find a meeting the guest is still allowed to change: it must exist, be confirmed or still waiting for the host
+// and not have started yet
+async function getChangeableMeeting(token: string) {
+  const meeting = await getMeetingByToken(token)
+
+  if (!meeting) {
+    throw new Error("Meeting not found.")
+  }
+
+  if (meeting.status === "cancelled") {
+    throw new Error("This meeting has already been cancelled.")
+  }
+
+  if (meeting.status === "rejected" || meeting.status === "expired" || (meeting.expiresAt != null && isPast(meeting.expiresAt))) {
+    throw new Error("This booking request wasn't accepted.")
+  }
+
+  if (isPast(meeting.startTime)) {
+    throw new Error("This meeting has already started.")
+  }
+
+  return meeting
+}
+
+// Server action for a guest to cancel their own meeting
+export async function cancelMeeting(
+  unsafeData: z.infer<typeof cancelMeetingActionSchema> // Token and reason from the manage page
+): Promise<void> {
+  try {
+    // Validate the incoming data against the schema
+    const { success, data } = cancelMeetingActionSchema.safeParse(unsafeData)
+
+    // If validation fails, throw an error
+    if (!success) {
+      throw new Error("Invalid data.")
+    }
+
+    const meeting = await getChangeableMeeting(data.token)
+
+    // Remove the event from the host's calendar (this also notifies the guest)
+    if (meeting.calendarEventId) {
+      const calendar = await getCalendarProvider(meeting.clerkUserId, meeting)
+      await calendar.deleteEvent(meeting.calendarEventId)
+      invalidateBusyTimes(meeting.clerkUserId) // The freed time should show up right away
+    }
+
+    // Keep the meeting in our database but mark it as cancelled, and free its slot for other guests
+    await db.batch([
+      db
+        .update(MeetingTable)
+        .set({
+          status: "cancelled",
+          cancellationReason: data.reason,
+          cancelledAt: new Date(),
+          sequence: sql`${MeetingTable.sequence} + 1`, // Subscribed calendars replace their copy with the cancelled one
+        })
+        .where(eq(MeetingTable.id, meeting.id)),
+      db
+        .delete(SlotReservationTable)
+        .where(eq(SlotReservationTable.meetingId, meeting.id)),
+    ])
+
+    await scheduleReminders(meeting.id) // Removes the reminders of the cancelled meeting
+    // Webhooks only hear about bookings that were confirmed (a withdrawn request was never "created" for them)
+    const jobKeys = meeting.status === "confirmed" ? await triggerWebhooks("BOOKING_CANCELLED", meeting.id) : []
+    jobKeys.push(...await queueMeetingEmails("cancelled", { id: meeting.id, sequence: meeting.sequence + 1 }))
+    after(() => runQueuedJobs(jobKeys))
+
+  } catch (error: any) {
+    console.error(`Error cancelling meeting: ${error.message || error}`)
+    throw new Error(`Failed to cancel meeting: ${error.message || error}`)
+  } finally {
+    // Refresh the manage page and the host's dashboard
+    revalidatePath(`/book/manage/${unsafeData.token}`)
+    revalidatePath('/meetings')
+  }
+}
+
+// Server action returning the times a guest can move their meeting to in one month, so the manage page's
+// calendar loads month by month like the booking page (the meeting itself doesn't block any of them)
+export async function getRescheduleMonthAvailability(
+  unsafeData: z.infer<typeof rescheduleMonthAvailabilitySchema> // Token, month and the guest's timezone
+): Promise<MonthAvailability> {
+  const { success, data } = rescheduleMonthAvailabilitySchema.safeParse(unsafeData)
+
+  if (!success) {
+    throw new Error("Invalid month or timezone.")
+  }
+
+  const meeting = await getChangeableMeeting(data.token)
+
+  const month = getMonthRange(data.month, data.timezone)
+  const times = await getAvailableTimes(meeting.event, month, meeting)
+
+  // The range includes its end, which already belongs to the next month
+  return groupTimesByDay(times.filter(time => time < month.end), data.timezone)
+}
+
+// Server action for a guest to move their own meeting to another free slot
+export async function rescheduleMeeting(
+  unsafeData: z.infer<typeof rescheduleMeetingActionSchema> // Token, new start time and timezone from the manage page
+): Promise<void> {
+  try {
+    // Validate the incoming data against the schema
+    const { success, data } = rescheduleMeetingActionSchema.safeParse(unsafeData)
+
+    // If validation fails, throw an error
+    if (!success) {
+      throw new Error("Invalid data.")
+    }
+
+    const meeting = await getChangeableMeeting(data.token)
+
+    // Interpret the new start time as being in the guest's timezone and convert it to a UTC Date
+    const startInTimezone = fromZonedTime(data.startTime, data.timezone)
+
+    // The new time has to be free in the host's schedule, exactly like a new booking
+    // (the meeting's own slot, calendar event and booking don't count, they move with it)
+    const validTimes = await getValidTimesFromSchedule([startInTimezone], meeting.event, meeting)
+
+    if (validTimes.length === 0) {
+      throw new Error("Selected time is not valid.")
+    }
+
+    const endInTimezone = addMinutes(startInTimezone, meeting.event.durationInMinutes)
+    // A request moved earlier still has to be answered before it starts
+    const expiresAt = meeting.expiresAt && min([meeting.expiresAt, startInTimezone])
+
+    // Save the new time and move the slot reservation with it, in a single transaction
+    // (this fails on the exclusion constraint if another guest grabbed the new slot in the meantime)
+    try {
+      await db.batch([
+        db
+          .update(MeetingTable)
+          .set({
+            startTime: startInTimezone,
+            endTime: endInTimezone,
+            timezone: data.timezone,
+            expiresAt,
+            sequence: sql`${MeetingTable.sequence} + 1`, // Subscribed calendars replace their copy with the moved one
+          })
+          .where(eq(MeetingTable.id, meeting.id)),
+        db
+          .insert(SlotReservationTable)
+          .values({
+            meetingId: meeting.id,
+            clerkUserId: meeting.clerkUserId,
+            startTime: startInTimezone,
+            endTime: endInTimezone,
+          })
+          .onConflictDoUpdate({
+            target: SlotReservationTable.meetingId, // Move the existing reservation if there is one
+            set: { startTime: startInTimezone, endTime: endInTimezone },
+          }),
+      ])
+    } catch (error) {
+      if (isSlotTakenError(error)) {
+        throw new Error("That time was just booked by someone else. Please pick another time.")
+      }
+      throw error
+    }
+
+    // Move the event in the host's calendar (this also notifies the guest)
+    if (meeting.calendarEventId) {
+      try {
+        const calendar = await getCalendarProvider(meeting.clerkUserId, meeting)
+        await calendar.updateEvent(meeting.calendarEventId, {
+          startTime: startInTimezone,
+          durationInMinutes: meeting.event.durationInMinutes,
+        })
+      } catch (error) {
+        // The calendar and the guest's invite still show the old time, so the meeting goes back to it
+        await db.batch([
+          db
+            .update(MeetingTable)
+            .set({
+              startTime: meeting.startTime,
+              endTime: meeting.endTime,
+              timezone: meeting.timezone,
+              expiresAt: meeting.expiresAt,
+              sequence: sql`${MeetingTable.sequence} + 1`, // Subscribed calendars may already have the moved copy
+            })
+            .where(eq(MeetingTable.id, meeting.id)),
+          db
+            .update(SlotReservationTable)
+            .set({ startTime: meeting.startTime, endTime: meeting.endTime })
+            .where(eq(SlotReservationTable.meetingId, meeting.id)),
+        ])
+        throw error
+      }
+      invalidateBusyTimes(meeting.clerkUserId)
+    }
+
+    await scheduleReminders(meeting.id) // Reminders follow the meeting to its new time
+    const jobKeys = meeting.status === "confirmed"
+      ? await triggerWebhooks("BOOKING_RESCHEDULED", meeting.id, { previousStartTime: meeting.startTime })
+      : []
+    if (expiresAt) await queueRequestExpiry({ ...meeting, expiresAt })
+    jobKeys.push(...await queueMeetingEmails("rescheduled", { id: meeting.id, sequence: meeting.sequence + 1 }, { previousStartTime: meeting.startTime }))
+    after(() => runQueuedJobs(jobKeys))
+
+  } catch (error: any) {
+    console.error(`Error rescheduling meeting: ${error.message || error}`)
+    throw new Error(`Failed to reschedule meeting: ${error.message || error}`)
+  } finally {
+    // Refresh the manage page and the host's dashboard
+    revalidatePath(`/book/manage/${unsafeData.token}`)
+    revalidatePath('/meetings')
+  }
+}
+
+// Server action for the host to accept or reject a booking request.
+// Accepting adds the meeting to the host's calendar (which invites the guest); rejecting frees the slot.
+export async function answerMeetingRequest(
+  unsafeData: z.infer<typeof meetingRequestActionSchema> // Meeting, answer and optional reason from the dashboard
+): Promise<void> {
+  try {
+    const { userId } = await auth() // Get currently authenticated user's ID
+
+    // Validate the incoming data against the schema
+    const { success, data } = meetingRequestActionSchema.safeParse(unsafeData)
+
+    // If validation fails or no user is authenticated, throw an error
+    if (!success || !userId) {
+      throw new Error("Invalid data or user not authenticated.")
+    }
+
+    // Requests that timed out can't be answered anymore
+    await releaseExpiredRequests(userId)
+
+    const meeting = await db.query.MeetingTable.findFirst({
+      where: ({ id, clerkUserId }, { and, eq }) => and(eq(id, data.meetingId), eq(clerkUserId, userId)),
+      with: { event: true },
+    })
+
+    if (!meeting) {
+      throw new Error("Meeting not found.")
+    }
+
+    if (meeting.status !== "pending") {
+      throw new Error("This request has already been answered or has expired.")
+    }
+
+    // Jobs queued for the answer, run right after the response
+    const jobKeys: string[] = []
+
+    if (data.accept) {
+      // Claim the request first, so accepting twice (e.g. from two tabs) can't create two calendar events
+      const claimed = await db
+        .update(MeetingTable)
+        .set({ status: "confirmed", expiresAt: null, sequence: sql`${MeetingTable.sequence} + 1` })
+        .where(and(eq(MeetingTable.id, meeting.id), eq(MeetingTable.status, "pending")))
+        .returning({ id: MeetingTable.id })
+      if (claimed.length === 0) {
+        throw new Error("This request has already been answered or has expired.")
+      }
+
+      try {
+        await addToCalendar(meeting, meeting.event)
+      } catch (error) {
+        // Only a meeting that made it into the calendar counts as accepted, so it goes back to waiting
+        await db
+          .update(MeetingTable)
+          .set({ status: "pending", expiresAt: meeting.expiresAt, sequence: sql`${MeetingTable.sequence} + 1` })
+          .where(eq(MeetingTable.id, meeting.id))
+        throw error
+      }
+
+      await scheduleReminders(meeting.id)
+      jobKeys.push(...await triggerWebhooks("BOOKING_CREATED", meeting.id)) // For webhooks a request becomes a booking once accepted
+      // The host accepted it themselves, so only the guest is told
+      jobKeys.push(...await queueMeetingEmails("confirmed", { id: meeting.id, sequence: meeting.sequence + 1 }, { recipients: ["guest"] }))
+    } else {
+      // Keep the request in our database but mark it as rejected, and free its slot for other guests
+      await db.batch([
+        db
+          .update(MeetingTable)
+          .set({
+            status: "rejected",
+            cancellationReason: data.reason || null,
+            cancelledAt: new Date(),
+            expiresAt: null,
+            sequence: sql`${MeetingTable.sequence} + 1`,
+          })
+          .where(and(eq(MeetingTable.id, meeting.id), eq(MeetingTable.status, "pending"))),
+        db
+          .delete(SlotReservationTable)
+          .where(eq(SlotReservationTable.meetingId, meeting.id)),
+      ])
+
+      jobKeys.push(...await queueMeetingEmails("declined", { id: meeting.id, sequence: meeting.sequence + 1 }, { recipients: ["guest"] }))
+    }
+    after(() => runQueuedJobs(jobKeys))
+
+  } catch (error: any) {
+    console.error(`Error answering meeting request: ${error.message || error}`)
+    throw new Error(`Failed to answer meeting request: ${error.message || error}`)
+  } finally {
+    // Refresh the host's dashboard
+    revalidatePath('/meetings')
+  }
+}
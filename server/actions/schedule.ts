@@ -1,35 +1,51 @@
 // This server action handles saving a user's schedule by first validating the submitted form data using Zod and checking if the user is authenticated. If valid, it either inserts a new schedule or updates an existing one in the database, ensuring the schedule is linked to the authenticated user. It then clears any previously saved availabilities for that schedule and inserts the new ones provided by the user. All database operations are executed in a single batch to ensure consistency and efficiency.
 
 'use server'
-import { fromZonedTime } from "date-fns-tz"
 import { db } from "@/drizzle/db"
-import { ScheduleAvailabilityTable, ScheduleTable } from "@/drizzle/schema"
+import { EventTable, MeetingTable, ScheduleAvailabilityTable, ScheduleDateOverrideTable, ScheduleTable, SlotReservationTable } from "@/drizzle/schema"
+import { monthAvailabilitySchema } from "@/schema/meetings"
 import { scheduleFormSchema } from "@/schema/schedule"
 import { auth } from "@clerk/nextjs/server"
-import { eq } from "drizzle-orm"
+import { and, eq, gt, gte, lt, ne } from "drizzle-orm"
 import { BatchItem } from "drizzle-orm/batch"
 import { revalidatePath } from "next/cache"
 import { z } from "zod"
-import { getCalendarEventTimes } from "../google/googleCalendar"
-import { addMinutes, areIntervalsOverlapping, isFriday, isMonday, isSaturday, isSunday, isThursday, isTuesday, isWednesday, isWithinInterval, setHours, setMinutes } from "date-fns"
-import { DAYS_OF_WEEK_IN_ORDER } from "@/constants"
+import { getCachedBusyTimes, getCalendarProvider } from "../calendar"
+import { addDays, addMinutes, subDays, max, min, subMinutes } from "date-fns"
+import { formatInTimeZone } from "date-fns-tz"
+import { MAX_BUFFER_IN_MINUTES } from "@/constants"
+import { addBuffers, BookingLimits, filterTimesInWindows, getAvailabilityWindows, getBookingTotals, getBookingWindow, getMonthRange, getSlotStarts, groupTimesByDay, hasBookingLimits, isInBookingWindow, isWithinBookingLimits, subtractIntervals } from "@/lib/scheduling"
+import { getUserSettings } from "../settings"
+import { releaseExpiredRequests } from "../bookingRequests"
+import { randomUUID } from "crypto"
 
 
 type ScheduleRow = typeof ScheduleTable.$inferSelect
 type AvailabilityRow = typeof ScheduleAvailabilityTable.$inferSelect
+type DateOverrideRow = typeof ScheduleDateOverrideTable.$inferSelect
 
 export type FullSchedule = ScheduleRow & {
   availabilities: AvailabilityRow[]
+  overrides: DateOverrideRow[]
 }
 
-// This function fetches the schedule (and its availabilities) for a given user from the database
+// This function fetches all of a user's schedules, the default one first
+export async function getSchedules(userId: string): Promise<ScheduleRow[]> {
+  return db.query.ScheduleTable.findMany({
+    where: ({ clerkUserId }, { eq }) => eq(clerkUserId, userId),
+    orderBy: ({ isDefault, name }, { asc, desc, sql }) => [desc(isDefault), asc(sql`lower(${name})`)],
+  })
+}
+
+// This function fetches the default schedule (with its availabilities and date overrides) for a given user from the database
 export async function getSchedule(userId: string): Promise<FullSchedule> {
-  // Query the ScheduleTable for the first record that matches the user's ID
+  // Query the ScheduleTable for the user's default schedule
   // Also eagerly load the related 'availabilities' data
   const schedule = await db.query.ScheduleTable.findFirst({
-    where: ({ clerkUserId }, { eq }) => eq(clerkUserId, userId), // Match schedule where user ID equals the provided userId
+    where: ({ clerkUserId, isDefault }, { and, eq }) => and(eq(clerkUserId, userId), eq(isDefault, true)), // Match the default schedule of the provided userId
     with: {
       availabilities: true, // Include all related availability records
+      overrides: true, // Include all related date override records
     },
   })
 
@@ -37,11 +53,37 @@ export async function getSchedule(userId: string): Promise<FullSchedule> {
   return schedule as FullSchedule
 }
 
+// This function fetches a specific schedule (with its availabilities and date overrides), making sure it belongs to the user
+export async function getScheduleById(userId: string, scheduleId: string): Promise<FullSchedule | undefined> {
+  const schedule = await db.query.ScheduleTable.findFirst({
+    where: ({ id, clerkUserId }, { and, eq }) => and(eq(clerkUserId, userId), eq(id, scheduleId)),
+    with: {
+      availabilities: true,
+      overrides: true,
+    },
+  })
+
+  return schedule ?? undefined // Explicitly return undefined if not found
+}
+
+// Fetch the schedule an event is booked against: its own schedule, or the host's default one
+async function getEventSchedule(
+  event: Pick<SchedulingEvent, "clerkUserId" | "scheduleId">
+): Promise<FullSchedule | undefined> {
+  if (event.scheduleId != null) {
+    const schedule = await getScheduleById(event.clerkUserId, event.scheduleId)
+    if (schedule != null) return schedule
+  }
+
+  return getSchedule(event.clerkUserId)
+}
+
 
 
-// This server action saves the user's schedule and availabilities
+// This server action creates a schedule, or updates it when `scheduleId` is given, together with its availabilities
 export async function saveSchedule(
-  unsafeData: z.infer<typeof scheduleFormSchema> // Accepts unvalidated form data
+  unsafeData: z.infer<typeof scheduleFormSchema>, // Accepts unvalidated form data
+  scheduleId?: string // ID of the schedule to update, undefined to create a new one
 ) {
   try {
     const { userId } = await auth() // Get currently authenticated user's ID
@@ -54,25 +96,40 @@ export async function saveSchedule(
       throw new Error("Invalid schedule data or user not authenticated.")
     }
 
-    // Destructure availabilities and the rest of the schedule data
-    const { availabilities, ...scheduleData } = data
+    // When updating, make sure the schedule exists and belongs to the user
+    if (scheduleId != null && (await getScheduleById(userId, scheduleId)) == null) {
+      throw new Error("Schedule not found or user not authorized to update this schedule.")
+    }
+
+    // Destructure availabilities, date overrides and the rest of the schedule data
+    const { availabilities, overrides, ...scheduleData } = data
+
+    // A user always has exactly one default schedule: their first schedule becomes the default,
+    // and the current default stays the default until another schedule takes over
+    const currentDefault = await getSchedule(userId)
+    const isDefault = scheduleData.isDefault || currentDefault == null || currentDefault.id === scheduleId
 
-    // Insert or update the user's schedule and return the schedule ID
-    const [{ id: scheduleId }] = await db
-      .insert(ScheduleTable)
-      .values({ ...scheduleData, clerkUserId: userId }) // Associate schedule with the current user
-      .onConflictDoUpdate({
-        target: ScheduleTable.clerkUserId, // Update if a schedule for this user already exists
-        set: scheduleData,
-      })
-      .returning({ id: ScheduleTable.id }) // Return the schedule ID for use in the next step
+    // New schedules get their ID up front so every statement can run in the same batch
+    const id = scheduleId ?? randomUUID()
 
     // Initialize SQL statements for batch execution
-    const statements: [BatchItem<"pg">] = [
+    const statements: [BatchItem<"pg">, ...BatchItem<"pg">[]] = [
+      // Insert or update the schedule itself
+      db
+        .insert(ScheduleTable)
+        .values({ ...scheduleData, id, isDefault, clerkUserId: userId }) // Associate schedule with the current user
+        .onConflictDoUpdate({
+          target: ScheduleTable.id, // Update if the schedule already exists
+          set: { ...scheduleData, isDefault },
+        }),
       // First, delete any existing availabilities for this schedule
       db
         .delete(ScheduleAvailabilityTable)
-        .where(eq(ScheduleAvailabilityTable.scheduleId, scheduleId)),
+        .where(eq(ScheduleAvailabilityTable.scheduleId, id)),
+      // Same for the date overrides
+      db
+        .delete(ScheduleDateOverrideTable)
+        .where(eq(ScheduleDateOverrideTable.scheduleId, id)),
     ]
 
     // If there are availabilities, prepare an insert operation for them
@@ -81,12 +138,37 @@ export async function saveSchedule(
         db.insert(ScheduleAvailabilityTable).values(
           availabilities.map(availability => ({
             ...availability,
-            scheduleId, // Link availability to the saved schedule
+            scheduleId: id, // Link availability to the saved schedule
+          }))
+        )
+      )
+    }
+
+    // If there are date overrides, prepare an insert operation for them too
+    if (overrides.length > 0) {
+      statements.push(
+        db.insert(ScheduleDateOverrideTable).values(
+          overrides.map(override => ({
+            scheduleId: id, // Link override to the saved schedule
+            date: override.date,
+            // A day off is stored without times
+            startTime: override.isUnavailable ? null : override.startTime,
+            endTime: override.isUnavailable ? null : override.endTime,
           }))
         )
       )
     }
 
+    // The previous default schedule has to give up its flag first (only one default per user)
+    if (isDefault && currentDefault != null && currentDefault.id !== id) {
+      statements.unshift(
+        db
+          .update(ScheduleTable)
+          .set({ isDefault: false })
+          .where(eq(ScheduleTable.id, currentDefault.id))
+      )
+    }
+
     // Run all statements in a single transaction
     await db.batch(statements)
 
@@ -100,17 +182,165 @@ export async function saveSchedule(
 }
 
 
+// This server action deletes one of the user's schedules; events using it fall back to the default schedule
+export async function deleteSchedule(
+  id: string // ID of the schedule to delete
+): Promise<void> {
+  try {
+    // Authenticate the user
+    const { userId } = await auth()
+
+    // Throw an error if no authenticated user
+    if (!userId) {
+      throw new Error("User not authenticated.")
+    }
+
+    // The default schedule can't be deleted, another schedule has to become the default first
+    const { rowCount } = await db
+      .delete(ScheduleTable)
+      .where(
+        and(
+          eq(ScheduleTable.id, id),
+          eq(ScheduleTable.clerkUserId, userId),
+          eq(ScheduleTable.isDefault, false)
+        )
+      )
+
+    // If no schedule was deleted (not found, not owned by the user, or the default one), throw an error
+    if (rowCount === 0) {
+      throw new Error("Schedule not found, not owned by the user, or the default schedule.")
+    }
+
+  } catch (error: any) {
+    // If any error occurs, throw a new error with a readable message
+    throw new Error(`Failed to delete schedule: ${error.message || error}`)
+  } finally {
+    revalidatePath('/schedule')
+  }
+}
+
+
+// The event settings that slot computation depends on
+export type SchedulingEvent = Pick<
+  typeof EventTable.$inferSelect,
+  | "id"
+  | "clerkUserId"
+  | "scheduleId"
+  | "durationInMinutes"
+  | "bufferBeforeInMinutes"
+  | "bufferAfterInMinutes"
+  | "minimumNoticeInMinutes"
+  | "slotIntervalInMinutes"
+  | "slotAlignment"
+  | "bookingWindowType"
+  | "bookingWindowInDays"
+  | "bookingWindowStartDate"
+  | "bookingWindowEndDate"
+  | "maxBookingsPerDay"
+  | "maxBookingsPerWeek"
+  | "maxBookingsPerMonth"
+  | "maxBookedMinutesPerDay"
+>
+
+// A meeting that is being moved to another time: its own slot reservation, calendar event and place in the
+// booking limits don't count against the times it can be moved to
+export type ReschedulingMeeting = Pick<typeof MeetingTable.$inferSelect, "id" | "calendarEventId">
+
+// Available start times of one month, grouped by day ("2025-03-14") in the guest's timezone.
+// Days without a key have no free time, which is all the calendar needs to disable them.
+export type MonthAvailability = Record<string, Date[]>
+
+// This server action returns the times a guest can book in one month, so the booking calendar can
+// load month by month instead of receiving a whole year of times with the page
+export async function getMonthAvailability(
+  unsafeData: z.infer<typeof monthAvailabilitySchema>
+): Promise<MonthAvailability> {
+  const { success, data } = monthAvailabilitySchema.safeParse(unsafeData)
+
+  if (!success) {
+    throw new Error("Invalid month or timezone.")
+  }
+
+  // Only active events can be booked
+  const event = await db.query.EventTable.findFirst({
+    where: ({ id, clerkUserId, isActive }, { and, eq }) =>
+      and(eq(clerkUserId, data.clerkUserId), eq(id, data.eventId), eq(isActive, true)),
+  })
+  if (event == null) return {}
+
+  const month = getMonthRange(data.month, data.timezone)
+  const times = await getAvailableTimes(event, month)
+
+  // The range includes its end, which already belongs to the next month
+  return groupTimesByDay(times.filter(time => time < month.end), data.timezone)
+}
+
+// Returns every start time a guest can currently book for an event (optionally limited to a date range).
+// Candidates are the event's start times (its interval and alignment) inside the booking window,
+// then checked against the schedule.
+export async function getAvailableTimes(
+  event: SchedulingEvent,
+  range?: { start: Date; end: Date }, // Optional extra limit, e.g. a single month
+  reschedulingMeeting?: ReschedulingMeeting // The meeting the times are offered to, when moving one
+): Promise<Date[]> {
+  const schedule = await getEventSchedule(event)
+
+  // No schedule means no availability at all
+  if (schedule == null) return []
+
+  // Respect the minimum notice and how far ahead the event can be booked
+  const window = getBookingWindow(event, schedule.timezone)
+  const start = range ? max([window.start, range.start]) : window.start
+  const end = range ? min([window.end, range.end]) : window.end
+
+  // Nothing left to book in this range
+  if (start >= end) return []
+
+  return getValidTimesFromSchedule(
+    getSlotStarts(getScheduleWindows(schedule, { start, end }), event, schedule.timezone)
+      .filter(time => time >= start && time <= end),
+    event,
+    reschedulingMeeting
+  )
+}
+
+// Returns the first time a guest can book, looking month by month (like the booking calendar) so a free
+// time early in the booking window doesn't cost a whole year of slots. Undefined if there is none.
+export async function getFirstAvailableTime(
+  event: SchedulingEvent,
+  reschedulingMeeting?: ReschedulingMeeting
+): Promise<Date | undefined> {
+  const schedule = await getEventSchedule(event)
+  if (schedule == null) return undefined
+
+  const window = getBookingWindow(event, schedule.timezone)
+  for (let start = window.start; start < window.end; ) {
+    const month = getMonthRange(formatInTimeZone(start, schedule.timezone, "yyyy-MM"), schedule.timezone)
+    const [time] = await getAvailableTimes(event, month, reschedulingMeeting)
+    if (time != null) return time
+
+    start = month.end
+  }
+
+  return undefined
+}
+
 /**
  * Filters a list of time slots to return only those that:
- * 1. Match the user's availability schedule
- * 2. Do not overlap with existing Google Calendar events
+ * 1. Respect the event's minimum notice and booking window
+ * 2. Match the user's availability schedule
+ * 3. Do not overlap with existing events in the host's calendar (Google or CalDAV) or Calendify bookings,
+ *    keeping the event's buffer before/after free as well
+ * 4. Fall on a day (week, month) where neither the event's nor the host's booking limits are reached yet
+ * When moving a meeting, pass it as `reschedulingMeeting` so it doesn't block its own new time.
  */
 export async function getValidTimesFromSchedule(
     timesInOrder: Date[], // All possible time slots to check
-    event: { clerkUserId: string; durationInMinutes: number } // Event-specific data
+    event: SchedulingEvent, // Event-specific data
+    reschedulingMeeting?: ReschedulingMeeting // The meeting being moved, if any
 ) : Promise<Date[]> {
 
-  const {clerkUserId: userId, durationInMinutes} = event
+  const {clerkUserId: userId, durationInMinutes, bufferBeforeInMinutes, bufferAfterInMinutes} = event
 
   // Define the start and end of the overall range to check
   const start = timesInOrder[0]
@@ -119,119 +349,161 @@ export async function getValidTimesFromSchedule(
    // If start or end is missing, there are no times to check
    if (!start || !end) return []
 
-   // Fetch the user's saved schedule along with their availabilities
-  const schedule = await getSchedule(userId)
+   // Fetch the schedule assigned to the event (or the default one) along with its availabilities
+  const schedule = await getEventSchedule(event)
 
    // If no schedule is found, return an empty list (user has no availabilities)
    if (schedule == null) return []
 
-  // Group availabilities by day of the week (e.g., Monday, Tuesday)
-  const groupedAvailabilities = Object.groupBy(
-    schedule.availabilities,
-    a => a.dayOfWeek
-  )
-
-   // Fetch all existing Google Calendar events between start and end
-   const eventTimes = await getCalendarEventTimes(userId, {
-    start,
-    end,
-  })
-
-  // Filter and return only valid time slots based on availability and conflicts
-  return timesInOrder.filter(intervalDate => {
-     // Get the user's availabilities for the specific day, adjusted to their timezone
-    const availabilities = getAvailabilities(
-      groupedAvailabilities,
-      intervalDate,
-      schedule.timezone
-    )
-
-
-  // Define the time range for a potential event starting at this interval
-  const eventInterval = {
-    start: intervalDate, // Proposed start time
-    end: addMinutes(intervalDate, durationInMinutes), // Proposed end time (start + duration)
-  }
+  // The schedule's available windows (weekly hours or date overrides, in the schedule's timezone),
+  // from the day of the first time up to the end of the last meeting
+  const availabilityWindows = getScheduleWindows(schedule, { start, end: addMinutes(end, durationInMinutes) })
 
-  // Keep only the time slots that satisfy two conditions:
-    return (
-    // 1. This time slot does not overlap with any existing calendar events
-    eventTimes.every(eventTime => {
-      return !areIntervalsOverlapping(eventTime, eventInterval)
-    }) &&
-    // 2. The entire proposed event fits within at least one availability window
-    availabilities.some(availability => {
-      return (
-        isWithinInterval(eventInterval.start, availability) && // Start is inside availability
-        isWithinInterval(eventInterval.end, availability) // End is inside availability
-      )
-    })
+  // Only the event's own start times (interval and alignment) can be booked, also when a single time is checked
+  const slotStarts = new Set(
+    getSlotStarts(availabilityWindows, event, schedule.timezone).map(time => time.getTime())
   )
 
+   // Fetch all existing calendar events and Calendify bookings between start and end
+   // The range covers the whole last meeting and the buffers around the first and last ones
+   const busyRange = {
+    start: subMinutes(start, bufferBeforeInMinutes),
+    end: addMinutes(end, durationInMinutes + bufferAfterInMinutes),
+   }
+   // Booking requests the host didn't answer in time must not hold their slots anymore
+   await releaseExpiredRequests(userId)
+   const [calendarEventTimes, bookedMeetingTimes, bookingLimitChecker] = await Promise.all([
+    getCalendarProvider(userId).then(calendar => getCachedBusyTimes(calendar, userId, busyRange, schedule.timezone)),
+    getBookedMeetingTimes(userId, busyRange, reschedulingMeeting?.id),
+    getBookingLimitChecker(event, { start, end }, schedule.timezone, reschedulingMeeting?.id),
+  ])
+
+  // A meeting can't overlap a busy range, and must keep its own buffers free too
+  const blockedTimes = addBuffers([
+    // The calendar event of the meeting being moved goes away with the move
+    ...calendarEventTimes.filter(busy => busy.eventId == null || busy.eventId !== reschedulingMeeting?.calendarEventId),
+    ...bookedMeetingTimes,
+  ], event)
+
+  // Free time = the schedule's available windows minus everything that's blocked.
+  // Computing this once avoids checking every candidate against every event.
+  const freeWindows = subtractIntervals(availabilityWindows, blockedTimes)
+
+  // Range of start times that can be booked right now (minimum notice and booking horizon)
+  const bookingWindow = getBookingWindow(event, schedule.timezone)
+
+  // Keep the time slots where the whole meeting fits in a free window, then apply the cheaper per-slot checks
+  return filterTimesInWindows(
+    timesInOrder.filter(time => slotStarts.has(time.getTime())),
+    freeWindows,
+    durationInMinutes
+  ).filter(intervalDate =>
+    // Too soon or too far in the future
+    isInBookingWindow(intervalDate, bookingWindow) &&
+    // Enough meetings have already been booked on that day, week or month
+    bookingLimitChecker(intervalDate)
+  )
+}
 
 
-  })
-
+// Lists the available windows of a schedule (weekly hours, or date overrides for their date) between two dates
+function getScheduleWindows(schedule: FullSchedule, range: { start: Date; end: Date }): { start: Date; end: Date }[] {
+  return getAvailabilityWindows(
+    Object.groupBy(schedule.availabilities, a => a.dayOfWeek), // Availabilities by day of the week (e.g., Monday)
+    Object.groupBy(schedule.overrides, o => o.date), // Date overrides by date (e.g., "2025-12-24")
+    range,
+    schedule.timezone
+  )
+}
 
 
+// Fetch the time ranges of the host's Calendify bookings that still hold their slot (except `ignoredMeetingId`),
+// each widened by the buffers of its own event type so back-to-back bookings keep their gaps
+async function getBookedMeetingTimes(
+  userId: string,
+  { start, end }: { start: Date; end: Date },
+  ignoredMeetingId?: string
+): Promise<{ start: Date; end: Date }[]> {
+  const reservations = await db
+    .select({
+      start: SlotReservationTable.startTime,
+      end: SlotReservationTable.endTime,
+      bufferBeforeInMinutes: EventTable.bufferBeforeInMinutes,
+      bufferAfterInMinutes: EventTable.bufferAfterInMinutes,
+    })
+    .from(SlotReservationTable)
+    .innerJoin(MeetingTable, eq(MeetingTable.id, SlotReservationTable.meetingId))
+    .innerJoin(EventTable, eq(EventTable.id, MeetingTable.eventId))
+    .where(
+      and(
+        eq(SlotReservationTable.clerkUserId, userId),
+        // Look a little outside the range so buffers reaching into it are taken into account
+        lt(SlotReservationTable.startTime, addMinutes(end, MAX_BUFFER_IN_MINUTES)),
+        gt(SlotReservationTable.endTime, subMinutes(start, MAX_BUFFER_IN_MINUTES)),
+        ignoredMeetingId != null ? ne(SlotReservationTable.meetingId, ignoredMeetingId) : undefined
+      )
+    )
 
+  return reservations.map(reservation => ({
+    start: subMinutes(reservation.start, reservation.bufferBeforeInMinutes),
+    end: addMinutes(reservation.end, reservation.bufferAfterInMinutes),
+  }))
+}
 
 
-}
+// Builds a function that tells whether one more meeting of `event` can be booked at a given time
+// without going over the event's own booking limits or the host's overall limits.
+// Existing Calendify bookings (except `ignoredMeetingId`) are counted once up front, so each check is just a few lookups.
+async function getBookingLimitChecker(
+  event: SchedulingEvent,
+  { start, end }: { start: Date; end: Date },
+  timezone: string,
+  ignoredMeetingId?: string
+): Promise<(date: Date) => boolean> {
+  // Only the limit fields: the event and settings rows have plenty of other non-null columns
+  const eventLimits: BookingLimits = {
+    maxBookingsPerDay: event.maxBookingsPerDay,
+    maxBookingsPerWeek: event.maxBookingsPerWeek,
+    maxBookingsPerMonth: event.maxBookingsPerMonth,
+    maxBookedMinutesPerDay: event.maxBookedMinutesPerDay,
+  }
+  const hostSettings = await getUserSettings(event.clerkUserId)
+  const hostLimits: BookingLimits = {
+    maxBookingsPerDay: hostSettings?.maxBookingsPerDay ?? null,
+    maxBookingsPerWeek: hostSettings?.maxBookingsPerWeek ?? null,
+    maxBookingsPerMonth: hostSettings?.maxBookingsPerMonth ?? null,
+    maxBookedMinutesPerDay: hostSettings?.maxBookedMinutesPerDay ?? null,
+  }
 
+  // No limits at all: every slot passes
+  if (!hasBookingLimits(eventLimits) && !hasBookingLimits(hostLimits)) return () => true
 
-function getAvailabilities(
-  groupedAvailabilities: Partial<
-    Record<
-      (typeof DAYS_OF_WEEK_IN_ORDER)[number],
-      (typeof ScheduleAvailabilityTable.$inferSelect)[]
-    >
-  >,
-  date: Date,
-  timezone: string
-): { start: Date; end: Date }[] {
-  // Determine the day of the week based on the given date
-  const dayOfWeek = (() => {
-    if (isMonday(date)) return "monday"
-    if (isTuesday(date)) return "tuesday"
-    if (isWednesday(date)) return "wednesday"
-    if (isThursday(date)) return "thursday"
-    if (isFriday(date)) return "friday"
-    if (isSaturday(date)) return "saturday"
-    if (isSunday(date)) return "sunday"
-    return null // If the date doesn't match any day (highly unlikely), return null
-  })()
-
-  // If day of the week is not determined, return an empty array
-  if (!dayOfWeek) return []
-
-  // Get the availabilities for the determined day
-  const dayAvailabilities = groupedAvailabilities[dayOfWeek]
-
-  // If there are no availabilities for that day, return an empty array
-  if (!dayAvailabilities) return []
-
-  // Map each availability time range to a { start: Date, end: Date } object adjusted to the user's timezone
-  return dayAvailabilities.map(({ startTime, endTime }) => {
-    // Parse startTime (e.g., "09:30") into hours and minutes
-    const [startHour, startMinute] = startTime.split(":").map(Number)
-    // Parse endTime (e.g., "17:00") into hours and minutes
-    const [endHour, endMinute] = endTime.split(":").map(Number)
-
-    // Create a start Date object set to the correct hour and minute, then convert it to the given timezone
-    const start = fromZonedTime(
-      setMinutes(setHours(date, startHour), startMinute),
-      timezone
+  // Every booking that still holds its slot, in a range wide enough to cover whole weeks and months
+  const bookings = await db
+    .select({
+      start: SlotReservationTable.startTime,
+      end: SlotReservationTable.endTime,
+      eventId: MeetingTable.eventId,
+    })
+    .from(SlotReservationTable)
+    .innerJoin(MeetingTable, eq(MeetingTable.id, SlotReservationTable.meetingId))
+    .where(
+      and(
+        eq(SlotReservationTable.clerkUserId, event.clerkUserId),
+        gte(SlotReservationTable.startTime, subDays(start, 32)),
+        lt(SlotReservationTable.startTime, addDays(end, 32)),
+        ignoredMeetingId != null ? ne(SlotReservationTable.meetingId, ignoredMeetingId) : undefined
+      )
     )
 
-    // Create an end Date object set to the correct hour and minute, then convert it to the given timezone
-    const end = fromZonedTime(
-      setMinutes(setHours(date, endHour), endMinute),
-      timezone
-    )
+  // Totals for the host (all events) and for this event only
+  const hostTotals = getBookingTotals(bookings, timezone)
+  const eventTotals = getBookingTotals(
+    bookings.filter(booking => booking.eventId === event.id),
+    timezone
+  )
 
-    // Return the availability interval
-    return { start, end }
-  })
+  return date =>
+    isWithinBookingLimits(date, event.durationInMinutes, eventLimits, eventTotals, timezone) &&
+    isWithinBookingLimits(date, event.durationInMinutes, hostLimits, hostTotals, timezone)
 }
-
@@ -0,0 +1,264 @@
+'use server'
+
+import { db } from "@/drizzle/db"
+import { UserSettingsTable } from "@/drizzle/schema"
+import { bookingLimitsSchema, calendarProviderSchema, googleCalendarsSchema, toBookingLimitColumns, usernameSchema } from "@/schema/settings"
+import { auth } from "@clerk/nextjs/server"
+import { addDays } from "date-fns"
+import { eq } from "drizzle-orm"
+import { randomUUID } from "crypto"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import { invalidateBusyTimes } from "../calendar/cache"
+import { createCalDavProvider } from "../calendar/caldav"
+import { listCalendars } from "../google/googleCalendar"
+import { encryptSecret } from "../secrets"
+import { getCalDavPassword, getUserSettingsByUsername } from "../settings"
+
+// This server action lets the settings form check a username while the user types it
+export async function isUsernameAvailable(name: string): Promise<boolean> {
+  const { userId } = await auth()
+  if (!userId || !usernameSchema.safeParse({ username: name }).success) return false
+
+  const settings = await getUserSettingsByUsername(name)
+  return settings == null || settings.clerkUserId === userId
+}
+
+// This server action saves the username used in the user's booking URLs
+export async function saveUsername(
+  unsafeData: z.infer<typeof usernameSchema> // Accepts unvalidated form data
+): Promise<void> {
+  try {
+    const { userId } = await auth() // Get currently authenticated user's ID
+
+    // Validate the incoming data against the username schema
+    const { success, data } = usernameSchema.safeParse(unsafeData)
+
+    // If validation fails or no user is authenticated, throw an error
+    if (!success || !userId) {
+      throw new Error("Invalid username or user not authenticated.")
+    }
+
+    // The unique index would reject it too, this gives a readable message
+    if (!(await isUsernameAvailable(data.username))) {
+      throw new Error("This username is already taken.")
+    }
+
+    // Insert or update the user's settings row
+    await db
+      .insert(UserSettingsTable)
+      .values({ username: data.username, clerkUserId: userId })
+      .onConflictDoUpdate({
+        target: UserSettingsTable.clerkUserId, // Update if settings for this user already exist
+        set: { username: data.username },
+      })
+
+  } catch (error: any) {
+    // Catch and throw an error with a readable message
+    throw new Error(`Failed to save username: ${error.message || error}`)
+  } finally {
+    // Revalidate the /settings path to update the cache and reflect the new data
+    revalidatePath('/settings')
+  }
+}
+
+// This server action saves the booking limits that apply to all of the user's events
+export async function saveBookingLimits(
+  unsafeData: z.infer<typeof bookingLimitsSchema> // Accepts unvalidated form data
+): Promise<void> {
+  try {
+    const { userId } = await auth() // Get currently authenticated user's ID
+
+    // Validate the incoming data against the booking limits schema
+    const { success, data } = bookingLimitsSchema.safeParse(unsafeData)
+
+    // If validation fails or no user is authenticated, throw an error
+    if (!success || !userId) {
+      throw new Error("Invalid booking limits or user not authenticated.")
+    }
+
+    // Limits left empty are stored as NULL ("no limit")
+    const limits = toBookingLimitColumns(data)
+
+    // Insert or update the user's settings row
+    await db
+      .insert(UserSettingsTable)
+      .values({ ...limits, clerkUserId: userId })
+      .onConflictDoUpdate({
+        target: UserSettingsTable.clerkUserId, // Update if settings for this user already exist
+        set: limits,
+      })
+
+  } catch (error: any) {
+    // Catch and throw an error with a readable message
+    throw new Error(`Failed to save booking limits: ${error.message || error}`)
+  } finally {
+    // Revalidate the /settings path to update the cache and reflect the new data
+    revalidatePath('/settings')
+  }
+}
+
+
+// This server action saves which calendar (Google or CalDAV) the user's meetings are synced with
+export async function saveCalendarProvider(
+  unsafeData: z.infer<typeof calendarProviderSchema> // Accepts unvalidated form data
+): Promise<void> {
+  try {
+    const { userId } = await auth() // Get currently authenticated user's ID
+
+    // Validate the incoming data against the calendar provider schema
+    const { success, data } = calendarProviderSchema.safeParse(unsafeData)
+
+    // If validation fails or no user is authenticated, throw an error
+    if (!success || !userId) {
+      throw new Error("Invalid calendar settings or user not authenticated.")
+    }
+
+    let columns: Partial<typeof UserSettingsTable.$inferInsert> = { calendarProvider: data.calendarProvider }
+
+    if (data.calendarProvider === "caldav") {
+      // An empty password keeps the one saved before, so it never has to be sent back to the browser
+      const password = data.caldavPassword || (await getCalDavPassword(userId))
+      if (!password) {
+        throw new Error("Password is required.")
+      }
+
+      // Make sure the calendar can actually be reached before switching to it
+      const start = new Date()
+      await createCalDavProvider({
+        calendarUrl: data.caldavUrl!,
+        username: data.caldavUsername!,
+        password,
+      }).listBusy({ start, end: addDays(start, 1) }, "UTC")
+
+      columns = {
+        ...columns,
+        caldavUrl: data.caldavUrl,
+        caldavUsername: data.caldavUsername,
+        caldavPassword: encryptSecret(password), // Stored encrypted, see server/secrets.ts
+      }
+    }
+
+    // Insert or update the user's settings row (CalDAV credentials are kept when switching back to Google)
+    await db
+      .insert(UserSettingsTable)
+      .values({ ...columns, clerkUserId: userId })
+      .onConflictDoUpdate({
+        target: UserSettingsTable.clerkUserId, // Update if settings for this user already exist
+        set: columns,
+      })
+
+    // Busy times now come from other calendars
+    invalidateBusyTimes(userId)
+
+  } catch (error: any) {
+    // Catch and throw an error with a readable message
+    throw new Error(`Failed to save calendar settings: ${error.message || error}`)
+  } finally {
+    // Revalidate the /settings path to update the cache and reflect the new data
+    revalidatePath('/settings')
+  }
+}
+
+// This server action saves which Google calendars count as busy and which one new bookings are written to
+export async function saveGoogleCalendars(
+  unsafeData: z.infer<typeof googleCalendarsSchema> // Accepts unvalidated form data
+): Promise<void> {
+  try {
+    const { userId } = await auth() // Get currently authenticated user's ID
+
+    // Validate the incoming data against the Google calendars schema
+    const { success, data } = googleCalendarsSchema.safeParse(unsafeData)
+
+    // If validation fails or no user is authenticated, throw an error
+    if (!success || !userId) {
+      throw new Error("Invalid calendar selection or user not authenticated.")
+    }
+
+    // Only accept calendars that are actually in the user's list, and only write to ones they can edit
+    const calendars = await listCalendars(userId)
+    if (!data.busyCalendarIds.every(id => calendars.some(calendar => calendar.id === id))) {
+      throw new Error("Unknown calendar.")
+    }
+    if (!calendars.some(calendar => calendar.id === data.bookingCalendarId && calendar.writable)) {
+      throw new Error("New bookings can't be added to that calendar.")
+    }
+
+    const columns = {
+      googleBusyCalendarIds: data.busyCalendarIds,
+      googleBookingCalendarId: data.bookingCalendarId,
+    }
+
+    // Insert or update the user's settings row
+    await db
+      .insert(UserSettingsTable)
+      .values({ ...columns, clerkUserId: userId })
+      .onConflictDoUpdate({
+        target: UserSettingsTable.clerkUserId, // Update if settings for this user already exist
+        set: columns,
+      })
+
+    // Busy times now come from other calendars
+    invalidateBusyTimes(userId)
+
+  } catch (error: any) {
+    // Catch and throw an error with a readable message
+    throw new Error(`Failed to save calendars: ${error.message || error}`)
+  } finally {
+    // Revalidate the /settings path to update the cache and reflect the new data
+    revalidatePath('/settings')
+  }
+}
+
+// This server action turns on the user's iCal feed, or gives it a new secret URL if it is on already
+// (the old URL stops working right away, e.g. after it was shared by mistake)
+export async function regenerateCalendarFeedToken(): Promise<void> {
+  try {
+    const { userId } = await auth() // Get currently authenticated user's ID
+
+    if (!userId) {
+      throw new Error("User not authenticated.")
+    }
+
+    const calendarFeedToken = randomUUID()
+
+    // Insert or update the user's settings row
+    await db
+      .insert(UserSettingsTable)
+      .values({ calendarFeedToken, clerkUserId: userId })
+      .onConflictDoUpdate({
+        target: UserSettingsTable.clerkUserId, // Update if settings for this user already exist
+        set: { calendarFeedToken },
+      })
+
+  } catch (error: any) {
+    // Catch and throw an error with a readable message
+    throw new Error(`Failed to create calendar feed URL: ${error.message || error}`)
+  } finally {
+    // Revalidate the /settings path to update the cache and reflect the new data
+    revalidatePath('/settings')
+  }
+}
+
+// This server action turns off the user's iCal feed, so its URL stops working
+export async function disableCalendarFeed(): Promise<void> {
+  try {
+    const { userId } = await auth() // Get currently authenticated user's ID
+
+    if (!userId) {
+      throw new Error("User not authenticated.")
+    }
+
+    await db
+      .update(UserSettingsTable)
+      .set({ calendarFeedToken: null })
+      .where(eq(UserSettingsTable.clerkUserId, userId))
+
+  } catch (error: any) {
+    // Catch and throw an error with a readable message
+    throw new Error(`Failed to turn off calendar feed: ${error.message || error}`)
+  } finally {
+    // Revalidate the /settings path to update the cache and reflect the new data
+    revalidatePath('/settings')
+  }
+}
@@ -0,0 +1,93 @@
+'use server'
+
+import { db } from "@/drizzle/db"
+import { WebhookTable } from "@/drizzle/schema"
+import { webhookFormSchema } from "@/schema/webhooks"
+import { assertPublicUrl } from "../publicUrl"
+import { encryptSecret } from "../secrets"
+import { auth } from "@clerk/nextjs/server"
+import { and, eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+
+// How many of the latest deliveries are shown with each webhook
+const DELIVERIES_PER_WEBHOOK = 10
+
+// Fetch a user's webhooks with their latest deliveries (the delivery log).
+// Secrets are left out: they are only shown once, when the webhook is set up.
+export async function getWebhooks(userId: string) {
+  return db.query.WebhookTable.findMany({
+    columns: { secret: false },
+    where: ({ clerkUserId }, { eq }) => eq(clerkUserId, userId),
+    orderBy: ({ createdAt }, { asc }) => asc(createdAt),
+    with: {
+      deliveries: {
+        columns: { id: true, trigger: true, status: true, attempts: true, responseStatus: true, error: true, createdAt: true },
+        orderBy: ({ createdAt }, { desc }) => desc(createdAt),
+        limit: DELIVERIES_PER_WEBHOOK,
+      },
+    },
+  })
+}
+
+// This server action sets up a new webhook for the authenticated user
+export async function createWebhook(
+  unsafeData: z.infer<typeof webhookFormSchema> // Accepts unvalidated form data
+): Promise<void> {
+  try {
+    const { userId } = await auth() // Get currently authenticated user's ID
+
+    // Validate the incoming data against the webhook form schema
+    const { success, data } = webhookFormSchema.safeParse(unsafeData)
+
+    // If validation fails or no user is authenticated, throw an error
+    if (!success || !userId) {
+      throw new Error("Invalid webhook data or user not authenticated.")
+    }
+
+    // Calls to localhost or private networks are refused anyway, better to say so right away
+    await assertPublicUrl(data.url)
+
+    await db.insert(WebhookTable).values({
+      ...data,
+      secret: encryptSecret(data.secret), // Stored encrypted, see server/secrets.ts
+      clerkUserId: userId,
+    })
+
+  } catch (error: any) {
+    // Catch and throw an error with a readable message
+    throw new Error(`Failed to create webhook: ${error.message || error}`)
+  } finally {
+    // Revalidate the /settings path to update the cache and reflect the new data
+    revalidatePath('/settings')
+  }
+}
+
+// This server action deletes one of the authenticated user's webhooks, together with its delivery log
+export async function deleteWebhook(
+  id: string // ID of the webhook to delete
+): Promise<void> {
+  try {
+    const { userId } = await auth() // Get currently authenticated user's ID
+
+    if (!userId) {
+      throw new Error("User not authenticated.")
+    }
+
+    // Delete the webhook only if it belongs to the authenticated user
+    const { rowCount } = await db
+      .delete(WebhookTable)
+      .where(and(eq(WebhookTable.id, id), eq(WebhookTable.clerkUserId, userId)))
+
+    if (rowCount === 0) {
+      throw new Error("Webhook not found or user not authorized to delete it.")
+    }
+
+  } catch (error: any) {
+    // Catch and throw an error with a readable message
+    throw new Error(`Failed to delete webhook: ${error.message || error}`)
+  } finally {
+    // Revalidate the /settings path to update the cache and reflect the new data
+    revalidatePath('/settings')
+  }
+}
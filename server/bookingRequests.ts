@@ -0,0 +1,35 @@
+import { db } from "@/drizzle/db"
+import { MeetingTable, SlotReservationTable } from "@/drizzle/schema"
+import { and, eq, inArray, lte, sql } from "drizzle-orm"
+import { queueMeetingEmails } from "./mail"
+
+// Marks booking requests the host didn't answer in time as expired and frees their slots,
+// for one host or (without `clerkUserId`) for everyone. A job queued with each request runs this when
+// the request expires; it also runs before free times are computed and before requests are listed or
+// answered, in case the job hasn't run yet. Guests of expired requests get an email that the time was released.
+export async function releaseExpiredRequests(clerkUserId?: string): Promise<void> {
+  const expired = and(
+    eq(MeetingTable.status, "pending"),
+    lte(MeetingTable.expiresAt, new Date()),
+    clerkUserId ? eq(MeetingTable.clerkUserId, clerkUserId) : undefined
+  )
+
+  // Both in one transaction, so a request is never marked expired while still holding its slot
+  const [, expiredMeetings] = await db.batch([
+    db
+      .delete(SlotReservationTable)
+      .where(inArray(
+        SlotReservationTable.meetingId,
+        db.select({ id: MeetingTable.id }).from(MeetingTable).where(expired)
+      )),
+    db
+      .update(MeetingTable)
+      .set({ status: "expired", sequence: sql`${MeetingTable.sequence} + 1` })
+      .where(expired)
+      .returning({ id: MeetingTable.id, sequence: MeetingTable.sequence }),
+  ])
+
+  for (const meeting of expiredMeetings) {
+    await queueMeetingEmails("declined", meeting, { recipients: ["guest"] })
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from "vitest"
+import { getCachedBusyTimes, invalidateBusyTimes } from "./cache"
+import type { CalendarProvider } from "./types"
+
+// A calendar that counts how often its busy times are read
+function createCalendar(busyTimesKey: string): CalendarProvider {
+  return {
+    name: "google",
+    calendarId: null,
+    busyTimesKey,
+    listBusy: vi.fn(async () => [{ start: new Date("2025-03-14T09:00:00Z"), end: new Date("2025-03-14T10:00:00Z") }]),
+    createEvent: vi.fn(),
+    updateEvent: vi.fn(),
+    deleteEvent: vi.fn(),
+  }
+}
+
+const month = { start: new Date("2025-03-01T00:00:00Z"), end: new Date("2025-04-01T00:00:00Z") }
+const day = { start: new Date("2025-03-14T00:00:00Z"), end: new Date("2025-03-15T00:00:00Z") }
+
+describe("getCachedBusyTimes", () => {
+  it("reuses busy times read for a range covering the requested one", async () => {
+    const calendar = createCalendar("primary")
+
+    await getCachedBusyTimes(calendar, "user-1", month, "UTC")
+    expect(await getCachedBusyTimes(calendar, "user-1", day, "UTC")).toHaveLength(1)
+    expect(calendar.listBusy).toHaveBeenCalledTimes(1)
+
+    invalidateBusyTimes("user-1")
+    await getCachedBusyTimes(calendar, "user-1", day, "UTC")
+    expect(calendar.listBusy).toHaveBeenCalledTimes(2)
+  })
+
+  it("reads again when the host selected other calendars", async () => {
+    const before = createCalendar("primary")
+    const after = createCalendar("primary,team@group.calendar.google.com")
+
+    await getCachedBusyTimes(before, "user-2", month, "UTC")
+    await getCachedBusyTimes(after, "user-2", day, "UTC")
+
+    expect(after.listBusy).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,71 @@
+import { BUSY_TIMES_CACHE_TTL_IN_SECONDS } from "@/constants"
+import { areIntervalsOverlapping } from "date-fns"
+import type { BusyTime, CalendarProvider, TimeRange } from "./types"
+
+// Busy times last read from a host's calendar, for the calendars, range and timezone they were read for
+type CachedBusyTimes = {
+  source: string // Provider and calendar selection (see CalendarProvider.busyTimesKey)
+  timezone: string
+  range: TimeRange
+  busy: Promise<BusyTime[]> // Shared by requests arriving while the calendar is still being read
+  expiresAt: number
+}
+
+// One entry per host, kept in the memory of this server instance only. invalidateBusyTimes() clears it in the
+// process that made a change; other instances (and the job worker) may keep serving the old busy times until
+// the entry expires, which is why entries only live for BUSY_TIMES_CACHE_TTL_IN_SECONDS. Calendify's own bookings
+// are read from the database on every check, so a taken slot is never offered again; at worst time freed by a
+// cancellation, or a change made directly in the host's calendar, shows up a minute late on other instances.
+const busyTimesCache = new Map<string, CachedBusyTimes>()
+
+// Returns the host's busy times in `range`, reusing what was read from the same calendars in the last minute
+// when it covers the range. The booking page, the month navigation and the final check when booking
+// all ask for overlapping ranges, so most page views don't reach Google or the CalDAV server at all.
+export async function getCachedBusyTimes(
+  calendar: CalendarProvider,
+  clerkUserId: string,
+  range: TimeRange,
+  timezone: string
+): Promise<BusyTime[]> {
+  const now = Date.now()
+  const source = `${calendar.name}:${calendar.busyTimesKey}`
+  const cached = busyTimesCache.get(clerkUserId)
+
+  if (
+    cached &&
+    cached.expiresAt > now &&
+    cached.source === source && // The host may have switched providers or picked other calendars
+    cached.timezone === timezone && // All-day events depend on the timezone
+    cached.range.start <= range.start &&
+    cached.range.end >= range.end
+  ) {
+    const busy = await cached.busy
+    return busy.filter(busyTime => areIntervalsOverlapping(busyTime, range))
+  }
+
+  const busy = calendar.listBusy(range, timezone)
+  busyTimesCache.set(clerkUserId, {
+    source,
+    timezone,
+    range,
+    busy,
+    expiresAt: now + BUSY_TIMES_CACHE_TTL_IN_SECONDS * 1000,
+  })
+
+  // Don't keep failures around, the next request should try again
+  busy.catch(() => {
+    if (busyTimesCache.get(clerkUserId)?.busy === busy) busyTimesCache.delete(clerkUserId)
+  })
+
+  // Forget other hosts' expired entries so the cache doesn't grow forever
+  busyTimesCache.forEach((entry, key) => {
+    if (entry.expiresAt <= now) busyTimesCache.delete(key)
+  })
+
+  return busy
+}
+
+// Drops the cached busy times of a host, e.g. after a booking changed their calendar
+export function invalidateBusyTimes(clerkUserId: string): void {
+  busyTimesCache.delete(clerkUserId)
+}
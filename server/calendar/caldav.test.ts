@@ -0,0 +1,184 @@
+import { createServer, type IncomingMessage, type Server } from "http"
+import type { AddressInfo } from "net"
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest"
+import { createCalDavProvider } from "./caldav"
+
+// A tiny CalDAV server: event resources in memory, REPORT lists all of them (like a server would for a
+// calendar-query matching everything), PUT/GET/DELETE with ETags and the preconditions Calendify sends
+type StoredEvent = { ics: string; etag: string }
+const events = new Map<string, StoredEvent>()
+const requests: { method: string; url: string; headers: IncomingMessage["headers"]; body: string }[] = []
+let etagCounter = 0
+
+const USERNAME = "host@example.com"
+const PASSWORD = "app-password"
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+let server: Server
+let calendarUrl: string
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = ""
+    request.on("data", chunk => (body += chunk))
+    request.on("end", () => {
+      const url = request.url ?? ""
+      requests.push({ method: request.method ?? "", url, headers: request.headers, body })
+
+      if (request.headers.authorization !== `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString("base64")}`) {
+        response.writeHead(401).end()
+        return
+      }
+
+      const stored = events.get(url)
+      switch (request.method) {
+        case "REPORT": {
+          const responses = [...events].map(([href, event]) => `
+  <d:response>
+    <d:href>${href}</d:href>
+    <d:propstat>
+      <d:prop><cal:calendar-data>${escapeXml(event.ics)}</cal:calendar-data></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>`)
+          response.writeHead(207, { "Content-Type": "application/xml; charset=utf-8" })
+          response.end(`<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">${responses.join("")}
+</d:multistatus>`)
+          return
+        }
+        case "PUT": {
+          if (request.headers["if-none-match"] === "*" && stored) return void response.writeHead(412).end()
+          if (request.headers["if-match"] && request.headers["if-match"] !== stored?.etag) return void response.writeHead(412).end()
+          const etag = `"${++etagCounter}"`
+          events.set(url, { ics: body, etag })
+          response.writeHead(stored ? 204 : 201, { ETag: etag }).end()
+          return
+        }
+        case "GET":
+          if (!stored) return void response.writeHead(404).end()
+          response.writeHead(200, { "Content-Type": "text/calendar", ETag: stored.etag }).end(stored.ics)
+          return
+        case "DELETE":
+          response.writeHead(events.delete(url) ? 204 : 404).end()
+          return
+        default:
+          response.writeHead(405).end()
+      }
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+  calendarUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/calendars/host/default/`
+})
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+afterEach(() => {
+  events.clear()
+  requests.length = 0
+  vi.unstubAllEnvs()
+})
+
+const day = { start: new Date("2025-03-14T00:00:00Z"), end: new Date("2025-03-15T00:00:00Z") }
+
+function createProvider(password = PASSWORD) {
+  return createCalDavProvider({
+    calendarUrl,
+    username: USERNAME,
+    password,
+    getOrganizer: async () => ({ name: "Host, The", email: USERNAME }),
+  })
+}
+
+// An event created by hand in the host's calendar app
+function addEvent(name: string, lines: string[]) {
+  events.set(`/calendars/host/default/${name}.ics`, {
+    etag: `"${++etagCounter}"`,
+    ics: ["BEGIN:VCALENDAR", "VERSION:2.0", "BEGIN:VEVENT", `UID:${name}`, ...lines, "END:VEVENT", "END:VCALENDAR", ""].join("\r\n"),
+  })
+}
+
+describe("CalDAV provider", () => {
+  it("creates, lists, moves and deletes a meeting's event", async () => {
+    const calendar = createProvider()
+
+    const created = await calendar.createEvent({
+      requestId: "meeting-1",
+      guestName: "Doe, Jane",
+      guestEmail: "jane@example.com",
+      startTime: new Date("2025-03-14T09:00:00Z"),
+      durationInMinutes: 30,
+      eventName: "Intro",
+    })
+    expect(created).toEqual({ id: "meeting-1", conferenceUrl: null })
+
+    const put = requests.find(request => request.method === "PUT")!
+    expect(put.url).toBe("/calendars/host/default/meeting-1.ics")
+    expect(put.headers["if-none-match"]).toBe("*")
+    expect(put.body).toContain('ORGANIZER;CN="Host, The":mailto:host@example.com')
+    expect(put.body).toContain('ATTENDEE;CN="Doe, Jane";ROLE=REQ-PARTICIPANT:mailto:jane@example.com')
+
+    expect(await calendar.listBusy(day, "UTC")).toEqual([
+      { start: new Date("2025-03-14T09:00:00Z"), end: new Date("2025-03-14T09:30:00Z"), eventId: "meeting-1" },
+    ])
+    const report = requests.find(request => request.method === "REPORT")!
+    expect(report.headers.depth).toBe("1")
+    expect(report.body).toContain('<c:time-range start="20250314T000000Z" end="20250315T000000Z"/>')
+
+    const { etag } = events.get("/calendars/host/default/meeting-1.ics")!
+    await calendar.updateEvent("meeting-1", { startTime: new Date("2025-03-14T11:00:00Z"), durationInMinutes: 30 })
+    expect(requests.at(-1)!.headers["if-match"]).toBe(etag) // Only replaces the version it read
+    expect(events.get("/calendars/host/default/meeting-1.ics")!.ics).toContain("SEQUENCE:1")
+    expect(await calendar.listBusy(day, "UTC")).toEqual([
+      { start: new Date("2025-03-14T11:00:00Z"), end: new Date("2025-03-14T11:30:00Z"), eventId: "meeting-1" },
+    ])
+
+    await calendar.deleteEvent("meeting-1")
+    expect(events.size).toBe(0)
+    await expect(calendar.deleteEvent("meeting-1")).resolves.toBeUndefined() // Already gone is fine
+  })
+
+  it("ignores free, cancelled and declined events", async () => {
+    addEvent("busy", ["DTSTART:20250314T080000Z", "DTEND:20250314T083000Z"])
+    addEvent("free", ["DTSTART:20250314T090000Z", "DTEND:20250314T100000Z", "TRANSP:TRANSPARENT"])
+    addEvent("cancelled", ["DTSTART:20250314T100000Z", "DTEND:20250314T110000Z", "STATUS:CANCELLED"])
+    addEvent("declined", [
+      "DTSTART:20250314T120000Z",
+      "DTEND:20250314T130000Z",
+      'ATTENDEE;CN="Host; The";PARTSTAT=DECLINED:mailto:Host@Example.com',
+    ])
+    addEvent("all-day", ["DTSTART;VALUE=DATE:20250316", "DTEND;VALUE=DATE:20250317"]) // Outside the range
+
+    expect(await createProvider().listBusy(day, "UTC")).toEqual([
+      { start: new Date("2025-03-14T08:00:00Z"), end: new Date("2025-03-14T08:30:00Z"), eventId: "busy" },
+    ])
+  })
+
+  it("never overwrites an existing event", async () => {
+    addEvent("meeting-1", ["DTSTART:20250314T080000Z", "DTEND:20250314T083000Z"])
+
+    await expect(createProvider().createEvent({
+      requestId: "meeting-1",
+      guestName: "Jane",
+      guestEmail: "jane@example.com",
+      startTime: new Date("2025-03-14T09:00:00Z"),
+      durationInMinutes: 30,
+      eventName: "Intro",
+    })).rejects.toThrow("failed with 412")
+  })
+
+  it("fails with wrong credentials", async () => {
+    await expect(createProvider("wrong").listBusy(day, "UTC")).rejects.toThrow("failed with 401")
+  })
+
+  it("refuses calendars on private addresses in production", async () => {
+    vi.stubEnv("NODE_ENV", "production")
+
+    await expect(createProvider().listBusy(day, "UTC")).rejects.toThrow("127.0.0.1 is not a public address.")
+    expect(requests).toHaveLength(0)
+  })
+})
@@ -0,0 +1,159 @@
+import { buildICalendar, formatICalDate, parseICalEvents, rescheduleICalEvent } from "@/lib/ical"
+import { formatCalendarEventDescription } from "@/lib/formatters"
+import { addMinutes, areIntervalsOverlapping } from "date-fns"
+import { randomUUID } from "crypto"
+import { assertPublicUrl } from "../publicUrl"
+import type { CalendarProvider } from "./types"
+
+// Where and how to reach a CalDAV calendar
+export type CalDavConfig = {
+  calendarUrl: string // URL of the calendar collection, e.g. https://caldav.fastmail.com/dav/calendars/user/me@example.com/Default/
+  username: string
+  password: string // Usually an app password
+  // Host's name and email for the ORGANIZER of created events, only looked up when an event is created
+  getOrganizer?: () => Promise<{ name: string; email: string }>
+}
+
+// Characters that are escaped in the XML bodies of CalDAV responses
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+  "&#13;": "\r",
+  "&#xD;": "\r",
+}
+
+// Pulls the iCalendar data out of a CalDAV multistatus response (namespace prefixes vary between servers)
+function extractCalendarData(xml: string): string[] {
+  return [...xml.matchAll(/<(?:[\w-]+:)?calendar-data[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/g)].map(
+    ([, data]) => data
+      .replace(/^<!\[CDATA\[|\]\]>$/g, "")
+      .replace(/&(?:amp|lt|gt|quot|apos|#13|#xD);/g, entity => XML_ENTITIES[entity])
+  )
+}
+
+// CalDAV implementation of CalendarProvider. It only needs plain HTTP, so it works with any CalDAV server
+// (Fastmail, Nextcloud, iCloud, Radicale...) and can be pointed at a local server for testing.
+export function createCalDavProvider(config: CalDavConfig): CalendarProvider {
+  // Event resources live directly inside the calendar collection
+  const calendarUrl = config.calendarUrl.endsWith("/") ? config.calendarUrl : `${config.calendarUrl}/`
+  const eventUrl = (eventId: string) => new URL(`${encodeURIComponent(eventId)}.ics`, calendarUrl).toString()
+
+  // Send an authenticated request, failing on any unexpected status.
+  // The URL comes from the host, so it must not lead into the server's own network.
+  async function request(
+    method: string,
+    url: string,
+    { body, headers, allowedStatuses = [] }: { body?: string; headers?: Record<string, string>; allowedStatuses?: number[] } = {}
+  ): Promise<Response> {
+    await assertPublicUrl(url)
+
+    const response = await fetch(url, {
+      method,
+      body,
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${config.username}:${config.password}`).toString("base64")}`,
+        ...headers,
+      },
+      cache: "no-store",
+      redirect: "manual", // A redirect could lead to a private address, so it counts as a failure
+    })
+
+    if (!response.ok && !allowedStatuses.includes(response.status)) {
+      throw new Error(`CalDAV ${method} ${url} failed with ${response.status} ${response.statusText}`)
+    }
+
+    return response
+  }
+
+  return {
+    name: "caldav",
+    calendarId: null, // The configured collection is the only calendar
+    busyTimesKey: `${config.username}@${calendarUrl}`,
+
+    async listBusy({ start, end }, timezone) {
+      const range = `start="${formatICalDate(start)}" end="${formatICalDate(end)}"`
+
+      // Ask for every event overlapping the range, with recurring events expanded into single occurrences
+      const response = await request("REPORT", calendarUrl, {
+        headers: { Depth: "1", "Content-Type": "application/xml; charset=utf-8" },
+        body: `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <c:calendar-data><c:expand ${range}/></c:calendar-data>
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT"><c:time-range ${range}/></c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`,
+      })
+
+      // The login is usually the host's email, which is how they appear among the attendees
+      const hostEmail = config.username.toLowerCase()
+
+      return extractCalendarData(await response.text())
+        .flatMap(ics => parseICalEvents(ics, timezone))
+        // Events marked as "free", cancelled or declined by the host don't block anything,
+        // and servers may return a little more than asked
+        .filter(event =>
+          !event.transparent &&
+          !event.cancelled &&
+          !event.declinedBy.includes(hostEmail) &&
+          areIntervalsOverlapping(event, { start, end })
+        )
+        .map(({ uid, start, end }) => ({ start, end, eventId: uid }))
+    },
+
+    async createEvent(details) {
+      const uid = details.requestId ?? randomUUID()
+      const organizer = await config.getOrganizer?.()
+
+      await request("PUT", eventUrl(uid), {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "If-None-Match": "*", // Never overwrite an existing event
+        },
+        body: buildICalendar([
+          {
+            uid,
+            start: details.startTime,
+            end: addMinutes(details.startTime, details.durationInMinutes),
+            summary: organizer
+              ? `${details.guestName} + ${organizer.name}: ${details.eventName}`
+              : `${details.guestName}: ${details.eventName}`,
+            description: formatCalendarEventDescription(details),
+            location: details.location,
+            organizer,
+            attendees: [{ name: details.guestName, email: details.guestEmail }],
+          },
+        ]),
+      })
+
+      // Video conferences are a Google Meet feature, CalDAV events only carry the location
+      return { id: uid, conferenceUrl: null }
+    },
+
+    async updateEvent(eventId, { startTime, durationInMinutes }) {
+      // CalDAV has no partial updates: fetch the event, change its times and put it back
+      const response = await request("GET", eventUrl(eventId))
+      const etag = response.headers.get("ETag")
+
+      await request("PUT", eventUrl(eventId), {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          ...(etag ? { "If-Match": etag } : {}), // Fail instead of overwriting a concurrent change
+        },
+        body: rescheduleICalEvent(await response.text(), startTime, addMinutes(startTime, durationInMinutes)),
+      })
+    },
+
+    async deleteEvent(eventId) {
+      // The host may already have deleted the event by hand, which is fine for a cancellation
+      await request("DELETE", eventUrl(eventId), { allowedStatuses: [404, 410] })
+    },
+  }
+}
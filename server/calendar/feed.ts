@@ -0,0 +1,39 @@
+import { CALENDAR_FEED_PAST_DAYS, CALENDAR_FEED_REFRESH_IN_MINUTES } from "@/constants"
+import { db } from "@/drizzle/db"
+import { buildICalendar } from "@/lib/ical"
+import { subDays } from "date-fns"
+import { z } from "zod"
+import { getOrganizer } from "."
+import { getMeetingICalEvent } from "./ics"
+
+// Builds the iCal feed behind a host's secret feed URL (undefined if no host has that token).
+// It lists the host's Calendify meetings from the last few weeks on, as stored when they were booked:
+// requests as tentative, cancelled, rejected and expired ones as cancelled, so subscribed calendars
+// remove them instead of keeping a stale copy.
+export async function getCalendarFeed(token: string): Promise<string | undefined> {
+  // Tokens are UUIDs, anything else can't match and would only make Postgres complain
+  if (!z.string().uuid().safeParse(token).success) return undefined
+
+  const settings = await db.query.UserSettingsTable.findFirst({
+    columns: { clerkUserId: true },
+    where: ({ calendarFeedToken }, { eq }) => eq(calendarFeedToken, token),
+  })
+  if (!settings) return undefined
+
+  const [host, meetings] = await Promise.all([
+    getOrganizer(settings.clerkUserId),
+    db.query.MeetingTable.findMany({
+      where: ({ clerkUserId, startTime }, { and, eq, gte }) => and(
+        eq(clerkUserId, settings.clerkUserId),
+        gte(startTime, subDays(new Date(), CALENDAR_FEED_PAST_DAYS))
+      ),
+      with: { event: { columns: { name: true } } },
+      orderBy: ({ startTime }, { asc }) => asc(startTime),
+    }),
+  ])
+
+  return buildICalendar(
+    meetings.map(meeting => getMeetingICalEvent(meeting, host, "host")),
+    { name: "Calendify bookings", refreshIntervalInMinutes: CALENDAR_FEED_REFRESH_IN_MINUTES }
+  )
+}
@@ -0,0 +1,42 @@
+import { createCalendarEvent, deleteCalendarEvent, getCalendarEventTimes, updateCalendarEvent } from "../google/googleCalendar"
+import type { CalendarProvider } from "./types"
+
+// Which of the host's Google calendars to use
+export type GoogleCalendarOptions = {
+  busyCalendarIds?: string[] | null // Calendars checked for conflicts (default: primary only)
+  calendarId?: string | null // Calendar events are written to (default: primary)
+}
+
+// Google Calendar implementation of CalendarProvider, using the host's Google account connected through Clerk
+export function createGoogleCalendarProvider(
+  clerkUserId: string,
+  { busyCalendarIds, calendarId }: GoogleCalendarOptions = {}
+): CalendarProvider {
+  const targetCalendarId = calendarId ?? "primary"
+  const busyIds = busyCalendarIds?.length ? busyCalendarIds : ["primary"]
+
+  return {
+    name: "google",
+    calendarId: calendarId ?? null,
+    busyTimesKey: [...busyIds].sort().join(","),
+
+    // Busy times are the union of the events in all selected calendars
+    listBusy: (range, timezone) => getCalendarEventTimes(clerkUserId, range, busyIds, timezone),
+
+    async createEvent(details) {
+      const calendarEvent = await createCalendarEvent({ ...details, clerkUserId, calendarId: targetCalendarId })
+
+      if (!calendarEvent.id) {
+        throw new Error("Google Calendar did not return an event ID.")
+      }
+
+      return { id: calendarEvent.id, conferenceUrl: calendarEvent.hangoutLink ?? null }
+    },
+
+    async updateEvent(eventId, { startTime, durationInMinutes }) {
+      await updateCalendarEvent({ clerkUserId, eventId, calendarId: targetCalendarId, startTime, durationInMinutes })
+    },
+
+    deleteEvent: eventId => deleteCalendarEvent({ clerkUserId, eventId, calendarId: targetCalendarId }),
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest"
+import { getMeetingICalEvent, type MeetingCalendarDetails } from "./ics"
+
+const meeting: MeetingCalendarDetails = {
+  id: "meeting-1",
+  status: "confirmed",
+  sequence: 0,
+  startTime: new Date("2025-03-14T09:00:00Z"),
+  endTime: new Date("2025-03-14T09:30:00Z"),
+  guestName: "Jane Doe",
+  guestEmail: "jane@example.com",
+  guestNotes: null,
+  answers: [],
+  location: null,
+  conferenceUrl: null,
+  manageToken: "00000000-0000-0000-0000-00000000abcd",
+  event: { name: "Intro" },
+}
+const host = { name: "Host", email: "host@example.com" }
+
+describe("getMeetingICalEvent", () => {
+  it("gives the guest the manage link", () => {
+    const event = getMeetingICalEvent(meeting, host, "guest")
+
+    expect(event.description).toContain(`/book/manage/${meeting.manageToken}`)
+    expect(event.url).toContain(`/book/manage/${meeting.manageToken}`)
+  })
+
+  it("leaves the manage link out of the host's feed", () => {
+    const event = getMeetingICalEvent(meeting, host, "host")
+
+    expect(JSON.stringify(event)).not.toContain(meeting.manageToken)
+    expect(event.url).toMatch(/\/meetings$/)
+  })
+})
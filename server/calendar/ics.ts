@@ -0,0 +1,69 @@
+import { CALENDAR_ALARM_IN_MINUTES, MEETING_STATUSES } from "@/constants"
+import { formatCalendarEventDescription } from "@/lib/formatters"
+import { buildICalendar, type ICalEvent } from "@/lib/ical"
+import { absoluteUrl, slugify } from "@/lib/utils"
+import type { BookingAnswer } from "@/schema/meetings"
+
+// The parts of a meeting (and its event) that end up in its calendar entry
+export type MeetingCalendarDetails = {
+  id: string
+  status: (typeof MEETING_STATUSES)[number]
+  sequence: number
+  startTime: Date
+  endTime: Date
+  guestName: string
+  guestEmail: string
+  guestNotes: string | null
+  answers: BookingAnswer[]
+  location: string | null
+  conferenceUrl: string | null
+  manageToken: string
+  event: { name: string }
+}
+
+// Stable UID of a meeting's calendar entry, so importing it again updates the entry instead of adding another
+export function getMeetingUid(meetingId: string): string {
+  return `${meetingId}@calendify`
+}
+
+// The meeting as a calendar entry, with the host as organizer and the guest as attendee.
+// The guest's entry is "<event> with <host>" and has an alarm shortly before it starts; the host's
+// (in their iCal feed) is "<event> with <guest>" and leaves reminders to their calendar app.
+// Only the guest's entry carries the manage link: feeds get shared and synced, and the link lets
+// anyone who sees it cancel or move the meeting.
+export function getMeetingICalEvent(
+  meeting: MeetingCalendarDetails,
+  host: { name: string; email: string },
+  viewer: "guest" | "host" = "guest"
+): ICalEvent {
+  const manageUrl = absoluteUrl(`/book/manage/${meeting.manageToken}`)
+
+  return {
+    uid: getMeetingUid(meeting.id),
+    sequence: meeting.sequence, // Tells calendar apps which copy of a moved or cancelled meeting is the latest
+    start: meeting.startTime,
+    end: meeting.endTime,
+    summary: `${meeting.event.name} with ${viewer === "guest" ? host.name : meeting.guestName}`,
+    description: formatCalendarEventDescription({ ...meeting, manageUrl: viewer === "guest" ? manageUrl : undefined }),
+    location: meeting.location ?? meeting.conferenceUrl,
+    organizer: host,
+    attendees: [{ name: meeting.guestName, email: meeting.guestEmail }],
+    // Requests waiting for the host are tentative, anything that won't happen anymore is cancelled
+    status: meeting.status === "confirmed" ? "CONFIRMED" : meeting.status === "pending" ? "TENTATIVE" : "CANCELLED",
+    url: viewer === "guest" ? manageUrl : absoluteUrl("/meetings"),
+    alarms: viewer === "guest" ? [CALENDAR_ALARM_IN_MINUTES] : [],
+  }
+}
+
+// A complete .ics file with the meeting, for the guest to download or open from an email
+export function getMeetingICalendar(
+  meeting: MeetingCalendarDetails,
+  host: { name: string; email: string }
+): string {
+  return buildICalendar([getMeetingICalEvent(meeting, host)])
+}
+
+// File name for a meeting's .ics file, e.g. "intro-call.ics"
+export function getMeetingICalFilename(meeting: { event: { name: string } }): string {
+  return `${slugify(meeting.event.name) || "meeting"}.ics`
+}
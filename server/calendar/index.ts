@@ -0,0 +1,56 @@
+import { CALENDAR_PROVIDERS } from "@/constants"
+import { clerkClient } from "@clerk/nextjs/server"
+import { getCalDavPassword, getUserSettings } from "../settings"
+import { createCalDavProvider } from "./caldav"
+import { createGoogleCalendarProvider } from "./google"
+import type { CalendarProvider } from "./types"
+
+export type { BusyTime, CalendarEventDetails, CalendarProvider, TimeRange } from "./types"
+export { getCachedBusyTimes, invalidateBusyTimes } from "./cache"
+
+// Fetch the host's name and primary email from Clerk (used as the organizer of CalDAV events and by the mailer)
+export async function getOrganizer(clerkUserId: string): Promise<{ name: string; email: string }> {
+  const client = await clerkClient()
+  const calendarUser = await client.users.getUser(clerkUserId)
+
+  const primaryEmail = calendarUser.emailAddresses.find(
+    ({ id }) => id === calendarUser.primaryEmailAddressId
+  )
+
+  if (!primaryEmail) {
+    throw new Error("Clerk user has no email")
+  }
+
+  return {
+    name: calendarUser.fullName ?? primaryEmail.emailAddress,
+    email: primaryEmail.emailAddress,
+  }
+}
+
+// Returns the calendar a host has chosen in their settings (Google Calendar unless they set up CalDAV).
+// Pass `meeting` to talk to the calendar an existing meeting was created in, even if the host switched since.
+export async function getCalendarProvider(
+  clerkUserId: string,
+  meeting?: { calendarProvider: (typeof CALENDAR_PROVIDERS)[number]; calendarId: string | null }
+): Promise<CalendarProvider> {
+  const settings = await getUserSettings(clerkUserId)
+
+  if ((meeting?.calendarProvider ?? settings?.calendarProvider) !== "caldav") {
+    return createGoogleCalendarProvider(clerkUserId, {
+      busyCalendarIds: settings?.googleBusyCalendarIds,
+      calendarId: meeting ? meeting.calendarId : settings?.googleBookingCalendarId,
+    })
+  }
+
+  const password = settings?.hasCaldavPassword ? await getCalDavPassword(clerkUserId) : undefined
+  if (!settings?.caldavUrl || !settings.caldavUsername || !password) {
+    throw new Error("CalDAV calendar is not set up.")
+  }
+
+  return createCalDavProvider({
+    calendarUrl: settings.caldavUrl,
+    username: settings.caldavUsername,
+    password,
+    getOrganizer: () => getOrganizer(clerkUserId),
+  })
+}
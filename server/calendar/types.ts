@@ -0,0 +1,52 @@
+import { CALENDAR_PROVIDERS } from "@/constants"
+import type { BookingAnswer } from "@/schema/meetings"
+
+// A time range during which the host is busy (or that we want busy times for)
+export type TimeRange = { start: Date; end: Date }
+
+// A busy time range read from the host's calendar, with the ID of the calendar event behind it
+// (so a meeting being moved can tell its own event apart)
+export type BusyTime = TimeRange & { eventId?: string }
+
+// Everything a provider needs to put a booked meeting into the host's calendar
+export type CalendarEventDetails = {
+  guestName: string // The name of the guest attending the meeting
+  guestEmail: string // The email address of the guest
+  guestNotes?: string | null // Optional notes left by the guest
+  startTime: Date // When the meeting starts
+  durationInMinutes: number // How long the meeting lasts
+  eventName: string // The name of the event type that was booked
+  manageUrl?: string // Link the guest can use to cancel or reschedule
+  answers?: BookingAnswer[] // The guest's answers to the event's custom questions
+  location?: string | null // Link, address or phone number
+  addConference?: boolean // Whether to attach a video conference (Google Meet only)
+  requestId?: string // Unique ID of this booking, used to make retries idempotent
+}
+
+// A calendar Calendify reads busy times from and writes bookings to, bound to a single host.
+// Google Calendar is the default; CalDAV covers Fastmail, Nextcloud, iCloud and friends.
+export interface CalendarProvider {
+  // Which provider this is, stored with each meeting so later changes go to the same calendar
+  name: (typeof CALENDAR_PROVIDERS)[number]
+
+  // Calendar within the provider that events are written to and changed in (null = the provider's default),
+  // stored with each meeting as well
+  calendarId: string | null
+
+  // Identifies the calendars busy times are read from (e.g. the selected Google calendars or the CalDAV URL),
+  // so busy times cached for one selection are never used for another
+  busyTimesKey: string
+
+  // Busy time ranges in the host's calendar that overlap `range`. Events shown as free, cancelled or declined
+  // by the host are left out; all-day events block whole days in `timezone` (the schedule's).
+  listBusy(range: TimeRange, timezone: string): Promise<BusyTime[]>
+
+  // Create the calendar event for a booking and invite the guest
+  createEvent(details: CalendarEventDetails): Promise<{ id: string; conferenceUrl: string | null }>
+
+  // Move an existing event to a new start time
+  updateEvent(eventId: string, change: { startTime: Date; durationInMinutes: number }): Promise<void>
+
+  // Delete an existing event (events that are already gone are ignored)
+  deleteEvent(eventId: string): Promise<void>
+}
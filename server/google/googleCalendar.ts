@@ -4,8 +4,11 @@
 'use server'
 
 import { clerkClient } from "@clerk/nextjs/server"
-import { addMinutes, endOfDay, startOfDay } from "date-fns"
+import { addMinutes } from "date-fns"
+import { fromZonedTime } from "date-fns-tz"
 import { calendar_v3, google } from "googleapis"
+import { formatCalendarEventDescription } from "@/lib/formatters"
+import type { BookingAnswer } from "@/schema/meetings"
 
 
 
@@ -42,11 +45,97 @@ async function getOAuthClient(clerkUserId: string) {
 }
 
 
-// Fetch and format calendar events for a user between a given date range
+// A calendar in the user's Google calendar list
+export type GoogleCalendar = {
+    id: string
+    name: string
+    primary: boolean
+    writable: boolean // Whether events can be created in it (owner or writer access)
+}
+
+
+// List every calendar the user has in their Google calendar list (own, shared and subscribed)
+export async function listCalendars(clerkUserId: string): Promise<GoogleCalendar[]> {
+    try {
+        const oAuthClient = await getOAuthClient(clerkUserId)
+
+        const calendars: GoogleCalendar[] = []
+        let pageToken: string | undefined
+
+        // The list is paginated, keep going until Google stops returning a next page
+        do {
+            const { data } = await google.calendar("v3").calendarList.list({
+                auth: oAuthClient,
+                pageToken,
+            })
+
+            data.items?.forEach(calendar => {
+                if (!calendar.id) return
+                calendars.push({
+                    id: calendar.id,
+                    name: calendar.summaryOverride ?? calendar.summary ?? calendar.id,
+                    primary: calendar.primary ?? false,
+                    writable: calendar.accessRole === "owner" || calendar.accessRole === "writer",
+                })
+            })
+
+            pageToken = data.nextPageToken ?? undefined
+        } while (pageToken)
+
+        // Primary calendar first, the rest by name
+        return calendars.sort((a, b) => Number(b.primary) - Number(a.primary) || a.name.localeCompare(b.name))
+    } catch (err: any) {
+        throw new Error(`Failed to list calendars: ${err.message || err}`)
+    }
+}
+
+
+// Fetch every event of one calendar between a given date range, page by page
+async function listCalendarEvents(
+    oAuthClient: Awaited<ReturnType<typeof getOAuthClient>>,
+    calendarId: string,
+    { start, end }: { start: Date; end: Date }
+  ): Promise<calendar_v3.Schema$Event[]> {
+    const events: calendar_v3.Schema$Event[] = []
+    let pageToken: string | undefined
+
+    try {
+        // Keep going until Google stops returning a next page, so busy hosts don't lose events past the first page
+        do {
+            const { data } = await google.calendar("v3").events.list({
+                calendarId, // One of the calendars the user wants checked for conflicts
+                eventTypes: ["default"], // Only fetch regular (non-special) events
+                singleEvents: true, // Expand recurring events into single instances
+                timeMin: start.toISOString(), // Start of the time range (inclusive)
+                timeMax: end.toISOString(), // End of the time range (exclusive)
+                maxResults: 2500, // Largest page Google allows
+                fields: "nextPageToken,items(id,status,transparency,start,end,attendees(self,responseStatus))", // Only what's needed to tell busy times
+                pageToken,
+                auth: oAuthClient, // OAuth2 client for authenticating the API call
+            })
+
+            events.push(...(data.items ?? []))
+            pageToken = data.nextPageToken ?? undefined
+        } while (pageToken)
+    } catch (error: any) {
+        // A calendar removed from the user's list since it was selected has nothing to block
+        if (error.code === 404 || error.code === 410) return []
+        throw error
+    }
+
+    return events
+}
+
+
+// Fetch the times the user is busy between a given date range, merging the events of every calendar in
+// `calendarIds`. Events shown as "free", cancelled or declined by the user don't count, and all-day events
+// block whole days in `timezone` (the schedule's) rather than in the server's timezone.
 export async function getCalendarEventTimes(
     clerkUserId: string,
-    { start, end }: { start: Date; end: Date }
-  ): Promise<{ start: Date; end: Date }[]> {
+    range: { start: Date; end: Date },
+    calendarIds: string[] = ["primary"],
+    timezone = "UTC"
+  ): Promise<{ start: Date; end: Date; eventId?: string }[]> {
 
     try {
         // Get OAuth client for Google Calendar API authentication
@@ -57,26 +146,27 @@ export async function getCalendarEventTimes(
         }
 
 
-        // Fetch events from the Google Calendar API
-        const events = await google.calendar("v3").events.list({
-            calendarId: "primary", // Use the user's primary calendar
-            eventTypes: ["default"], // Only fetch regular (non-special) events
-            singleEvents: true, // Expand recurring events into single instances
-            timeMin: start.toISOString(), // Start of the time range (inclusive)
-            timeMax: end.toISOString(), // End of the time range (exclusive)
-            maxResults: 2500, // Limit the number of returned events (max allowed by Google)
-            auth: oAuthClient, // OAuth2 client for authenticating the API call
-        })
+        // Fetch events from every selected calendar in parallel
+        const results = await Promise.all(
+            calendarIds.map(calendarId => listCalendarEvents(oAuthClient, calendarId, range))
+        )
 
-        // Process and format the events
+        // Process and format the events of all calendars together
         return (
-            events.data.items
-            ?.map(event => {
-                // Handle all-day events (no specific time, just a date)
+            results.flat()
+            .filter(event =>
+                event.status !== "cancelled" && // Deleted occurrences of recurring events
+                event.transparency !== "transparent" && // Shown as "free" in the calendar
+                event.attendees?.find(attendee => attendee.self)?.responseStatus !== "declined" // The user isn't going
+            )
+            .map(event => {
+                // Handle all-day events (no specific time, just a date): they run from midnight of the start
+                // date to midnight of the (exclusive) end date in the schedule's timezone
                 if (event.start?.date && event.end?.date) {
                 return {
-                    start: startOfDay(new Date(event.start.date)), // Set time to 00:00 of the start date
-                    end: endOfDay(new Date(event.end.date)),       // Set time to 23:59 of the end date
+                    start: fromZonedTime(`${event.start.date}T00:00:00`, timezone),
+                    end: fromZonedTime(`${event.end.date}T00:00:00`, timezone),
+                    eventId: event.id ?? undefined,
                 }
                 }
         
@@ -85,6 +175,7 @@ export async function getCalendarEventTimes(
                 return {
                     start: new Date(event.start.dateTime), // Convert to JavaScript Date object
                     end: new Date(event.end.dateTime),     // Convert to JavaScript Date object
+                    eventId: event.id ?? undefined, // Lets a meeting being moved ignore its own event
                 }
                 }
         
@@ -92,7 +183,7 @@ export async function getCalendarEventTimes(
                 return undefined
             })
             // Filter out any undefined results and enforce correct typing
-            .filter((date): date is { start: Date; end: Date } => date !== undefined) || []
+            .filter((date): date is { start: Date; end: Date; eventId: string | undefined } => date !== undefined)
         )  
 
 
@@ -112,6 +203,12 @@ export async function getCalendarEventTimes(
     guestNotes,
     durationInMinutes,
     eventName,
+    manageUrl,
+    answers = [],
+    location,
+    addConference = false,
+    requestId,
+    calendarId = "primary",
   }: {
     clerkUserId: string // The unique ID of the Clerk user.
     guestName: string // The name of the guest attending the event.
@@ -120,6 +217,12 @@ export async function getCalendarEventTimes(
     guestNotes?: string | null // Optional notes for the guest (can be null or undefined).
     durationInMinutes: number // The duration of the event in minutes.
     eventName: string // The name or title of the event.
+    manageUrl?: string // Optional link the guest can use to cancel or reschedule.
+    answers?: BookingAnswer[] // The guest's answers to the event's custom questions.
+    location?: string | null // Where the meeting takes place (link, address or phone number).
+    addConference?: boolean // Whether Google should attach a Google Meet link.
+    requestId?: string // Unique ID for the conference request, so retries don't create a second Meet.
+    calendarId?: string // The calendar to create the event in (defaults to the primary calendar).
   }): Promise<calendar_v3.Schema$Event> {  // Specify the return type as `Event`, which represents the created calendar event.
     
     try {
@@ -143,9 +246,10 @@ export async function getCalendarEventTimes(
   
       // Create the Google Calendar event using the Google API client.
       const calendarEvent = await google.calendar("v3").events.insert({
-        calendarId: "primary", // Use the primary calendar of the user.
+        calendarId, // The calendar the user picked for new bookings.
         auth: oAuthClient, // Authentication using the OAuth client obtained earlier.
         sendUpdates: "all", // Send email notifications to all attendees of the event.
+        conferenceDataVersion: 1, // Needed for Google to create the Meet conference requested below.
         requestBody: {
           attendees: [
             { email: guestEmail, displayName: guestName }, // Add the guest to the attendees list.
@@ -155,7 +259,7 @@ export async function getCalendarEventTimes(
               responseStatus: "accepted", // Mark the user's attendance as accepted.
             },
           ],
-          description: guestNotes ? `Additional Details: ${guestNotes}` : "No additional details.", // Add description if guest notes are provided.
+          description: formatCalendarEventDescription({ guestNotes, answers, manageUrl }), // Guest notes, answers and the self-service link.
           start: {
             dateTime: startTime.toISOString(), // Start time of the event.
           },
@@ -163,6 +267,15 @@ export async function getCalendarEventTimes(
             dateTime: addMinutes(startTime, durationInMinutes).toISOString(), // Calculate the end time based on the duration.
           },
           summary: `${guestName} + ${calendarUser.firstName} ${calendarUser.lastName}: ${eventName}`, // Title of the event, including the guest and user names.
+          location: location ?? undefined, // Shown (and linked) by calendar apps.
+          conferenceData: addConference
+            ? {
+                createRequest: {
+                  requestId: requestId ?? crypto.randomUUID(),
+                  conferenceSolutionKey: { type: "hangoutsMeet" },
+                },
+              }
+            : undefined,
         },
       })
   
@@ -173,4 +286,68 @@ export async function getCalendarEventTimes(
       throw new Error(`Failed to create calendar event: ${error.message || error}`) // Throw a new error with a detailed message.
     }
   }
-  
\ No newline at end of file
+  
+
+  // Move an existing Google Calendar event to a new start time (used when a guest reschedules)
+  export async function updateCalendarEvent({
+    clerkUserId,
+    eventId,
+    calendarId = "primary",
+    startTime,
+    durationInMinutes,
+  }: {
+    clerkUserId: string // The unique ID of the Clerk user who owns the calendar.
+    calendarId?: string // The calendar holding the event (defaults to the primary calendar).
+    eventId: string // The ID of the Google Calendar event to move.
+    startTime: Date // The new start time of the event.
+    durationInMinutes: number // The duration of the event in minutes.
+  }): Promise<calendar_v3.Schema$Event> {
+    try {
+      const oAuthClient = await getOAuthClient(clerkUserId)
+
+      // Patch only the start and end, leaving attendees, title and description untouched
+      const calendarEvent = await google.calendar("v3").events.patch({
+        calendarId,
+        eventId,
+        auth: oAuthClient,
+        sendUpdates: "all", // Let the guest know the time has changed.
+        requestBody: {
+          start: { dateTime: startTime.toISOString() },
+          end: { dateTime: addMinutes(startTime, durationInMinutes).toISOString() },
+        },
+      })
+
+      return calendarEvent.data
+    } catch (error: any) {
+      console.error("Error updating calendar event:", error.message || error)
+      throw new Error(`Failed to update calendar event: ${error.message || error}`)
+    }
+  }
+
+  // Delete an existing Google Calendar event (used when a guest cancels)
+  export async function deleteCalendarEvent({
+    clerkUserId,
+    eventId,
+    calendarId = "primary",
+  }: {
+    clerkUserId: string // The unique ID of the Clerk user who owns the calendar.
+    calendarId?: string // The calendar holding the event (defaults to the primary calendar).
+    eventId: string // The ID of the Google Calendar event to delete.
+  }): Promise<void> {
+    try {
+      const oAuthClient = await getOAuthClient(clerkUserId)
+
+      await google.calendar("v3").events.delete({
+        calendarId,
+        eventId,
+        auth: oAuthClient,
+        sendUpdates: "all", // Let the guest know the meeting has been cancelled.
+      })
+    } catch (error: any) {
+      // The host may already have deleted the event by hand, which is fine for a cancellation
+      if (error.code === 404 || error.code === 410) return
+
+      console.error("Error deleting calendar event:", error.message || error)
+      throw new Error(`Failed to delete calendar event: ${error.message || error}`)
+    }
+  }
@@ -0,0 +1,28 @@
+import { releaseExpiredRequests } from "../bookingRequests"
+import { sendMeetingEmails } from "../mail"
+import { sendDueReminders } from "../mail/reminders"
+import { deliverWebhook } from "../webhooks"
+import type { JobAttempt, JobPayloads, JobType } from "./types"
+
+// What each kind of job does. A handler throws to have its job retried later.
+export const JOB_HANDLERS: { [T in JobType]: (payload: JobPayloads[T], attempt: JobAttempt) => Promise<void> } = {
+  async sendMeetingEmails({ kind, meetingId, recipient, previousStartTime }) {
+    const sent = await sendMeetingEmails(kind, meetingId, {
+      recipients: [recipient],
+      previousStartTime: previousStartTime ? new Date(previousStartTime) : undefined,
+    })
+    if (!sent) throw new Error(`The ${kind} email to the ${recipient} could not be sent.`)
+  },
+
+  async expireBookingRequests({ clerkUserId }) {
+    await releaseExpiredRequests(clerkUserId)
+  },
+
+  async sendDueReminders() {
+    await sendDueReminders()
+  },
+
+  async deliverWebhook({ deliveryId }, { lastAttempt }) {
+    await deliverWebhook(deliveryId, { lastAttempt })
+  },
+}
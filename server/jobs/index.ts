@@ -0,0 +1,22 @@
+import { db } from "@/drizzle/db"
+import { JobTable } from "@/drizzle/schema"
+import type { EnqueueOptions, JobPayloads, JobType } from "./types"
+
+export type { EnqueueOptions, JobPayloads, JobType } from "./types"
+
+// Queues a job for the worker (see server/jobs/runner.ts). With a `key`, queueing the same work again
+// (e.g. when a server action is retried) does nothing, whether the first job is still waiting or already ran.
+// Returns whether a new job was queued.
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  { key, runAt, maxAttempts }: EnqueueOptions = {}
+): Promise<boolean> {
+  const queued = await db
+    .insert(JobTable)
+    .values({ type, payload, key, runAt, maxAttempts })
+    .onConflictDoNothing({ target: JobTable.key })
+    .returning({ id: JobTable.id })
+
+  return queued.length > 0
+}
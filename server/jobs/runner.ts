@@ -0,0 +1,145 @@
+import { COMPLETED_JOB_RETENTION_IN_DAYS, JOB_LOCK_TIMEOUT_IN_MINUTES } from "@/constants"
+import { db } from "@/drizzle/db"
+import { JobTable } from "@/drizzle/schema"
+import { addMinutes, subDays } from "date-fns"
+import { and, asc, eq, inArray, lt, lte, or, sql } from "drizzle-orm"
+import { enqueueJob } from "."
+import { JOB_HANDLERS } from "./handlers"
+import type { JobAttempt, JobPayloads, JobType } from "./types"
+
+// Work that is queued on a fixed interval, besides the jobs queued by server actions.
+// Expiring requests also have a job per request; this one catches anything those missed.
+const RECURRING_JOBS: { type: JobType; everyMinutes: number }[] = [
+  { type: "sendDueReminders", everyMinutes: 5 },
+  { type: "expireBookingRequests", everyMinutes: 15 },
+]
+
+// Delay before a failed job is tried again: 1, 2, 4, 8... minutes, at most an hour
+function getRetryDelayInMinutes(attempts: number): number {
+  return Math.min(2 ** (attempts - 1), 60)
+}
+
+// Queues the recurring jobs whose interval started. The key names the interval, so calling this
+// more often (or from several workers) still queues each of them once per interval.
+async function enqueueRecurringJobs(now: Date): Promise<void> {
+  for (const { type, everyMinutes } of RECURRING_JOBS) {
+    const intervalMs = everyMinutes * 60_000
+    const intervalStart = new Date(Math.floor(now.getTime() / intervalMs) * intervalMs)
+
+    await enqueueJob(type, {}, { key: `${type}:${intervalStart.toISOString()}`, runAt: intervalStart })
+  }
+}
+
+// Claims up to `limit` due jobs for this worker (only the ones with these `keys`, if given). Due jobs are queued
+// ones whose time came, and running ones whose worker stopped answering. SKIP LOCKED lets other workers claim
+// different jobs at the same time.
+async function claimJobs(now: Date, limit: number, keys?: string[]) {
+  const due = db
+    .select({ id: JobTable.id })
+    .from(JobTable)
+    .where(and(
+      or(
+        and(eq(JobTable.status, "queued"), lte(JobTable.runAt, now)),
+        and(eq(JobTable.status, "running"), lt(JobTable.lockedUntil, now))
+      ),
+      keys ? inArray(JobTable.key, keys) : undefined
+    ))
+    .orderBy(asc(JobTable.runAt))
+    .limit(limit)
+    .for("update", { skipLocked: true })
+
+  return db
+    .update(JobTable)
+    .set({
+      status: "running",
+      attempts: sql`${JobTable.attempts} + 1`,
+      lockedUntil: addMinutes(now, JOB_LOCK_TIMEOUT_IN_MINUTES),
+    })
+    .where(inArray(JobTable.id, due))
+    .returning()
+}
+
+// What happened to the jobs of a run
+type JobRunResult = { completed: number; retried: number; failed: number }
+
+// Runs the jobs that are due and reports what happened to them. Failed jobs are queued again with
+// a growing delay until they run out of attempts; then they are kept as "failed" with their last error.
+// Called by the worker (scripts/worker.mjs) and by the cron route (app/api/cron/jobs).
+export async function runDueJobs(
+  { now = new Date(), limit = 20 }: { now?: Date; limit?: number } = {}
+): Promise<JobRunResult> {
+  await enqueueRecurringJobs(now)
+
+  const result = await runJobs(await claimJobs(now, limit))
+
+  // Completed jobs are only kept for a while; their keys then become free again
+  await db
+    .delete(JobTable)
+    .where(and(eq(JobTable.status, "completed"), lt(JobTable.completedAt, subDays(now, COMPLETED_JOB_RETENTION_IN_DAYS))))
+
+  return result
+}
+
+// Runs the jobs a server action just queued, by their keys, so e.g. its emails go out right after the response.
+// Jobs another worker already claimed are skipped; everything else is left to the worker and the cron route.
+export async function runQueuedJobs(keys: string[]): Promise<JobRunResult> {
+  if (keys.length === 0) return { completed: 0, retried: 0, failed: 0 }
+
+  return runJobs(await claimJobs(new Date(), keys.length, keys))
+}
+
+// Runs claimed jobs one after the other
+async function runJobs(jobs: (typeof JobTable.$inferSelect)[]): Promise<JobRunResult> {
+  const result = { completed: 0, retried: 0, failed: 0 }
+
+  for (const job of jobs) {
+    try {
+      const handler = JOB_HANDLERS[job.type] as (payload: JobPayloads[JobType], attempt: JobAttempt) => Promise<void>
+      await handler(job.payload, { attempts: job.attempts, lastAttempt: job.attempts >= job.maxAttempts })
+
+      await db
+        .update(JobTable)
+        .set({ status: "completed", completedAt: new Date(), lockedUntil: null })
+        .where(eq(JobTable.id, job.id))
+      result.completed++
+    } catch (error: any) {
+      const failed = job.attempts >= job.maxAttempts
+      console.error(`Error running ${job.type} job ${job.id} (attempt ${job.attempts}): ${error.message || error}`)
+
+      await db
+        .update(JobTable)
+        .set({
+          status: failed ? "failed" : "queued",
+          runAt: failed ? job.runAt : addMinutes(new Date(), getRetryDelayInMinutes(job.attempts)),
+          lockedUntil: null,
+          lastError: String(error.message || error),
+        })
+        .where(eq(JobTable.id, job.id))
+      result[failed ? "failed" : "retried"]++
+    }
+  }
+
+  return result
+}
+
+// Puts failed jobs back in the queue, with their attempts reset (e.g. after fixing the SMTP settings).
+// Returns how many were queued again.
+export async function retryFailedJobs(ids?: string[]): Promise<number> {
+  const retried = await db
+    .update(JobTable)
+    .set({ status: "queued", attempts: 0, runAt: new Date(), lastError: null })
+    .where(and(eq(JobTable.status, "failed"), ids ? inArray(JobTable.id, ids) : undefined))
+    .returning({ id: JobTable.id })
+
+  return retried.length
+}
+
+// The most recent jobs that ran out of attempts, for looking into what went wrong
+export async function getFailedJobs(limit = 50) {
+  return db.query.JobTable.findMany({
+    columns: { id: true, type: true, payload: true, attempts: true, lastError: true, updatedAt: true },
+    where: ({ status }, { eq }) => eq(status, "failed"),
+    orderBy: ({ updatedAt }, { desc }) => desc(updatedAt),
+    limit,
+  })
+}
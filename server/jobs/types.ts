@@ -0,0 +1,34 @@
+import type { JOB_TYPES } from "@/constants"
+import type { MeetingEmailKind, MeetingEmailRecipient } from "../mail/templates"
+
+// The input of each kind of job, stored as JSON (so dates are ISO strings)
+export type JobPayloads = {
+  sendMeetingEmails: {
+    kind: MeetingEmailKind
+    meetingId: string
+    recipient: MeetingEmailRecipient // One job per recipient, so a retry never emails the other one twice
+    previousStartTime?: string // Reschedule emails: the time the meeting was moved from
+  }
+  expireBookingRequests: {
+    clerkUserId?: string // Only this host's requests (all hosts without it)
+  }
+  sendDueReminders: Record<string, never>
+  deliverWebhook: {
+    deliveryId: string
+  }
+}
+
+export type JobType = (typeof JOB_TYPES)[number]
+
+// Which attempt of its job a handler is running
+export type JobAttempt = {
+  attempts: number // 1 on the first try
+  lastAttempt: boolean // No retry follows if this one fails
+}
+
+// Options for queueing a job
+export type EnqueueOptions = {
+  key?: string // Idempotency key: queueing a job with a key that was used before does nothing
+  runAt?: Date // Not run before this time (now by default)
+  maxAttempts?: number
+}
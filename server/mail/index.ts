@@ -0,0 +1,150 @@
+import { db } from "@/drizzle/db"
+import { getOrganizer } from "../calendar"
+import { getMeetingICalendar, getMeetingICalFilename } from "../calendar/ics"
+import { enqueueJob } from "../jobs"
+import { createSmtpMailer } from "./smtp"
+import { MeetingEmailKind, MeetingEmailRecipient, renderMeetingEmail } from "./templates"
+import type { Mailer } from "./types"
+import { absoluteUrl } from "@/lib/utils"
+import { isPast } from "date-fns"
+
+export type { MailAttachment, MailMessage, Mailer } from "./types"
+export type { MeetingEmailKind } from "./templates"
+
+// "Name <address>", without characters that would break the header
+function formatSender(name: string, email: string): string {
+  return `${name.replace(/["<>\\]/g, "")} <${email}>`
+}
+
+// Used when no SMTP server is configured (e.g. in development): emails are only noted in the server log.
+// Never the body: it holds the guest's manage link, which lets anyone who reads it cancel or move the meeting.
+const logMailer: Mailer = {
+  async send(message) {
+    console.info(`[mail] Not sent (SMTP_HOST isn't set) | To: ${message.to} | Subject: ${message.subject}`)
+  },
+}
+
+// Returns the mailer configured through the SMTP_* environment variables, or the log mailer without SMTP_HOST
+export function getMailer(): Mailer {
+  if (!process.env.SMTP_HOST) return logMailer
+
+  return createSmtpMailer({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === "true",
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.MAIL_FROM ?? "Calendify <no-reply@localhost>",
+  })
+}
+
+// Emails that come with the meeting as an .ics file, so guests can add it to any calendar app, and update
+// or remove it there when it changes (the host already has it in the calendar Calendify writes to)
+const ATTACH_CALENDAR_FILE: MeetingEmailKind[] = ["confirmed", "rescheduled", "cancelled"]
+
+// Sends one kind of meeting email to the guest and/or the host (only the ones that have a template for it).
+// Emails are a courtesy: a failure is logged and never undoes the booking change that triggered it.
+// Returns whether every email went out, for callers that retry (like the email jobs).
+export async function sendMeetingEmails(
+  kind: MeetingEmailKind,
+  meetingId: string,
+  {
+    recipients = ["guest", "host"],
+    previousStartTime,
+  }: {
+    recipients?: MeetingEmailRecipient[] // Who to send to, e.g. only the guest when the host made the change
+    previousStartTime?: Date // Reschedule emails: the time the meeting was moved from
+  } = {}
+): Promise<boolean> {
+  try {
+    const meeting = await db.query.MeetingTable.findFirst({
+      where: ({ id }, { eq }) => eq(id, meetingId),
+      with: { event: true },
+    })
+    if (!meeting) return true // Nothing to tell about a meeting that no longer exists
+    // A reminder queued before the meeting was cancelled or started isn't needed anymore
+    if (kind === "reminder" && (meeting.status !== "confirmed" || isPast(meeting.startTime))) return true
+
+    // The host's name and email from Clerk, and their default schedule's timezone for the times in their emails
+    const [host, schedule] = await Promise.all([
+      getOrganizer(meeting.clerkUserId),
+      db.query.ScheduleTable.findFirst({
+        columns: { timezone: true },
+        where: ({ clerkUserId, isDefault }, { and, eq }) => and(eq(clerkUserId, meeting.clerkUserId), eq(isDefault, true)),
+      }),
+    ])
+
+    const data = {
+      eventName: meeting.event.name,
+      durationInMinutes: meeting.event.durationInMinutes,
+      hostName: host.name,
+      guestName: meeting.guestName,
+      startTime: meeting.startTime,
+      previousStartTime,
+      guestTimezone: meeting.timezone,
+      hostTimezone: schedule?.timezone ?? meeting.timezone,
+      location: meeting.location ?? meeting.conferenceUrl,
+      guestNotes: meeting.guestNotes,
+      reason: meeting.cancellationReason,
+      manageUrl: absoluteUrl(`/book/manage/${meeting.manageToken}`),
+    }
+
+    const mailer = getMailer()
+    await Promise.all(recipients.map(async recipient => {
+      const email = renderMeetingEmail(kind, recipient, data)
+      if (!email) return
+
+      await mailer.send({
+        ...email,
+        to: recipient === "guest" ? meeting.guestEmail : host.email,
+        // Replies to the guest's emails go to the host, and the other way around
+        replyTo: recipient === "guest" ? formatSender(host.name, host.email) : formatSender(meeting.guestName, meeting.guestEmail),
+        attachments: recipient === "guest" && ATTACH_CALENDAR_FILE.includes(kind)
+          ? [{
+              filename: getMeetingICalFilename(meeting),
+              content: getMeetingICalendar(meeting, host),
+              contentType: "text/calendar; charset=utf-8",
+            }]
+          : undefined,
+      })
+    }))
+    return true
+  } catch (error: any) {
+    console.error(`Error sending ${kind} emails for meeting ${meetingId}: ${error.message || error}`)
+    return false
+  }
+}
+
+// Queues meeting emails as background jobs (one per recipient), so the booking change that triggered them
+// doesn't wait for the SMTP server and failed emails are retried. The key is made of the meeting's SEQUENCE
+// after the change (bumped on every change, like the webhooks' change IDs), so queueing the same change twice
+// still sends each email once, while a meeting moved back and forth gets an email for every move.
+// Returns the keys of the jobs it queued.
+export async function queueMeetingEmails(
+  kind: MeetingEmailKind,
+  meeting: { id: string; sequence: number },
+  {
+    recipients = ["guest", "host"],
+    previousStartTime,
+    reminderOffsetInMinutes,
+  }: {
+    recipients?: MeetingEmailRecipient[] // Who to send to, e.g. only the guest when the host made the change
+    previousStartTime?: Date // Reschedule emails: the time the meeting was moved from
+    reminderOffsetInMinutes?: number // Reminder emails: which of the meeting's reminders it is
+  } = {}
+): Promise<string[]> {
+  const version = reminderOffsetInMinutes == null ? meeting.sequence : `${meeting.sequence}:${reminderOffsetInMinutes}`
+  const keys: string[] = []
+
+  for (const recipient of recipients) {
+    const key = `sendMeetingEmails:${kind}:${recipient}:${meeting.id}:${version}`
+    const queued = await enqueueJob(
+      "sendMeetingEmails",
+      { kind, meetingId: meeting.id, recipient, previousStartTime: previousStartTime?.toISOString() },
+      { key }
+    )
+    if (queued) keys.push(key)
+  }
+
+  return keys
+}
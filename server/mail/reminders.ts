@@ -0,0 +1,85 @@
+import { db } from "@/drizzle/db"
+import { MeetingReminderTable, MeetingTable } from "@/drizzle/schema"
+import { addMinutes, isFuture } from "date-fns"
+import { and, eq, gt, inArray, isNull, lte } from "drizzle-orm"
+import { queueMeetingEmails } from "."
+
+// Plans the reminder emails of a meeting from its event's reminder offsets, replacing any planned before.
+// Called whenever a meeting is confirmed, moved or cancelled: only confirmed meetings keep reminders,
+// and offsets that already passed (e.g. "1 day before" for a meeting booked an hour ahead) are skipped.
+export async function scheduleReminders(meetingId: string): Promise<void> {
+  const meeting = await db.query.MeetingTable.findFirst({
+    columns: { status: true, startTime: true },
+    where: ({ id }, { eq }) => eq(id, meetingId),
+    with: { event: { columns: { reminderOffsetsInMinutes: true } } },
+  })
+
+  const reminders = meeting?.status === "confirmed"
+    ? meeting.event.reminderOffsetsInMinutes
+      .map(offsetInMinutes => ({ meetingId, offsetInMinutes, sendAt: addMinutes(meeting.startTime, -offsetInMinutes) }))
+      .filter(reminder => isFuture(reminder.sendAt))
+    : []
+
+  const remove = db.delete(MeetingReminderTable).where(eq(MeetingReminderTable.meetingId, meetingId))
+
+  // Both in one transaction, so the reminders of a moved meeting are never planned twice
+  if (reminders.length === 0) {
+    await remove
+  } else {
+    await db.batch([remove, db.insert(MeetingReminderTable).values(reminders)])
+  }
+}
+
+// Queues the reminders that are due, one email job per recipient (so a retry never emails the other one twice),
+// and returns how many meetings are reminded. Runs every few minutes as a recurring job (see server/jobs/runner.ts).
+// Several runs at the same time are safe: each reminder is claimed by marking it sent before its emails are queued.
+export async function sendDueReminders(now = new Date()): Promise<number> {
+  const claimed = await db
+    .update(MeetingReminderTable)
+    .set({ sentAt: now })
+    .where(and(
+      isNull(MeetingReminderTable.sentAt),
+      lte(MeetingReminderTable.sendAt, now),
+      // Only meetings that still take place and haven't started yet
+      inArray(
+        MeetingReminderTable.meetingId,
+        db
+          .select({ id: MeetingTable.id })
+          .from(MeetingTable)
+          .where(and(eq(MeetingTable.status, "confirmed"), gt(MeetingTable.startTime, now)))
+      )
+    ))
+    .returning({ meetingId: MeetingReminderTable.meetingId, offsetInMinutes: MeetingReminderTable.offsetInMinutes })
+  if (claimed.length === 0) return 0
+
+  // A meeting gets one email per run even if several of its reminders are due (e.g. after an outage):
+  // the closest one is sent and the earlier ones stay marked as sent
+  const closest = new Map<string, number>()
+  for (const { meetingId, offsetInMinutes } of claimed) {
+    closest.set(meetingId, Math.min(offsetInMinutes, closest.get(meetingId) ?? Infinity))
+  }
+
+  // The meetings' SEQUENCE tells the reminders of a moved meeting apart in the job keys
+  const meetings = await db.query.MeetingTable.findMany({
+    columns: { id: true, sequence: true },
+    where: ({ id }, { inArray }) => inArray(id, [...closest.keys()]),
+  })
+
+  let queued = 0
+  for (const meeting of meetings) {
+    const offsetInMinutes = closest.get(meeting.id)!
+    try {
+      await queueMeetingEmails("reminder", meeting, { reminderOffsetInMinutes: offsetInMinutes })
+      queued++
+    } catch (error: any) {
+      console.error(`Error queueing the reminder of meeting ${meeting.id}: ${error.message || error}`)
+      // Give the reminder back, so the next run tries again (emails that were queued aren't queued twice)
+      await db
+        .update(MeetingReminderTable)
+        .set({ sentAt: null })
+        .where(and(eq(MeetingReminderTable.meetingId, meeting.id), eq(MeetingReminderTable.offsetInMinutes, offsetInMinutes)))
+    }
+  }
+
+  return queued
+}
@@ -0,0 +1,82 @@
+import { createServer, type AddressInfo, type Server } from "net"
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest"
+import { createSmtpMailer } from "./smtp"
+
+// A tiny SMTP server without TLS (like a local catcher or a misconfigured relay) that accepts everything
+const commands: string[] = []
+let server: Server
+let port: number
+
+beforeAll(async () => {
+  server = createServer(socket => {
+    let buffer = ""
+    let inData = false
+    socket.write("220 stub ESMTP\r\n")
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8")
+      let end
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end)
+        buffer = buffer.slice(end + 2)
+        if (inData) {
+          if (line === ".") {
+            inData = false
+            socket.write("250 Queued\r\n")
+          }
+          continue
+        }
+
+        commands.push(line)
+        const verb = line.split(" ")[0].toUpperCase()
+        if (verb === "EHLO") socket.write("250-stub\r\n250 AUTH PLAIN LOGIN\r\n")
+        else if (verb === "AUTH") socket.write("235 Authenticated\r\n")
+        else if (verb === "DATA") {
+          inData = true
+          socket.write("354 Go ahead\r\n")
+        } else if (verb === "QUIT") socket.end("221 Bye\r\n")
+        else socket.write("250 OK\r\n")
+      }
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+  port = (server.address() as AddressInfo).port
+})
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+afterEach(() => {
+  commands.length = 0
+})
+
+const message = { to: "jane@example.com", subject: "Hello", text: "Hello", html: "<p>Hello</p>" }
+
+describe("SMTP mailer", () => {
+  it("sends without a login over a plain connection", async () => {
+    const mailer = createSmtpMailer({ host: "127.0.0.1", port, secure: false, from: "Calendify <no-reply@example.com>" })
+
+    await mailer.send(message)
+
+    expect(commands).toEqual([
+      "EHLO example.com",
+      "MAIL FROM:<no-reply@example.com>",
+      "RCPT TO:<jane@example.com>",
+      "DATA",
+      "QUIT",
+    ])
+  })
+
+  it("never sends credentials without TLS", async () => {
+    const mailer = createSmtpMailer({
+      host: "127.0.0.1",
+      port,
+      secure: false,
+      user: "calendify",
+      password: "secret",
+      from: "Calendify <no-reply@example.com>",
+    })
+
+    await expect(mailer.send(message)).rejects.toThrow("refusing to send the password without TLS")
+    expect(commands).toEqual(["EHLO example.com"])
+  })
+})
@@ -0,0 +1,234 @@
+import { randomUUID } from "crypto"
+import net from "net"
+import tls from "tls"
+import type { MailAttachment, MailMessage, Mailer } from "./types"
+
+// Where and how to reach an SMTP server
+export type SmtpConfig = {
+  host: string
+  port: number // 587 or 25 with STARTTLS, 465 with implicit TLS, 1025 for local catchers like Mailpit
+  secure: boolean // Connect with TLS right away (port 465) instead of upgrading with STARTTLS when offered
+  user?: string // Leave empty for servers that don't need a login (e.g. a local SMTP catcher). Only sent over TLS.
+  password?: string
+  from: string // Sender, e.g. "Calendify <no-reply@example.com>"
+}
+
+// Give up on a server that stops answering
+const SMTP_TIMEOUT_IN_MS = 30_000
+
+// A reply from the server: the code and the text of all its lines
+type SmtpReply = { code: number; message: string }
+
+// Reads the replies a socket receives one at a time (a reply can span several "250-..." lines)
+function readReplies(socket: net.Socket) {
+  let buffer = ""
+  let lines: string[] = []
+  const replies: SmtpReply[] = []
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = []
+  let failure: Error | null = null
+
+  // Hand received replies (or the connection's failure) to whoever is waiting for them
+  const flush = () => {
+    while (replies.length > 0 && waiting.length > 0) waiting.shift()!.resolve(replies.shift()!)
+    if (failure) while (waiting.length > 0) waiting.shift()!.reject(failure)
+  }
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8")
+    let end
+    while ((end = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      lines.push(line)
+      // "250-..." is followed by more lines of the same reply, "250 ..." is its last line
+      if (line[3] !== "-") {
+        replies.push({ code: Number(line.slice(0, 3)), message: lines.map(l => l.slice(4)).join("\n") })
+        lines = []
+      }
+    }
+    flush()
+  }
+  const onError = (error: Error) => {
+    failure ??= error
+    flush()
+  }
+  const onClose = () => onError(new Error("SMTP connection closed"))
+
+  socket.on("data", onData)
+  socket.on("error", onError)
+  socket.on("close", onClose)
+
+  return {
+    read: () => new Promise<SmtpReply>((resolve, reject) => {
+      waiting.push({ resolve, reject })
+      flush()
+    }),
+    // Stop reading, e.g. before the socket is upgraded to TLS
+    stop: () => {
+      socket.off("data", onData)
+      socket.off("error", onError)
+      socket.off("close", onClose)
+    },
+  }
+}
+
+// Resolves once a new (or upgraded) connection is ready
+function connected<T extends net.Socket>(socket: T, readyEvent: "connect" | "secureConnect"): Promise<T> {
+  return new Promise((resolve, reject) => {
+    socket.once(readyEvent, () => {
+      socket.off("error", reject)
+      resolve(socket)
+    })
+    socket.once("error", reject)
+  })
+}
+
+// Email address of a sender like "Calendify <no-reply@example.com>"
+function getAddress(sender: string): string {
+  return sender.match(/<([^>]+)>/)?.[1] ?? sender.trim()
+}
+
+// Encodes a header value that isn't plain ASCII (RFC 2047)
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`
+}
+
+// Encodes a "Name <address>" sender, leaving the address itself readable
+// (plain names are quoted, so commas or dots in them can't be mistaken for more addresses)
+function encodeSender(sender: string): string {
+  const match = sender.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/)
+  if (!match || !match[1]) return sender
+
+  const name = encodeHeader(match[1])
+  return `${name === match[1] ? `"${name.replace(/\\/g, "")}"` : name} <${match[2]}>`
+}
+
+// Base64 in lines of 76 characters, as MIME requires
+function toBase64Lines(content: string): string {
+  return Buffer.from(content, "utf8").toString("base64").replace(/.{76}(?=.)/g, "$&\r\n")
+}
+
+// One MIME part with its headers and base64 body
+function mimePart(contentType: string, content: string, extraHeaders: string[] = []): string {
+  return [
+    `Content-Type: ${contentType}`,
+    "Content-Transfer-Encoding: base64",
+    ...extraHeaders,
+    "",
+    toBase64Lines(content),
+  ].join("\r\n")
+}
+
+// Joins parts into a multipart body with a fresh boundary
+function multipart(type: "alternative" | "mixed", parts: string[]): { contentType: string; body: string } {
+  const boundary = `calendify-${randomUUID()}`
+  return {
+    contentType: `multipart/${type}; boundary="${boundary}"`,
+    body: [...parts.map(part => `--${boundary}\r\n${part}`), `--${boundary}--`].join("\r\n"),
+  }
+}
+
+// Builds the full message: headers, the text and HTML versions, and any attachments
+function buildMessage(from: string, message: MailMessage): string {
+  const alternative = multipart("alternative", [
+    mimePart("text/plain; charset=utf-8", message.text),
+    mimePart("text/html; charset=utf-8", message.html),
+  ])
+
+  const attachments = message.attachments ?? []
+  const content = attachments.length === 0 ? alternative : multipart("mixed", [
+    `Content-Type: ${alternative.contentType}\r\n\r\n${alternative.body}`,
+    ...attachments.map((attachment: MailAttachment) =>
+      mimePart(attachment.contentType, attachment.content, [
+        `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      ])
+    ),
+  ])
+
+  const domain = getAddress(from).split("@")[1] ?? "localhost"
+
+  return [
+    `From: ${encodeSender(from)}`,
+    `To: ${message.to}`,
+    ...(message.replyTo ? [`Reply-To: ${encodeSender(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: ${content.contentType}`,
+    "",
+    content.body,
+  ].join("\r\n")
+}
+
+// SMTP implementation of Mailer. It speaks the protocol directly over a socket (STARTTLS or implicit TLS,
+// AUTH PLAIN or LOGIN), so it works with any provider and with local catchers like Mailpit or MailHog.
+// Credentials are never sent over a connection without TLS: sending fails instead.
+export function createSmtpMailer(config: SmtpConfig): Mailer {
+  const domain = getAddress(config.from).split("@")[1] ?? "localhost"
+
+  return {
+    async send(message) {
+      let socket: net.Socket = config.secure
+        ? await connected(tls.connect({ host: config.host, port: config.port, servername: config.host }), "secureConnect")
+        : await connected(net.connect({ host: config.host, port: config.port }), "connect")
+      socket.setTimeout(SMTP_TIMEOUT_IN_MS, () => socket.destroy(new Error("SMTP server stopped answering")))
+      let replies = readReplies(socket)
+
+      // Send a command (or nothing, for the greeting) and make sure the reply has one of the expected codes
+      const command = async (line: string | null, expected: number[]): Promise<SmtpReply> => {
+        if (line != null) socket.write(`${line}\r\n`)
+        const reply = await replies.read()
+        if (!expected.includes(reply.code)) {
+          throw new Error(`SMTP server replied ${reply.code} ${reply.message}`)
+        }
+        return reply
+      }
+
+      try {
+        await command(null, [220])
+        let hello = await command(`EHLO ${domain}`, [250])
+        let encrypted = config.secure
+
+        // Switch to TLS before logging in whenever the server supports it
+        if (!encrypted && /^STARTTLS\b/im.test(hello.message)) {
+          await command("STARTTLS", [220])
+          replies.stop()
+          socket = await connected(tls.connect({ socket, servername: config.host }), "secureConnect")
+          socket.setTimeout(SMTP_TIMEOUT_IN_MS, () => socket.destroy(new Error("SMTP server stopped answering")))
+          replies = readReplies(socket)
+          hello = await command(`EHLO ${domain}`, [250])
+          encrypted = true
+        }
+
+        if (config.user) {
+          // AUTH PLAIN and LOGIN only base64-encode the password, anyone on the way could read it
+          if (!encrypted) {
+            throw new Error(
+              `SMTP server ${config.host}:${config.port} doesn't offer STARTTLS, refusing to send the password without TLS ` +
+              "(use SMTP_SECURE=true if it expects TLS right away, or leave SMTP_USER empty if it needs no login)"
+            )
+          }
+
+          if (/^AUTH\b.*\bPLAIN\b/im.test(hello.message)) {
+            await command(`AUTH PLAIN ${Buffer.from(`\0${config.user}\0${config.password ?? ""}`).toString("base64")}`, [235])
+          } else {
+            await command("AUTH LOGIN", [334])
+            await command(Buffer.from(config.user).toString("base64"), [334])
+            await command(Buffer.from(config.password ?? "").toString("base64"), [235])
+          }
+        }
+
+        await command(`MAIL FROM:<${getAddress(config.from)}>`, [250])
+        await command(`RCPT TO:<${getAddress(message.to)}>`, [250, 251])
+        await command("DATA", [354])
+        // Lines starting with a dot get a second one, so they can't end the message early
+        await command(`${buildMessage(config.from, message).replace(/^\./gm, "..")}\r\n.`, [250])
+        await command("QUIT", [221]).catch(() => {}) // The message is already accepted at this point
+      } finally {
+        replies.stop()
+        socket.destroy()
+      }
+    },
+  }
+}
@@ -0,0 +1,237 @@
+import { formatEventDescription } from "@/lib/formatters"
+import { absoluteUrl } from "@/lib/utils"
+import { formatDistanceStrict } from "date-fns"
+import { formatInTimeZone } from "date-fns-tz"
+
+// Everything the meeting emails talk about, looked up once for both the guest and the host
+export type MeetingEmailData = {
+  eventName: string
+  durationInMinutes: number
+  hostName: string
+  guestName: string
+  startTime: Date
+  previousStartTime?: Date // Reschedule emails: the time the meeting was moved from
+  guestTimezone: string // Timezone the guest booked in, their emails show times in it
+  hostTimezone: string // Timezone of the host's schedule, their emails show times in it
+  location: string | null // Link, address or phone number, if there is one yet
+  guestNotes: string | null
+  reason: string | null // Why the meeting was cancelled or the request rejected, if given
+  manageUrl: string // The guest's cancel/reschedule page
+}
+
+// Which email is sent, and who gets it
+export type MeetingEmailKind = "confirmed" | "requested" | "declined" | "cancelled" | "rescheduled" | "reminder"
+export type MeetingEmailRecipient = "guest" | "host"
+
+// A rendered email: the same content as HTML and as plain text
+export type RenderedEmail = { subject: string; html: string; text: string }
+
+// Brand colors, matching the app's blue buttons and borders
+const BRAND_COLOR = "#60a5fa" // blue-400
+const BORDER_COLOR = "#bfdbfe" // blue-200
+
+// Escapes text for use in HTML
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+// Formats a time for one recipient, e.g. "Monday, March 3, 2025 at 2:30 PM (CET)"
+function formatTime(date: Date, timezone: string): string {
+  return formatInTimeZone(date, timezone, "EEEE, MMMM d, yyyy 'at' h:mm a (zzz)")
+}
+
+// The content of one email before it is put into the layout
+type EmailContent = {
+  subject: string
+  heading: string
+  intro: string
+  details: [string, string][] // Label and value rows, e.g. ["When", "Monday..."]
+  action?: { label: string; url: string } // A single button
+}
+
+// Puts the content into the branded layout, as HTML and as plain text
+function render({ subject, heading, intro, details, action }: EmailContent): RenderedEmail {
+  const rows = details
+    .map(([label, value]) => `
+      <tr>
+        <td style="padding:6px 12px 6px 0;color:#6b7280;vertical-align:top;white-space:nowrap">${escapeHtml(label)}</td>
+        <td style="padding:6px 0;white-space:pre-wrap">${escapeHtml(value)}</td>
+      </tr>`)
+    .join("")
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f8fafc;font-family:Arial,Helvetica,sans-serif;color:#111827">
+    <table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border:8px solid ${BORDER_COLOR};border-radius:16px">
+      <tr>
+        <td style="padding:24px">
+          <p style="margin:0 0 16px;font-size:24px;font-weight:900;color:${BRAND_COLOR}">Calendify</p>
+          <h1 style="margin:0 0 12px;font-size:20px">${escapeHtml(heading)}</h1>
+          <p style="margin:0 0 16px;line-height:1.5">${escapeHtml(intro)}</p>
+          <table role="presentation" style="border-collapse:collapse;margin-bottom:16px">${rows}
+          </table>
+          ${action ? `<a href="${escapeHtml(action.url)}" style="display:inline-block;padding:10px 18px;background:${BRAND_COLOR};color:#ffffff;text-decoration:none;border-radius:8px;font-weight:bold">${escapeHtml(action.label)}</a>` : ""}
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`
+
+  const text = [
+    heading,
+    "",
+    intro,
+    "",
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    ...(action ? ["", `${action.label}: ${action.url}`] : []),
+    "",
+    "Calendify",
+  ].join("\n")
+
+  return { subject, html, text }
+}
+
+// The "what, when, where" rows shown in every email, with times in the recipient's timezone
+function meetingDetails(data: MeetingEmailData, timezone: string, withName: string): [string, string][] {
+  return [
+    ["What", `${data.eventName} (${formatEventDescription(data.durationInMinutes)})`],
+    ["With", withName],
+    ["When", formatTime(data.startTime, timezone)],
+    ...(data.location ? [["Where", data.location] as [string, string]] : []),
+  ]
+}
+
+// The button in the guest's emails, leading to their cancel/reschedule page
+const manageAction = (data: MeetingEmailData) => ({ label: "Cancel or reschedule", url: data.manageUrl })
+
+// The button in the host's emails, leading to their dashboard
+const dashboardAction = (tab: string) => ({ label: "View your meetings", url: absoluteUrl(`/meetings?tab=${tab}`) })
+
+// Every meeting email, by kind and recipient. A missing recipient means nobody gets that kind of email
+// (e.g. the host doesn't get told about a request they rejected themselves).
+const TEMPLATES: Record<MeetingEmailKind, Partial<Record<MeetingEmailRecipient, (data: MeetingEmailData) => RenderedEmail>>> = {
+  confirmed: {
+    guest: data => render({
+      subject: `Confirmed: ${data.eventName} with ${data.hostName}`,
+      heading: "Your meeting is confirmed",
+      intro: `Hi ${data.guestName}, your meeting with ${data.hostName} is booked.`,
+      details: meetingDetails(data, data.guestTimezone, data.hostName),
+      action: manageAction(data),
+    }),
+    host: data => render({
+      subject: `New booking: ${data.eventName} with ${data.guestName}`,
+      heading: "You have a new meeting",
+      intro: `${data.guestName} booked a meeting with you.`,
+      details: [
+        ...meetingDetails(data, data.hostTimezone, data.guestName),
+        ...(data.guestNotes ? [["Notes", data.guestNotes] as [string, string]] : []),
+      ],
+      action: dashboardAction("upcoming"),
+    }),
+  },
+  requested: {
+    guest: data => render({
+      subject: `Requested: ${data.eventName} with ${data.hostName}`,
+      heading: "Your booking request was sent",
+      intro: `Hi ${data.guestName}, ${data.hostName} has to accept your request before the meeting is confirmed. The time is held for you until then.`,
+      details: meetingDetails(data, data.guestTimezone, data.hostName),
+      action: manageAction(data),
+    }),
+    host: data => render({
+      subject: `Booking request: ${data.eventName} with ${data.guestName}`,
+      heading: "You have a new booking request",
+      intro: `${data.guestName} would like to meet with you. Accept or reject the request before it expires.`,
+      details: [
+        ...meetingDetails(data, data.hostTimezone, data.guestName),
+        ...(data.guestNotes ? [["Notes", data.guestNotes] as [string, string]] : []),
+      ],
+      action: dashboardAction("requests"),
+    }),
+  },
+  declined: {
+    guest: data => render({
+      subject: `Not confirmed: ${data.eventName} with ${data.hostName}`,
+      heading: "Your booking request wasn't accepted",
+      intro: `Hi ${data.guestName}, ${data.hostName} couldn't accept your request, so the time has been released.`,
+      details: [
+        ...meetingDetails(data, data.guestTimezone, data.hostName),
+        ...(data.reason ? [["Message", data.reason] as [string, string]] : []),
+      ],
+    }),
+  },
+  cancelled: {
+    guest: data => render({
+      subject: `Cancelled: ${data.eventName} with ${data.hostName}`,
+      heading: "Your meeting was cancelled",
+      intro: `Hi ${data.guestName}, your meeting with ${data.hostName} has been cancelled.`,
+      details: [
+        ...meetingDetails(data, data.guestTimezone, data.hostName),
+        ...(data.reason ? [["Reason", data.reason] as [string, string]] : []),
+      ],
+    }),
+    host: data => render({
+      subject: `Cancelled: ${data.eventName} with ${data.guestName}`,
+      heading: "A meeting was cancelled",
+      intro: `${data.guestName} cancelled their meeting with you. The time is free again.`,
+      details: [
+        ...meetingDetails(data, data.hostTimezone, data.guestName),
+        ...(data.reason ? [["Reason", data.reason] as [string, string]] : []),
+      ],
+      action: dashboardAction("cancelled"),
+    }),
+  },
+  rescheduled: {
+    guest: data => render({
+      subject: `Rescheduled: ${data.eventName} with ${data.hostName}`,
+      heading: "Your meeting was moved",
+      intro: `Hi ${data.guestName}, your meeting with ${data.hostName} has a new time.`,
+      details: [
+        ...meetingDetails(data, data.guestTimezone, data.hostName),
+        ...(data.previousStartTime ? [["Previously", formatTime(data.previousStartTime, data.guestTimezone)] as [string, string]] : []),
+      ],
+      action: manageAction(data),
+    }),
+    host: data => render({
+      subject: `Rescheduled: ${data.eventName} with ${data.guestName}`,
+      heading: "A meeting was moved",
+      intro: `${data.guestName} moved their meeting with you to a new time.`,
+      details: [
+        ...meetingDetails(data, data.hostTimezone, data.guestName),
+        ...(data.previousStartTime ? [["Previously", formatTime(data.previousStartTime, data.hostTimezone)] as [string, string]] : []),
+      ],
+      action: dashboardAction("upcoming"),
+    }),
+  },
+  reminder: {
+    guest: data => render({
+      subject: `Reminder: ${data.eventName} with ${data.hostName} in ${formatDistanceStrict(data.startTime, new Date())}`,
+      heading: "Your meeting is coming up",
+      intro: `Hi ${data.guestName}, this is a reminder of your meeting with ${data.hostName}.`,
+      details: meetingDetails(data, data.guestTimezone, data.hostName),
+      action: manageAction(data),
+    }),
+    host: data => render({
+      subject: `Reminder: ${data.eventName} with ${data.guestName} in ${formatDistanceStrict(data.startTime, new Date())}`,
+      heading: "Your meeting is coming up",
+      intro: `This is a reminder of your meeting with ${data.guestName}.`,
+      details: [
+        ...meetingDetails(data, data.hostTimezone, data.guestName),
+        ...(data.guestNotes ? [["Notes", data.guestNotes] as [string, string]] : []),
+      ],
+      action: dashboardAction("upcoming"),
+    }),
+  },
+}
+
+// Renders one meeting email for one recipient (null if that recipient doesn't get this kind of email)
+export function renderMeetingEmail(
+  kind: MeetingEmailKind,
+  recipient: MeetingEmailRecipient,
+  data: MeetingEmailData
+): RenderedEmail | null {
+  return TEMPLATES[kind][recipient]?.(data) ?? null
+}
@@ -0,0 +1,22 @@
+// A file attached to an email, e.g. an invite.ics
+export type MailAttachment = {
+  filename: string
+  content: string
+  contentType: string // e.g. "text/calendar; charset=utf-8; method=REQUEST"
+}
+
+// An email ready to be sent: the same content as HTML and as plain text for clients that don't show HTML
+export type MailMessage = {
+  to: string
+  replyTo?: string // Where replies should go (e.g. the host, for emails sent to the guest)
+  subject: string
+  html: string
+  text: string
+  attachments?: MailAttachment[]
+}
+
+// A way of delivering emails. SMTP is used when it is configured; without it emails are only logged.
+export interface Mailer {
+  // Deliver one email, failing if the server doesn't accept it
+  send(message: MailMessage): Promise<void>
+}
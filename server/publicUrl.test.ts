@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { assertPublicUrl, isPrivateAddress } from "./publicUrl"
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "fe80::1",
+    "fd00::1",
+    "::ffff:127.0.0.1",
+    "localhost",
+  ])("refuses %s", address => {
+    expect(isPrivateAddress(address)).toBe(true)
+  })
+
+  it.each(["93.184.216.34", "8.8.8.8", "172.32.0.1", "2606:4700:4700::1111"])("allows %s", address => {
+    expect(isPrivateAddress(address)).toBe(false)
+  })
+})
+
+describe("assertPublicUrl", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("only allows http and https", async () => {
+    await expect(assertPublicUrl("file:///etc/passwd")).rejects.toThrow("Only http and https URLs are supported.")
+  })
+
+  it("allows private addresses outside production", async () => {
+    await expect(assertPublicUrl("http://localhost:5232/")).resolves.toBeUndefined()
+  })
+
+  it("refuses private addresses in production", async () => {
+    vi.stubEnv("NODE_ENV", "production")
+
+    await expect(assertPublicUrl("http://localhost:5232/")).rejects.toThrow("localhost is not a public address.")
+    await expect(assertPublicUrl("http://169.254.169.254/latest/meta-data/")).rejects.toThrow("not a public address")
+    await expect(assertPublicUrl("http://[::1]:8080/")).rejects.toThrow("::1 is not a public address.")
+    await expect(assertPublicUrl("https://93.184.216.34/hook")).resolves.toBeUndefined()
+  })
+})
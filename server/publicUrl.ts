@@ -0,0 +1,63 @@
+import { lookup } from "dns/promises"
+import { BlockList, isIP } from "net"
+
+// Guard for requests the server makes to URLs that hosts typed in (CalDAV calendars, webhooks).
+// Without it a host could point Calendify at the server's own network: localhost, the cloud metadata
+// endpoint (169.254.169.254) or private services that are not meant to be reachable from outside.
+
+// Address ranges that aren't on the public internet, as [network, prefix length]
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+]
+const PRIVATE_IPV6_RANGES: [string, number][] = [
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["64:ff9b::", 96], // NAT64, which could hide any of the IPv4 ranges
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+]
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges by BlockList itself
+const PRIVATE_ADDRESSES = new BlockList()
+PRIVATE_IPV4_RANGES.forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4"))
+PRIVATE_IPV6_RANGES.forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6"))
+
+// Checks if an IP address is loopback, link-local, private or otherwise not public
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 0) return true // Not an IP address at all
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6")
+}
+
+// Makes sure a URL is http(s) and that its host name only resolves to public addresses, throwing otherwise.
+// Private addresses are only refused in production, so local CalDAV servers and webhook receivers work in development.
+export async function assertPublicUrl(url: string | URL): Promise<void> {
+  const { protocol, hostname } = new URL(url)
+
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new Error("Only http and https URLs are supported.")
+  }
+
+  if (process.env.NODE_ENV !== "production") return
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = hostname.replace(/^\[|\]$/g, "")
+  const addresses = await lookup(host, { all: true, verbatim: true }).catch(() => {
+    throw new Error(`Could not resolve ${host}.`)
+  })
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`${host} is not a public address.`)
+  }
+}
@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { decryptSecret, encryptSecret } from "./secrets"
+
+describe("secrets", () => {
+  beforeEach(() => {
+    process.env.SECRETS_ENCRYPTION_KEY = "test-key"
+  })
+
+  afterEach(() => {
+    delete process.env.SECRETS_ENCRYPTION_KEY
+  })
+
+  it("encrypts and decrypts", () => {
+    const stored = encryptSecret("app-password 🔑")
+
+    expect(stored).not.toContain("app-password")
+    expect(encryptSecret("app-password 🔑")).not.toBe(stored) // random IV
+    expect(decryptSecret(stored)).toBe("app-password 🔑")
+  })
+
+  it("reads values saved before encryption as they are", () => {
+    expect(decryptSecret("plain-password")).toBe("plain-password")
+  })
+
+  it("fails with another key", () => {
+    const stored = encryptSecret("app-password")
+    process.env.SECRETS_ENCRYPTION_KEY = "other-key"
+
+    expect(() => decryptSecret(stored)).toThrow()
+  })
+
+  it("needs a key", () => {
+    delete process.env.SECRETS_ENCRYPTION_KEY
+
+    expect(() => encryptSecret("app-password")).toThrow("SECRETS_ENCRYPTION_KEY is not set.")
+  })
+})
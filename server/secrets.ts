@@ -0,0 +1,37 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto"
+
+// Encryption of secrets stored in the database (like CalDAV passwords), with AES-256-GCM and a key from
+// SECRETS_ENCRYPTION_KEY. A leaked database dump alone then doesn't give away the hosts' calendars.
+
+// Prefix of encrypted values, followed by "<iv>:<auth tag>:<ciphertext>" in base64.
+// Values without it were saved before encryption and are read as they are.
+const ENCRYPTED_PREFIX = "enc:v1:"
+
+// 256-bit key derived from the environment variable (any long random string, e.g. `openssl rand -base64 32`)
+function getKey(): Buffer {
+  const secret = process.env.SECRETS_ENCRYPTION_KEY
+  if (!secret) {
+    throw new Error("SECRETS_ENCRYPTION_KEY is not set.")
+  }
+  return createHash("sha256").update(secret).digest()
+}
+
+// Encrypts a secret for storing it
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()])
+
+  return `${ENCRYPTED_PREFIX}${[iv, cipher.getAuthTag(), ciphertext].map(part => part.toString("base64")).join(":")}`
+}
+
+// Reads a stored secret back (throws if it was changed or encrypted with another key)
+export function decryptSecret(stored: string): string {
+  if (!stored.startsWith(ENCRYPTED_PREFIX)) return stored
+
+  const [iv, authTag, ciphertext] = stored.slice(ENCRYPTED_PREFIX.length).split(":").map(part => Buffer.from(part, "base64"))
+  const decipher = createDecipheriv("aes-256-gcm", getKey(), iv)
+  decipher.setAuthTag(authTag)
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8")
+}
@@ -0,0 +1,48 @@
+import { db } from "@/drizzle/db"
+import { UserSettingsTable } from "@/drizzle/schema"
+import { sql } from "drizzle-orm"
+import { decryptSecret } from "./secrets"
+
+// Reads of the user settings for server components and other server code. They live outside the
+// 'use server' action modules so browsers can't call them, and they never include the CalDAV password.
+
+// A user's settings, with only whether a CalDAV password is saved
+export type UserSettings = Omit<typeof UserSettingsTable.$inferSelect, "caldavPassword"> & {
+  hasCaldavPassword: boolean
+}
+
+// Columns and extras shared by the queries below
+const settingsColumns = {
+  columns: { caldavPassword: false },
+  extras: { hasCaldavPassword: sql<boolean>`${UserSettingsTable.caldavPassword} is not null`.as("hasCaldavPassword") },
+} as const
+
+// Fetch the settings of a user (undefined if they never saved any)
+export async function getUserSettings(userId: string): Promise<UserSettings | undefined> {
+  const settings = await db.query.UserSettingsTable.findFirst({
+    ...settingsColumns,
+    where: ({ clerkUserId }, { eq }) => eq(clerkUserId, userId),
+  })
+
+  return settings ?? undefined // Explicitly return undefined if not found
+}
+
+// Fetch the settings of the user with a username (the first part of their booking URLs)
+export async function getUserSettingsByUsername(name: string): Promise<UserSettings | undefined> {
+  const settings = await db.query.UserSettingsTable.findFirst({
+    ...settingsColumns,
+    where: ({ username }, { eq }) => eq(username, name.toLowerCase()),
+  })
+
+  return settings ?? undefined // Explicitly return undefined if not found
+}
+
+// Fetch and decrypt a user's saved CalDAV password (undefined if there is none), for talking to their calendar
+export async function getCalDavPassword(userId: string): Promise<string | undefined> {
+  const settings = await db.query.UserSettingsTable.findFirst({
+    columns: { caldavPassword: true },
+    where: ({ clerkUserId }, { eq }) => eq(clerkUserId, userId),
+  })
+
+  return settings?.caldavPassword ? decryptSecret(settings.caldavPassword) : undefined
+}
@@ -0,0 +1,222 @@
+import { createHmac } from "crypto"
+import { createServer, type IncomingMessage, type Server } from "http"
+import type { AddressInfo } from "net"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { deliverWebhook, triggerWebhooks } from "."
+import { encryptSecret } from "../secrets"
+
+// In-memory stand-ins for the tables and the job queue. Query conditions are evaluated against plain
+// objects: columns are their names and eq() compares a row's field with the value.
+const { state, eq, columns } = vi.hoisted(() => ({
+  state: {
+    meetings: [] as Record<string, any>[],
+    webhooks: [] as Record<string, any>[],
+    deliveries: [] as Record<string, any>[],
+    jobs: [] as { type: string; payload: { deliveryId: string } }[],
+  },
+  eq: (column: string | { name: string }, value: unknown) =>
+    (row: Record<string, unknown>) => row[typeof column === "string" ? column : column.name] === value,
+  columns: new Proxy({}, { get: (_, name) => name }),
+}))
+
+vi.mock("drizzle-orm", async importOriginal => ({ ...(await importOriginal<typeof import("drizzle-orm")>()), eq }))
+vi.mock("@/drizzle/db", () => {
+  type Where = { where: (columns: unknown, operators: { eq: typeof eq }) => (row: Record<string, unknown>) => boolean }
+  return {
+    db: {
+      query: {
+        MeetingTable: { findFirst: async ({ where }: Where) => state.meetings.find(where(columns, { eq })) },
+        WebhookTable: { findMany: async ({ where }: Where) => state.webhooks.filter(where(columns, { eq })) },
+        WebhookDeliveryTable: {
+          findFirst: async ({ where }: Where) => {
+            const delivery = state.deliveries.find(where(columns, { eq }))
+            return delivery && { ...delivery, webhook: state.webhooks.find(webhook => webhook.id === delivery.webhookId) }
+          },
+        },
+      },
+      insert: () => ({
+        values: (rows: Record<string, unknown>[]) => ({
+          onConflictDoNothing: () => ({
+            returning: async () => rows.map(row => {
+              const delivery = { id: crypto.randomUUID(), status: "pending", attempts: 0, ...row }
+              state.deliveries.push(delivery)
+              return { id: delivery.id }
+            }),
+          }),
+        }),
+      }),
+      update: () => ({
+        set: (values: Record<string, unknown>) => ({
+          where: async (condition: (row: Record<string, unknown>) => boolean) => {
+            state.deliveries.filter(condition).forEach(delivery => {
+              Object.assign(delivery, values, { attempts: delivery.attempts + 1 })
+            })
+          },
+        }),
+      }),
+    },
+  }
+})
+vi.mock("@/server/jobs", () => ({
+  enqueueJob: async (type: string, payload: { deliveryId: string }) => {
+    state.jobs.push({ type, payload })
+    return true
+  },
+}))
+
+// The host's receiver: records every call and answers with `receiverStatus`
+const received: { headers: IncomingMessage["headers"]; body: string }[] = []
+let receiverStatus = 200
+let server: Server
+let url: string
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = ""
+    request.on("data", chunk => (body += chunk))
+    request.on("end", () => {
+      received.push({ headers: request.headers, body })
+      response.writeHead(receiverStatus, { "Content-Type": "text/plain" }).end("Internal details of the receiver")
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`
+})
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+const SECRET = "a-long-enough-webhook-secret"
+
+const meeting = {
+  id: "meeting-1",
+  clerkUserId: "host",
+  status: "confirmed",
+  sequence: 0,
+  startTime: new Date("2025-03-14T09:00:00Z"),
+  endTime: new Date("2025-03-14T09:30:00Z"),
+  timezone: "Europe/Berlin",
+  location: null,
+  conferenceUrl: "https://meet.google.com/abc-defg-hij",
+  cancellationReason: null,
+  guestName: "Jane Doe",
+  guestEmail: "jane@example.com",
+  guestNotes: "Looking forward to it",
+  answers: [{ questionId: "company", label: "Company", value: "Acme" }],
+  event: { id: "event-1", name: "Intro", slug: "intro", durationInMinutes: 30 },
+}
+
+beforeEach(() => {
+  vi.stubEnv("SECRETS_ENCRYPTION_KEY", "test-key")
+  // Secrets are stored encrypted, like the settings page saves them
+  const secret = encryptSecret(SECRET)
+  state.meetings = [meeting]
+  state.webhooks = [
+    { id: "webhook-created", clerkUserId: "host", url, secret, triggers: ["BOOKING_CREATED", "BOOKING_CANCELLED"] },
+    { id: "webhook-cancelled", clerkUserId: "host", url, secret, triggers: ["BOOKING_CANCELLED"] },
+    { id: "webhook-other-host", clerkUserId: "other", url, secret, triggers: ["BOOKING_CREATED"] },
+  ]
+})
+
+afterEach(() => {
+  state.deliveries = []
+  state.jobs = []
+  received.length = 0
+  receiverStatus = 200
+  vi.unstubAllEnvs()
+})
+
+describe("webhooks", () => {
+  it("posts the booking change, signed with the webhook's secret", async () => {
+    await triggerWebhooks("BOOKING_CREATED", meeting.id)
+    await deliverWebhook(state.jobs[0].payload.deliveryId, { lastAttempt: false })
+
+    expect(received).toHaveLength(1)
+    const [{ headers, body }] = received
+    expect(JSON.parse(body)).toEqual({
+      id: "BOOKING_CREATED:meeting-1:0",
+      trigger: "BOOKING_CREATED",
+      createdAt: expect.any(String),
+      data: {
+        meetingId: "meeting-1",
+        status: "confirmed",
+        startTime: "2025-03-14T09:00:00.000Z",
+        endTime: "2025-03-14T09:30:00.000Z",
+        previousStartTime: null,
+        timezone: "Europe/Berlin",
+        location: "https://meet.google.com/abc-defg-hij",
+        cancellationReason: null,
+        event: { id: "event-1", name: "Intro", slug: "intro", durationInMinutes: 30 },
+        guest: {
+          name: "Jane Doe",
+          email: "jane@example.com",
+          notes: "Looking forward to it",
+          answers: [{ questionId: "company", label: "Company", value: "Acme" }],
+        },
+      },
+    })
+    expect(headers["content-type"]).toBe("application/json")
+    expect(headers["x-calendify-event"]).toBe("BOOKING_CREATED")
+    expect(headers["x-calendify-delivery"]).toBe(state.deliveries[0].id)
+
+    // Verified the way the README tells receivers to
+    const [, timestamp, signature] = String(headers["x-calendify-signature"]).match(/^t=(\d+),v1=([0-9a-f]{64})$/) ?? []
+    expect(signature).toBe(createHmac("sha256", SECRET).update(`${timestamp}.${body}`).digest("hex"))
+    expect(Math.abs(Date.now() / 1000 - Number(timestamp))).toBeLessThan(60)
+
+    expect(state.deliveries[0]).toMatchObject({ status: "succeeded", attempts: 1, responseStatus: 200, error: null })
+  })
+
+  it("still signs with secrets saved before they were encrypted", async () => {
+    state.webhooks[0].secret = SECRET
+    await triggerWebhooks("BOOKING_CREATED", meeting.id)
+    await deliverWebhook(state.jobs[0].payload.deliveryId, { lastAttempt: false })
+
+    const [{ headers, body }] = received
+    const [, timestamp, signature] = String(headers["x-calendify-signature"]).match(/^t=(\d+),v1=([0-9a-f]{64})$/) ?? []
+    expect(signature).toBe(createHmac("sha256", SECRET).update(`${timestamp}.${body}`).digest("hex"))
+  })
+
+  it("only calls the host's webhooks that listen to the trigger", async () => {
+    const keys = await triggerWebhooks("BOOKING_CREATED", meeting.id)
+    expect(state.deliveries.map(delivery => delivery.webhookId)).toEqual(["webhook-created"])
+    expect(keys).toEqual([`deliverWebhook:${state.deliveries[0].id}`]) // For running them right after the response
+
+    await triggerWebhooks("BOOKING_CANCELLED", meeting.id)
+    expect(state.deliveries.map(delivery => delivery.webhookId)).toEqual(["webhook-created", "webhook-created", "webhook-cancelled"])
+    expect(state.jobs).toHaveLength(3)
+  })
+
+  it("retries when the receiver doesn't answer with a 2xx status", async () => {
+    await triggerWebhooks("BOOKING_CREATED", meeting.id)
+    const { deliveryId } = state.jobs[0].payload
+    receiverStatus = 500
+
+    // Throwing makes the job queue try again later
+    await expect(deliverWebhook(deliveryId, { lastAttempt: false })).rejects.toThrow("Receiver answered 500")
+    expect(state.deliveries[0]).toMatchObject({ status: "retrying", attempts: 1, responseStatus: 500, error: "Receiver answered 500" })
+
+    receiverStatus = 204
+    await deliverWebhook(deliveryId, { lastAttempt: false })
+    expect(state.deliveries[0]).toMatchObject({ status: "succeeded", attempts: 2, responseStatus: 204, error: null })
+    expect(received).toHaveLength(2)
+    expect(received[1].body).toBe(received[0].body) // Every retry sends the same change
+  })
+
+  it("gives up after the last attempt", async () => {
+    await triggerWebhooks("BOOKING_CREATED", meeting.id)
+    receiverStatus = 503
+
+    await expect(deliverWebhook(state.jobs[0].payload.deliveryId, { lastAttempt: true })).rejects.toThrow("Receiver answered 503")
+    expect(state.deliveries[0]).toMatchObject({ status: "failed", error: "Receiver answered 503" })
+  })
+
+  it("refuses receivers on private addresses in production", async () => {
+    vi.stubEnv("NODE_ENV", "production")
+    await triggerWebhooks("BOOKING_CREATED", meeting.id)
+
+    await expect(deliverWebhook(state.jobs[0].payload.deliveryId, { lastAttempt: false })).rejects.toThrow("127.0.0.1 is not a public address.")
+    expect(received).toHaveLength(0)
+    expect(state.deliveries[0]).toMatchObject({ status: "retrying", responseStatus: null })
+  })
+})
@@ -0,0 +1,148 @@
+import { WEBHOOK_TIMEOUT_IN_MS, WEBHOOK_TRIGGERS } from "@/constants"
+import { db } from "@/drizzle/db"
+import { WebhookDeliveryTable } from "@/drizzle/schema"
+import type { BookingAnswer } from "@/schema/meetings"
+import { createHmac } from "crypto"
+import { eq, sql } from "drizzle-orm"
+import { enqueueJob } from "../jobs"
+import { assertPublicUrl } from "../publicUrl"
+import { decryptSecret } from "../secrets"
+
+export type WebhookTrigger = (typeof WEBHOOK_TRIGGERS)[number]["type"]
+
+// The JSON body of a webhook call
+export type WebhookPayload = {
+  id: string // ID of the booking change, the same in every retry (receivers can use it to skip duplicates)
+  trigger: WebhookTrigger
+  createdAt: string // When the change happened (ISO 8601)
+  data: {
+    meetingId: string
+    status: string
+    startTime: string
+    endTime: string
+    previousStartTime: string | null // BOOKING_RESCHEDULED: the time the meeting was moved from
+    timezone: string // Timezone the guest booked in
+    location: string | null // Link, address, phone number or Google Meet link
+    cancellationReason: string | null
+    event: { id: string; name: string; slug: string; durationInMinutes: number }
+    guest: { name: string; email: string; notes: string | null; answers: BookingAnswer[] }
+  }
+}
+
+// Signature of a webhook call: "t=<unix time>,v1=<hex HMAC-SHA256 of "<unix time>.<body>">".
+// Signing the time too lets receivers reject old requests that are replayed.
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+  return `t=${timestamp},v1=${signature}`
+}
+
+// Records a booking change for every webhook of the host that subscribed to it and queues their calls.
+// The change ID is made of the meeting's SEQUENCE (bumped on every change), so calling this twice for the
+// same change (e.g. from a retried server action) still sends it once. Returns the keys of the jobs it queued.
+export async function triggerWebhooks(
+  trigger: WebhookTrigger,
+  meetingId: string,
+  { previousStartTime }: { previousStartTime?: Date } = {}
+): Promise<string[]> {
+  const meeting = await db.query.MeetingTable.findFirst({
+    where: ({ id }, { eq }) => eq(id, meetingId),
+    with: { event: { columns: { id: true, name: true, slug: true, durationInMinutes: true } } },
+  })
+  if (!meeting) return []
+
+  // Hosts only have a handful of webhooks, the ones listening to this trigger are picked here
+  const webhooks = (await db.query.WebhookTable.findMany({
+    columns: { id: true, triggers: true },
+    where: ({ clerkUserId }, { eq }) => eq(clerkUserId, meeting.clerkUserId),
+  })).filter(webhook => webhook.triggers.includes(trigger))
+  if (webhooks.length === 0) return []
+
+  const changeId = `${trigger}:${meeting.id}:${meeting.sequence}`
+  const payload: WebhookPayload = {
+    id: changeId,
+    trigger,
+    createdAt: new Date().toISOString(),
+    data: {
+      meetingId: meeting.id,
+      status: meeting.status,
+      startTime: meeting.startTime.toISOString(),
+      endTime: meeting.endTime.toISOString(),
+      previousStartTime: previousStartTime?.toISOString() ?? null,
+      timezone: meeting.timezone,
+      location: meeting.location ?? meeting.conferenceUrl,
+      cancellationReason: meeting.cancellationReason,
+      event: meeting.event,
+      guest: { name: meeting.guestName, email: meeting.guestEmail, notes: meeting.guestNotes, answers: meeting.answers },
+    },
+  }
+
+  const deliveries = await db
+    .insert(WebhookDeliveryTable)
+    .values(webhooks.map(webhook => ({ webhookId: webhook.id, trigger, changeId, payload })))
+    .onConflictDoNothing() // Already recorded for this change
+    .returning({ id: WebhookDeliveryTable.id })
+
+  const keys: string[] = []
+  for (const delivery of deliveries) {
+    const key = `deliverWebhook:${delivery.id}`
+    if (await enqueueJob("deliverWebhook", { deliveryId: delivery.id }, { key })) keys.push(key)
+  }
+
+  return keys
+}
+
+// Sends one recorded booking change to its webhook and logs the outcome. Throws when the receiver didn't
+// answer with a 2xx status, so the job queue tries again later (`lastAttempt`: no retry follows).
+// Only the status and the error are logged: the host sees the log, and a receiver they don't control
+// (e.g. a private service behind a public name) shouldn't be able to show them anything else.
+export async function deliverWebhook(deliveryId: string, { lastAttempt }: { lastAttempt: boolean }): Promise<void> {
+  const delivery = await db.query.WebhookDeliveryTable.findFirst({
+    where: ({ id }, { eq }) => eq(id, deliveryId),
+    with: { webhook: true },
+  })
+  // The webhook was deleted in the meantime, or a retry of an attempt that already worked
+  if (!delivery || delivery.status === "succeeded") return
+
+  const body = JSON.stringify(delivery.payload)
+  let responseStatus: number | null = null
+  let error: string | null = null
+
+  try {
+    // Checked on every call: the host name may resolve to a private address by now
+    await assertPublicUrl(delivery.webhook.url)
+
+    const response = await fetch(delivery.webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Calendify-Webhooks",
+        "X-Calendify-Event": delivery.trigger,
+        "X-Calendify-Delivery": delivery.id,
+        "X-Calendify-Signature": signWebhookPayload(decryptSecret(delivery.webhook.secret), Math.floor(Date.now() / 1000), body),
+      },
+      body,
+      redirect: "manual", // A redirect isn't an answer; following it could post the booking somewhere else
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_IN_MS),
+    })
+    responseStatus = response.status
+    await response.body?.cancel() // The body isn't needed, only the status
+    if (!response.ok) {
+      error = `Receiver answered ${response.status}`
+    }
+  } catch (fetchError: any) {
+    error = fetchError.name === "TimeoutError" ? "Receiver didn't answer in time" : String(fetchError.message || fetchError)
+  }
+
+  await db
+    .update(WebhookDeliveryTable)
+    .set({
+      status: error == null ? "succeeded" : lastAttempt ? "failed" : "retrying",
+      attempts: sql`${WebhookDeliveryTable.attempts} + 1`,
+      responseStatus,
+      error,
+      deliveredAt: error == null ? new Date() : null,
+    })
+    .where(eq(WebhookDeliveryTable.id, delivery.id))
+
+  if (error != null) throw new Error(error)
+}
@@ -0,0 +1,17 @@
+import { fileURLToPath } from "url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: { "@/": fileURLToPath(new URL(".", import.meta.url)) }, // Same "@/..." imports as tsconfig.json
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules", ".next"],
+    setupFiles: ["./vitest.setup.ts"],
+    benchmark: {
+      include: ["scripts/**/*.bench.ts"],
+    },
+  },
+})
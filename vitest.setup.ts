@@ -0,0 +1,6 @@
+// The app relies on Object.groupBy (Node 21+); add it when tests and benchmarks run on Node 20
+Object.groupBy ??= <K extends PropertyKey, T>(items: Iterable<T>, keyOf: (item: T, index: number) => K) => {
+  const groups = Object.create(null) as Partial<Record<K, T[]>>
+  Array.from(items).forEach((item, index) => (groups[keyOf(item, index)] ??= []).push(item))
+  return groups
+}